@@ -11,8 +11,12 @@ import {
   VerifyResponse,
 } from "@x402/core/types";
 import { toFacilitatorEvmSigner } from "@x402/evm";
-import { registerExactEvmScheme } from "@x402/evm/exact/facilitator";
-import { settleWithRefundHelper, extractRefundInfo } from "@x402r/extensions/refund";
+import {
+  FileRefundSettlementStore,
+  reconcilePendingSettlements,
+  registerRefundExtension,
+  type RefundFacilitatorSigner,
+} from "@x402r/extensions/refund";
 
 config();
 
@@ -48,7 +52,7 @@ const viemClient = createWalletClient({
 }).extend(publicActions);
 
 // Create EVM signer for facilitator operations
-const evmSigner = toFacilitatorEvmSigner({
+const facilitatorSigner = toFacilitatorEvmSigner({
   getCode: (args: { address: `0x${string}` }) => viemClient.getCode(args),
   address: evmAccount.address,
   readContract: (args: {
@@ -86,61 +90,30 @@ const evmSigner = toFacilitatorEvmSigner({
     viemClient.  waitForTransactionReceipt(args),
 });
 
-// Store successful refund settlement results keyed by payment nonce
-const refundSettlementResults = new Map<string, SettleResponse>();
-
-// Initialize x402 Facilitator with refund handling hooks
-const facilitator = new x402Facilitator()
-  .onBeforeVerify(async (context) => {
-    // Optionally extract and validate refund info early
-    if (context.paymentPayload && context.requirements) {
-      const refundInfo = extractRefundInfo(context.paymentPayload, context.requirements);
-      // Refund info extracted and validated
-    }
-  })
-  .onBeforeSettle(async (context) => {
-    // Handle refund settlements via X402DepositRelayProxy
-    try {
-      const refundResult = await settleWithRefundHelper(
-        context.paymentPayload,
-        context.requirements,
-        evmSigner,
-      );
+// simulateContract lets the refund extension dry-run deployRelay and executeDeposit;
+// getTransactionConfirmations lets it wait for a network's confirmation depth
+const evmSigner: RefundFacilitatorSigner = {
+  ...facilitatorSigner,
+  simulateContract: args => viemClient.simulateContract(args),
+  getTransactionConfirmations: args => viemClient.getTransactionConfirmations(args),
+};
 
-      if (refundResult) {
-        // Store the successful result keyed by nonce for retrieval in /settle endpoint
-        const payload = context.paymentPayload.payload as {
-          authorization?: {
-            nonce: string;
-          };
-        };
-        if (payload.authorization?.nonce) {
-          refundSettlementResults.set(payload.authorization.nonce, refundResult);
-        }
+// Initialize x402 Facilitator and register the EVM exact scheme with refund handling:
+// refund payments are verified and settled via X402DepositRelayProxy, others settle normally
+const facilitator = new x402Facilitator();
 
-        return {
-          abort: true,
-          reason: "handled_by_refund_helper",
-        };
-      }
-    } catch (error) {
-      // Abort settlement if refund helper fails - no fallback to normal settlement
-      console.error("Refund helper error:", error);
-      return {
-        abort: true,
-        reason: `refund_helper_failed: ${error instanceof Error ? error.message : String(error)}`,
-      };
-    }
+// Settled refunds survive restarts; a retried /settle returns the stored result
+const settlementStore = new FileRefundSettlementStore(
+  process.env.REFUND_SETTLEMENT_STORE || "refund-settlements.jsonl",
+);
 
-    // No refund applicable or refund helper didn't handle it - proceed with normal settlement
-    return undefined;
-  });
-
-// Register EVM scheme with facilitator
-registerExactEvmScheme(facilitator, {
+registerRefundExtension(facilitator, {
   signer: evmSigner,
   networks: network,
   deployERC4337WithEIP6492: true,
+  store: settlementStore,
+  // Dry-run deployRelay and executeDeposit so reverts don't cost gas
+  simulate: true,
 });
 
 const app = express();
@@ -183,7 +156,7 @@ app.post("/verify", async (req, res) => {
  * POST /settle
  * Settle a payment on-chain
  *
- * Refund-enabled payments are automatically handled via DepositRelay in onBeforeSettle hook
+ * Refund-enabled payments are automatically handled via DepositRelay by the refund extension
  */
 app.post("/settle", async (req, res) => {
   try {
@@ -202,37 +175,6 @@ app.post("/settle", async (req, res) => {
 
     res.json(response);
   } catch (error) {
-    if (
-      error instanceof Error &&
-      error.message.includes("Settlement aborted:")
-    ) {
-      const abortReason = error.message.replace("Settlement aborted: ", "");
-
-      // If this was a successful refund settlement, return the stored result
-      if (abortReason === "handled_by_refund_helper") {
-        const payload = req.body?.paymentPayload?.payload as {
-          authorization?: {
-            nonce: string;
-          };
-        };
-
-        if (payload?.authorization?.nonce) {
-          const storedResult = refundSettlementResults.get(payload.authorization.nonce);
-          if (storedResult) {
-            refundSettlementResults.delete(payload.authorization.nonce);
-            return res.json(storedResult);
-          }
-        }
-      }
-
-      // Return a proper SettleResponse for other abort reasons
-      return res.json({
-        success: false,
-        errorReason: abortReason,
-        network: req.body?.paymentPayload?.network || req.body?.paymentRequirements?.network || "unknown",
-      } as SettleResponse);
-    }
-
     console.error("Settle error:", error);
     res.status(500).json({
       error: error instanceof Error ? error.message : "Unknown error",
@@ -257,6 +199,27 @@ app.get("/supported", async (req, res) => {
 });
 
 const PORT = process.env.PORT || "4022";
-app.listen(parseInt(PORT), () => {
-  console.log(`Facilitator listening at http://localhost:${PORT}`);
+
+// Resolve settlements interrupted by a previous crash. Records that cannot be checked yet
+// (RPC errors, deposits still in the mempool) stay pending and are retried every minute.
+async function reconcile(): Promise<void> {
+  try {
+    const results = await reconcilePendingSettlements(evmSigner, settlementStore);
+    for (const { key, outcome, error } of results) {
+      if (error) {
+        console.warn(`Could not reconcile settlement ${key}:`, error);
+      } else if (outcome !== "pending") {
+        console.log(`Reconciled settlement ${key}: ${outcome}`);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to reconcile pending settlements:", error);
+  }
+}
+
+void reconcile().then(() => {
+  setInterval(reconcile, 60_000);
+  app.listen(parseInt(PORT), () => {
+    console.log(`Facilitator listening at http://localhost:${PORT}`);
+  });
 });
@@ -0,0 +1,368 @@
+/**
+ * Contract ABIs for the Refund Helper Extension
+ *
+ * Function ABIs used to talk to the factory, escrow, relay proxy and ERC-3009 token,
+ * plus the custom errors each can revert with (used to decode reverts) and the escrow's
+ * deposit event (used to read the deposit nonce from a receipt).
+ *
+ * Provenance: the function entries are the ones this extension has always called. The
+ * custom errors and the `DepositNoted` event are written by hand, not generated from
+ * compiled artifacts, because no contract artifacts ship with this package. They assume:
+ * - `DepositNoted(address indexed user, address indexed merchantPayout,
+ *   uint256 indexed depositNonce, uint256 amount)` is emitted by `noteDeposit`
+ * - escrow, relay and factory errors use the names and argument types listed here
+ * - `ERC20*`, `SafeERC20FailedOperation` and `ReentrancyGuardReentrantCall` are the
+ *   OpenZeppelin Contracts 5.x errors, and the factory errors are CreateX's
+ *
+ * If the deployed contracts differ, an unknown error decodes as `UnknownError` with its
+ * selector, and a different event signature means no refund receipt is returned. Replace
+ * these entries with the artifacts' ABIs when they are available. The event topic and
+ * error selectors are pinned in test/unit/abis.test.ts so changes are deliberate.
+ */
+
+/**
+ * Factory ABI - any CREATE3-compatible factory that implements these methods can be used
+ * No interface required - duck typing at runtime!
+ *
+ * Note: Proxies store all data directly (merchantPayout, token, escrow), so factory
+ * only needs methods for deployment and address computation.
+ */
+export const FACTORY_ABI = [
+  {
+    name: "getMerchantFromRelay",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "relayAddress", type: "address" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "getRelayAddress",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "merchantPayout", type: "address" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "deployRelay",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "merchantPayout", type: "address" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "getCreateX",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  // Custom errors (CreateX errors bubble up through deployRelay)
+  {
+    name: "ZeroAddress",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "FailedContractCreation",
+    type: "error",
+    inputs: [{ name: "emitter", type: "address" }],
+  },
+  {
+    name: "FailedContractInitialisation",
+    type: "error",
+    inputs: [
+      { name: "emitter", type: "address" },
+      { name: "revertData", type: "bytes" },
+    ],
+  },
+] as const;
+
+/**
+ * Escrow ABI for shared escrow
+ */
+export const ESCROW_ABI = [
+  {
+    name: "registerMerchant",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "merchantPayout", type: "address" },
+      { name: "arbiter", type: "address" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "registeredMerchants",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "merchantPayout", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "merchantArbiters",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "merchantPayout", type: "address" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "getArbiter",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "merchantPayout", type: "address" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "noteDeposit",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "user", type: "address" },
+      { name: "merchantPayout", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "release",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "user", type: "address" },
+      { name: "depositNonce", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "refund",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "user", type: "address" },
+      { name: "depositNonce", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "deposits",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "user", type: "address" },
+      { name: "depositNonce", type: "uint256" },
+    ],
+    outputs: [
+      { name: "principal", type: "uint256" },
+      { name: "timestamp", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "merchantPayout", type: "address" },
+    ],
+  },
+  // Events
+  {
+    name: "DepositNoted",
+    type: "event",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "merchantPayout", type: "address", indexed: true },
+      { name: "depositNonce", type: "uint256", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  // Custom errors
+  {
+    name: "MerchantNotRegistered",
+    type: "error",
+    inputs: [{ name: "merchantPayout", type: "address" }],
+  },
+  {
+    name: "MerchantAlreadyRegistered",
+    type: "error",
+    inputs: [{ name: "merchantPayout", type: "address" }],
+  },
+  {
+    name: "NotArbiter",
+    type: "error",
+    inputs: [{ name: "caller", type: "address" }],
+  },
+  {
+    name: "NotMerchant",
+    type: "error",
+    inputs: [{ name: "caller", type: "address" }],
+  },
+  {
+    name: "DepositNotFound",
+    type: "error",
+    inputs: [
+      { name: "user", type: "address" },
+      { name: "depositNonce", type: "uint256" },
+    ],
+  },
+  {
+    name: "ZeroAmount",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "SafeERC20FailedOperation",
+    type: "error",
+    inputs: [{ name: "token", type: "address" }],
+  },
+] as const;
+
+/**
+ * RelayProxy ABI - proxy stores all data directly
+ */
+export const RELAY_PROXY_ABI = [
+  {
+    name: "executeDeposit",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "fromUser", type: "address" },
+      { name: "amount", type: "uint256" },
+      { name: "validAfter", type: "uint256" },
+      { name: "validBefore", type: "uint256" },
+      { name: "nonce", type: "bytes32" },
+      { name: "v", type: "uint8" },
+      { name: "r", type: "bytes32" },
+      { name: "s", type: "bytes32" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "MERCHANT_PAYOUT",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "TOKEN",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "ESCROW",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  // Custom errors (token and escrow errors bubble up through executeDeposit)
+  {
+    name: "ZeroAmount",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "TransferFailed",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "SafeERC20FailedOperation",
+    type: "error",
+    inputs: [{ name: "token", type: "address" }],
+  },
+] as const;
+
+/**
+ * ERC-3009 token ABI - authorization state plus the custom errors common token
+ * implementations revert with (FiatToken reverts with Error(string), decoded natively)
+ */
+export const ERC3009_ABI = [
+  {
+    name: "authorizationState",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "authorizer", type: "address" },
+      { name: "nonce", type: "bytes32" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  // Custom errors
+  {
+    name: "AuthorizationAlreadyUsed",
+    type: "error",
+    inputs: [
+      { name: "authorizer", type: "address" },
+      { name: "nonce", type: "bytes32" },
+    ],
+  },
+  {
+    name: "AuthorizationNotYetValid",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "AuthorizationExpired",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "InvalidSignature",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "ERC20InsufficientBalance",
+    type: "error",
+    inputs: [
+      { name: "sender", type: "address" },
+      { name: "balance", type: "uint256" },
+      { name: "needed", type: "uint256" },
+    ],
+  },
+  {
+    name: "ERC20InvalidSender",
+    type: "error",
+    inputs: [{ name: "sender", type: "address" }],
+  },
+  {
+    name: "ERC20InvalidReceiver",
+    type: "error",
+    inputs: [{ name: "receiver", type: "address" }],
+  },
+] as const;
+
+/**
+ * Multicall3 ABI - batches the preflight reads into one eth_call
+ * (https://github.com/mds1/multicall)
+ */
+export const MULTICALL3_ABI = [
+  {
+    name: "aggregate3",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      {
+        name: "calls",
+        type: "tuple[]",
+        components: [
+          { name: "target", type: "address" },
+          { name: "allowFailure", type: "bool" },
+          { name: "callData", type: "bytes" },
+        ],
+      },
+    ],
+    outputs: [
+      {
+        name: "returnData",
+        type: "tuple[]",
+        components: [
+          { name: "success", type: "bool" },
+          { name: "returnData", type: "bytes" },
+        ],
+      },
+    ],
+  },
+] as const;
@@ -0,0 +1,523 @@
+/**
+ * Arbiter-side escrow client
+ *
+ * An arbiter resolves disputes for the merchants that registered it with the escrow. It
+ * lists their open deposits, accepts buyers' signed refund requests as disputes, records
+ * evidence and decisions, and carries decisions out with escrow.refund() or escrow.release().
+ */
+
+import {
+  getAddress,
+  isAddressEqual,
+  zeroHash,
+  type Account,
+  type PublicClient,
+  type WalletClient,
+} from "viem";
+import { ESCROW_ABI } from "../abis";
+import { ArbiterDisputeError, EscrowCallError } from "../errors";
+import {
+  listEscrowDeposits,
+  readEscrowDeposit,
+  resolveFromBlock,
+  writeEscrowContract,
+  type EscrowDeposit,
+  type EscrowDepositFilter,
+} from "../escrow/escrowContract";
+import { defaultRefundNetworkRegistry, type RefundNetworkRegistry } from "../networks";
+import {
+  verifyRefundEvidence,
+  verifyRefundRequest,
+  type SignedRefundRequest,
+} from "../escrow/refundRequest";
+import {
+  InMemoryArbiterDisputeStore,
+  getArbiterDisputeId,
+  type ArbiterDecision,
+  type ArbiterDecisionOutcome,
+  type ArbiterDispute,
+  type ArbiterDisputeStatus,
+  type ArbiterDisputeStore,
+} from "./disputeStore";
+
+/**
+ * Configuration for an ArbiterClient
+ */
+export interface ArbiterClientConfig {
+  /** viem public client for reads, receipts and smart wallet signatures */
+  publicClient: PublicClient;
+  /** viem wallet client (with the arbiter's account) that sends refund and release */
+  walletClient?: WalletClient;
+  /** CAIP-2 network id of the escrow (eip155:<chainId>) */
+  network: string;
+  /** The escrow the merchants' relays deposit into */
+  escrowAddress: string;
+  /** Payout addresses of the merchants the arbiter resolves disputes for */
+  merchantPayouts: string[];
+  /** The arbiter's address (defaults to the wallet client's account) */
+  arbiterAddress?: string;
+  /** Where disputes and decisions are recorded (default: in memory) */
+  store?: ArbiterDisputeStore;
+  /** First block searched for deposits (defaults to the registry's `escrowDeploymentBlock`) */
+  fromBlock?: bigint;
+  /** Network registry (defaults to `defaultRefundNetworkRegistry`) */
+  registry?: RefundNetworkRegistry;
+}
+
+/**
+ * Escrow client for an arbiter.
+ *
+ * Only merchants whose escrow arbiter is this arbiter are served: deposits and disputes
+ * for any other merchant are rejected. escrow.refund() returns the full principal, so a
+ * request's `amount` is recorded but not enforced.
+ *
+ * @example
+ * ```typescript
+ * const arbiter = new ArbiterClient({
+ *   publicClient,
+ *   walletClient,
+ *   network: "eip155:84532",
+ *   escrowAddress: "0xEscrow123...",
+ *   merchantPayouts: ["0xMerchant123..."],
+ *   store: new FileArbiterDisputeStore("./disputes.json"),
+ * });
+ *
+ * // A buyer sends a request signed with BuyerRefundClient.createRefundRequest()
+ * const dispute = await arbiter.submitDispute(signedRequest);
+ * await arbiter.decide(dispute.id, "refund", "Service was not delivered");
+ * await arbiter.execute(dispute.id);
+ * ```
+ */
+export class ArbiterClient {
+  readonly network: string;
+  readonly escrowAddress: `0x${string}`;
+  readonly merchantPayouts: `0x${string}`[];
+  private readonly publicClient: PublicClient;
+  private readonly walletClient?: WalletClient;
+  private readonly configuredArbiter?: `0x${string}`;
+  private readonly store: ArbiterDisputeStore;
+  private readonly fromBlock?: bigint;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates an ArbiterClient.
+   *
+   * @param config - viem clients, escrow, merchants and dispute store
+   */
+  constructor(config: ArbiterClientConfig) {
+    this.publicClient = config.publicClient;
+    this.walletClient = config.walletClient;
+    this.network = config.network;
+    this.escrowAddress = getAddress(config.escrowAddress);
+    this.merchantPayouts = config.merchantPayouts.map(merchant => getAddress(merchant));
+    this.configuredArbiter = config.arbiterAddress ? getAddress(config.arbiterAddress) : undefined;
+    this.store = config.store ?? new InMemoryArbiterDisputeStore();
+    this.fromBlock =
+      config.fromBlock ??
+      (config.registry ?? defaultRefundNetworkRegistry).getEscrowDeploymentBlock(config.network);
+  }
+
+  /**
+   * The arbiter's address.
+   *
+   * @returns The configured address, or the wallet client's account address
+   * @throws Error if neither is set
+   */
+  get arbiterAddress(): `0x${string}` {
+    const account = this.walletClient?.account as Account | undefined;
+    const address = this.configuredArbiter ?? account?.address;
+    if (!address) {
+      throw new Error("ArbiterClient needs an arbiterAddress or a wallet client with an account");
+    }
+    return address;
+  }
+
+  /**
+   * Gets the configured merchants whose escrow arbiter is this arbiter.
+   *
+   * @returns The merchant payout addresses
+   */
+  async getArbitratedMerchants(): Promise<`0x${string}`[]> {
+    const arbiters = await Promise.all(
+      this.merchantPayouts.map(merchant =>
+        this.publicClient.readContract({
+          address: this.escrowAddress,
+          abi: ESCROW_ABI,
+          functionName: "getArbiter",
+          args: [merchant],
+        }),
+      ),
+    );
+    return this.merchantPayouts.filter((_, i) => isAddressEqual(arbiters[i], this.arbiterAddress));
+  }
+
+  /**
+   * Lists the deposits still held for the arbitrated merchants.
+   *
+   * @param filter - Buyer and block range (from the configured `fromBlock` by default)
+   * @returns The open deposits, oldest first per merchant
+   * @throws Error if no `fromBlock` is given or configured
+   */
+  async listOpenDeposits(
+    filter: Omit<Partial<EscrowDepositFilter>, "merchantPayout"> = {},
+  ): Promise<EscrowDeposit[]> {
+    const fromBlock = resolveFromBlock(filter.fromBlock, this.fromBlock);
+    const merchants = await this.getArbitratedMerchants();
+    const deposits = await Promise.all(
+      merchants.map(merchantPayout =>
+        listEscrowDeposits(this.publicClient, this.escrowAddress, {
+          ...filter,
+          fromBlock,
+          merchantPayout,
+        }),
+      ),
+    );
+    return deposits.flat().filter(deposit => deposit.open);
+  }
+
+  /**
+   * Accepts a buyer's signed refund request as a dispute.
+   *
+   * The signature must be the deposit user's, and the deposit must be held for a merchant
+   * this arbiter resolves. Submitting again for a deposit already in dispute adds the new
+   * request's evidence to the existing dispute.
+   *
+   * @param signed - The buyer's signed refund request
+   * @param evidenceHashes - keccak256 hashes of further evidence. They are not covered by
+   *   the signature, so pass only evidence the arbiter received itself; buyers add theirs
+   *   with `addSignedEvidence()`
+   * @returns The recorded dispute
+   * @throws ArbiterDisputeError if the request or its deposit is rejected
+   */
+  async submitDispute(
+    signed: SignedRefundRequest,
+    evidenceHashes: `0x${string}`[] = [],
+  ): Promise<ArbiterDispute> {
+    const { request } = signed;
+    const id = getArbiterDisputeId(
+      request.network,
+      request.escrow,
+      request.user,
+      request.depositNonce,
+    );
+
+    if (request.network !== this.network || !isAddressEqual(request.escrow, this.escrowAddress)) {
+      throw new ArbiterDisputeError(
+        "WRONG_ESCROW",
+        `Request is for escrow ${request.escrow} on ${request.network}, not ${this.escrowAddress} on ${this.network}`,
+        id,
+      );
+    }
+    if (!(await verifyRefundRequest(signed, this.publicClient))) {
+      throw new ArbiterDisputeError(
+        "INVALID_SIGNATURE",
+        `Request is not signed by ${request.user}`,
+        id,
+      );
+    }
+
+    const deposit = await readEscrowDeposit(
+      this.publicClient,
+      this.escrowAddress,
+      request.user,
+      BigInt(request.depositNonce),
+    );
+    if (!deposit || !isAddressEqual(deposit.merchantPayout, request.merchantPayout)) {
+      throw new ArbiterDisputeError(
+        "DEPOSIT_NOT_FOUND",
+        `No deposit ${request.depositNonce} for ${request.user} and merchant ${request.merchantPayout}`,
+        id,
+      );
+    }
+    if (!(await this.getArbitratedMerchants()).includes(deposit.merchantPayout)) {
+      throw new ArbiterDisputeError(
+        "NOT_ARBITRATED",
+        `Merchant ${deposit.merchantPayout} is not arbitrated by ${this.arbiterAddress}`,
+        id,
+      );
+    }
+
+    const hashes = request.evidenceHash === zeroHash ? [] : [request.evidenceHash];
+    hashes.push(...evidenceHashes);
+
+    return this.enqueue(async () => {
+      const existing = await this.store.get(id);
+      if (existing) {
+        return this.addEvidenceHashes(existing, hashes);
+      }
+      if (!deposit.open) {
+        throw new ArbiterDisputeError(
+          "DEPOSIT_CLOSED",
+          `Deposit ${request.depositNonce} was already released or refunded`,
+          id,
+        );
+      }
+
+      const now = Date.now();
+      const dispute: ArbiterDispute = {
+        id,
+        request: signed,
+        evidenceHashes: [...new Set(hashes)],
+        status: "open",
+        submittedAt: now,
+        updatedAt: now,
+      };
+      await this.store.put(dispute);
+      return dispute;
+    });
+  }
+
+  /**
+   * Adds evidence to an open dispute.
+   *
+   * @param id - The dispute id
+   * @param evidenceHash - keccak256 of the evidence
+   * @returns The updated dispute
+   * @throws ArbiterDisputeError if the dispute does not exist or was already decided
+   */
+  async addEvidence(id: string, evidenceHash: `0x${string}`): Promise<ArbiterDispute> {
+    return this.enqueue(async () =>
+      this.addEvidenceHashes(await this.getOrThrow(id), [evidenceHash]),
+    );
+  }
+
+  /**
+   * Adds evidence signed by the dispute's user (see `BuyerRefundClient.signEvidence()`).
+   *
+   * @param id - The dispute id
+   * @param evidenceHash - keccak256 of the evidence
+   * @param signature - The user's RefundEvidence signature
+   * @returns The updated dispute
+   * @throws ArbiterDisputeError if the signature is not the user's, or the dispute does not
+   * exist or was already decided
+   */
+  async addSignedEvidence(
+    id: string,
+    evidenceHash: `0x${string}`,
+    signature: `0x${string}`,
+  ): Promise<ArbiterDispute> {
+    const { request } = (await this.getOrThrow(id)).request;
+    if (!(await verifyRefundEvidence(request, evidenceHash, signature, this.publicClient))) {
+      throw new ArbiterDisputeError(
+        "INVALID_SIGNATURE",
+        `Evidence is not signed by ${request.user}`,
+        id,
+      );
+    }
+    return this.addEvidence(id, evidenceHash);
+  }
+
+  /**
+   * Gets a dispute.
+   *
+   * @param id - The dispute id
+   * @returns The dispute, or undefined if none exists
+   */
+  async getDispute(id: string): Promise<ArbiterDispute | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Lists disputes, oldest first.
+   *
+   * @param status - Only disputes in this state
+   * @returns The disputes
+   */
+  async listDisputes(status?: ArbiterDisputeStatus): Promise<ArbiterDispute[]> {
+    const disputes = await this.store.list();
+    return disputes
+      .filter(dispute => !status || dispute.status === status)
+      .sort((a, b) => a.submittedAt - b.submittedAt);
+  }
+
+  /**
+   * Records a decision for a dispute. A decision can be changed until it is executed.
+   *
+   * @param id - The dispute id
+   * @param outcome - Refund the buyer or release the funds to the merchant
+   * @param note - The arbiter's reasoning
+   * @returns The updated dispute
+   * @throws ArbiterDisputeError if the dispute does not exist or was already executed
+   */
+  async decide(
+    id: string,
+    outcome: ArbiterDecisionOutcome,
+    note?: string,
+  ): Promise<ArbiterDispute> {
+    return this.enqueue(async () => {
+      const dispute = await this.getOrThrow(id);
+      if (dispute.status === "executed") {
+        throw new ArbiterDisputeError("DISPUTE_CLOSED", `Dispute ${id} was already executed`, id);
+      }
+
+      if (dispute.decision?.transaction) {
+        throw new ArbiterDisputeError(
+          "DISPUTE_CLOSED",
+          `Dispute ${id} is being executed in ${dispute.decision.transaction}`,
+          id,
+        );
+      }
+
+      const now = Date.now();
+      const decided: ArbiterDispute = {
+        ...dispute,
+        status: "decided",
+        decision: { outcome, note, decidedAt: now },
+        updatedAt: now,
+      };
+      await this.store.put(decided);
+      return decided;
+    });
+  }
+
+  /**
+   * Carries out a dispute's decision with escrow.refund() or escrow.release().
+   *
+   * The transaction is recorded on the dispute once broadcast. A retry after a failed
+   * receipt wait first waits for that transaction again, and only sends a new one while
+   * the deposit is still held.
+   *
+   * @param id - The dispute id
+   * @returns The executed dispute, with the decision's transaction
+   * @throws ArbiterDisputeError if the dispute has no decision, was already executed, or
+   * its deposit was closed by another transaction
+   * @throws EscrowCallError if the escrow call reverts
+   */
+  async execute(id: string): Promise<ArbiterDispute> {
+    return this.enqueue(async () => {
+      const dispute = await this.getOrThrow(id);
+      if (dispute.status === "executed") {
+        throw new ArbiterDisputeError("DISPUTE_CLOSED", `Dispute ${id} was already executed`, id);
+      }
+      if (!dispute.decision) {
+        throw new ArbiterDisputeError("NOT_DECIDED", `Dispute ${id} has no decision`, id);
+      }
+
+      const { outcome } = dispute.decision;
+      if (!this.walletClient) {
+        throw new EscrowCallError(this.escrowAddress, outcome, "no wallet client configured");
+      }
+      const { decision } = dispute;
+      const { request } = dispute.request;
+
+      // An earlier execution was broadcast: it counts once it lands
+      if (decision.transaction) {
+        const receipt = await this.publicClient
+          .waitForTransactionReceipt({ hash: decision.transaction })
+          .catch(() => undefined);
+        if (receipt?.status === "success") {
+          return this.markExecuted(dispute, decision, decision.transaction);
+        }
+      }
+
+      const deposit = await readEscrowDeposit(
+        this.publicClient,
+        this.escrowAddress,
+        request.user,
+        BigInt(request.depositNonce),
+      );
+      if (!deposit?.open) {
+        throw new ArbiterDisputeError(
+          "DEPOSIT_CLOSED",
+          `Deposit ${request.depositNonce} was already released or refunded`,
+          id,
+        );
+      }
+
+      const { transaction } = await writeEscrowContract(
+        this.publicClient,
+        this.walletClient,
+        this.escrowAddress,
+        outcome,
+        [getAddress(request.user), BigInt(request.depositNonce)],
+        async transaction => {
+          await this.store.put({
+            ...dispute,
+            decision: { ...decision, transaction },
+            updatedAt: Date.now(),
+          });
+        },
+      );
+      return this.markExecuted(dispute, decision, transaction);
+    });
+  }
+
+  /**
+   * Records a dispute's decision as executed and writes it.
+   *
+   * @param dispute - The decided dispute
+   * @param decision - The dispute's decision
+   * @param transaction - The escrow transaction that executed the decision
+   * @returns The executed dispute
+   */
+  private async markExecuted(
+    dispute: ArbiterDispute,
+    decision: ArbiterDecision,
+    transaction: `0x${string}`,
+  ): Promise<ArbiterDispute> {
+    const now = Date.now();
+    const executed: ArbiterDispute = {
+      ...dispute,
+      status: "executed",
+      decision: { ...decision, transaction, executedAt: now },
+      updatedAt: now,
+    };
+    await this.store.put(executed);
+    return executed;
+  }
+
+  /**
+   * Adds evidence hashes to an open dispute and writes it.
+   *
+   * @param dispute - The dispute
+   * @param evidenceHashes - keccak256 hashes of the evidence
+   * @returns The updated dispute
+   */
+  private async addEvidenceHashes(
+    dispute: ArbiterDispute,
+    evidenceHashes: `0x${string}`[],
+  ): Promise<ArbiterDispute> {
+    if (dispute.status !== "open") {
+      throw new ArbiterDisputeError(
+        "DISPUTE_CLOSED",
+        `Dispute ${dispute.id} was already decided`,
+        dispute.id,
+      );
+    }
+
+    const updated: ArbiterDispute = {
+      ...dispute,
+      evidenceHashes: [...new Set([...dispute.evidenceHashes, ...evidenceHashes])],
+      updatedAt: Date.now(),
+    };
+    await this.store.put(updated);
+    return updated;
+  }
+
+  /**
+   * Gets a dispute that must exist.
+   *
+   * @param id - The dispute id
+   * @returns The dispute
+   */
+  private async getOrThrow(id: string): Promise<ArbiterDispute> {
+    const dispute = await this.store.get(id);
+    if (!dispute) {
+      throw new ArbiterDisputeError("DISPUTE_NOT_FOUND", `No dispute ${id}`, id);
+    }
+    return dispute;
+  }
+
+  /**
+   * Runs a dispute update after every previously queued one, so concurrent updates and
+   * executions of the same dispute do not overwrite each other or send twice.
+   *
+   * @param operation - The operation to run
+   * @returns The operation's result
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * Local HTTP service for an arbiter
+ *
+ * Wraps an ArbiterClient in a Node.js request handler so buyers can submit disputes and
+ * evidence over HTTP and the arbiter can decide them. Only types are imported from
+ * node:http and node:crypto is loaded on first use, so the package stays importable
+ * outside Node.js.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { isAddress, isHex } from "viem";
+import { ArbiterDisputeError, EscrowCallError, type ArbiterDisputeErrorCode } from "../errors";
+import type { RefundRequest, SignedRefundRequest } from "../escrow/refundRequest";
+import type { ArbiterClient } from "./arbiterClient";
+import type { ArbiterDisputeStatus } from "./disputeStore";
+
+/**
+ * Options for the arbiter request handler
+ */
+export interface ArbiterRequestHandlerOptions {
+  /**
+   * Bearer token required to list deposits and disputes and to decide and execute
+   * disputes. Without one, those endpoints answer 403 and only disputes and signed
+   * evidence can be submitted.
+   */
+  apiKey?: string;
+  /** Largest accepted request body in bytes (default: 64 KiB) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * HTTP status for each ArbiterDisputeError code
+ */
+const DISPUTE_ERROR_STATUS: Record<ArbiterDisputeErrorCode, number> = {
+  INVALID_SIGNATURE: 400,
+  WRONG_ESCROW: 400,
+  NOT_ARBITRATED: 403,
+  DEPOSIT_NOT_FOUND: 404,
+  DISPUTE_NOT_FOUND: 404,
+  DEPOSIT_CLOSED: 409,
+  DISPUTE_CLOSED: 409,
+  NOT_DECIDED: 409,
+};
+
+const DISPUTE_STATUSES: ArbiterDisputeStatus[] = ["open", "decided", "executed"];
+
+/**
+ * An error answered with a specific HTTP status
+ */
+class HttpError extends Error {
+  /**
+   * @param status - The HTTP status
+   * @param message - The error message returned to the caller
+   */
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Creates a Node.js request handler serving an arbiter's disputes as JSON.
+ *
+ * Routes:
+ * - `GET /deposits` - open deposits of the arbitrated merchants (needs `apiKey`)
+ * - `GET /disputes?status=open` - disputes, optionally by state (needs `apiKey`)
+ * - `POST /disputes` - submit `{ request, signature, evidenceHashes? }` (`evidenceHashes`
+ *   needs `apiKey`: only the request's own `evidenceHash` is signed)
+ * - `GET /disputes/:id` - one dispute (needs `apiKey`)
+ * - `POST /disputes/:id/evidence` - add `{ evidenceHash, signature? }` (needs `apiKey`, or
+ *   the dispute user's RefundEvidence `signature`)
+ * - `POST /disputes/:id/decision` - record `{ outcome, note?, execute? }` (needs `apiKey`)
+ * - `POST /disputes/:id/execute` - execute the recorded decision (needs `apiKey`)
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from "node:http";
+ *
+ * const handler = createArbiterRequestHandler(arbiter, { apiKey: process.env.ARBITER_API_KEY });
+ * createServer(handler).listen(4030);
+ * ```
+ *
+ * @param client - The arbiter client
+ * @param options - API key and body limit
+ * @returns The request handler
+ */
+export function createArbiterRequestHandler(
+  client: ArbiterClient,
+  options: ArbiterRequestHandlerOptions = {},
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const maxBodyBytes = options.maxBodyBytes ?? 64 * 1024;
+
+  const route = async (req: IncomingMessage): Promise<[number, unknown]> => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const segments = url.pathname.split("/").filter(Boolean).map(decodePathSegment);
+    const [resource, id, action] = segments;
+
+    if (req.method === "GET" && resource === "deposits" && segments.length === 1) {
+      await authorize(req, options.apiKey);
+      return [200, await client.listOpenDeposits()];
+    }
+    if (resource !== "disputes" || segments.length > 3) {
+      throw new HttpError(404, "Not found");
+    }
+
+    if (req.method === "GET" && !id) {
+      await authorize(req, options.apiKey);
+      const status = url.searchParams.get("status") ?? undefined;
+      if (status && !DISPUTE_STATUSES.includes(status as ArbiterDisputeStatus)) {
+        throw new HttpError(400, `Unknown dispute status ${status}`);
+      }
+      return [200, await client.listDisputes(status as ArbiterDisputeStatus | undefined)];
+    }
+    if (req.method === "GET" && !action) {
+      await authorize(req, options.apiKey);
+      const dispute = await client.getDispute(id);
+      if (!dispute) {
+        throw new HttpError(404, `No dispute ${id}`);
+      }
+      return [200, dispute];
+    }
+    if (req.method !== "POST") {
+      throw new HttpError(405, "Method not allowed");
+    }
+
+    const body = await readJsonBody(req, maxBodyBytes);
+    if (!id) {
+      const {
+        request,
+        signature,
+        evidenceHashes = [],
+      } = body as Partial<SignedRefundRequest> & {
+        evidenceHashes?: unknown[];
+      };
+      if (!isRefundRequest(request) || !isHex(signature) || !Array.isArray(evidenceHashes)) {
+        throw new HttpError(400, "Expected { request, signature, evidenceHashes? }");
+      }
+      // The signature covers the request's own evidenceHash only: further evidence is added
+      // with the API key, or signed one hash at a time through the evidence route
+      if (evidenceHashes.length > 0) {
+        await authorize(req, options.apiKey);
+      }
+      return [201, await client.submitDispute({ request, signature }, evidenceHashes.map(toHash))];
+    }
+    if (action === "evidence") {
+      const { evidenceHash, signature } = body as { evidenceHash?: unknown; signature?: unknown };
+      // Evidence is signed by the dispute's user, or sent with the API key
+      if (signature !== undefined) {
+        if (!isHex(signature)) {
+          throw new HttpError(400, "Expected { evidenceHash, signature? }");
+        }
+        return [200, await client.addSignedEvidence(id, toHash(evidenceHash), signature)];
+      }
+      await authorize(req, options.apiKey);
+      return [200, await client.addEvidence(id, toHash(evidenceHash))];
+    }
+
+    await authorize(req, options.apiKey);
+    if (action === "decision") {
+      const { outcome, note, execute } = body as {
+        outcome?: unknown;
+        note?: unknown;
+        execute?: unknown;
+      };
+      if (
+        (outcome !== "refund" && outcome !== "release") ||
+        (note !== undefined && typeof note !== "string")
+      ) {
+        throw new HttpError(400, 'Expected { outcome: "refund" | "release", note?, execute? }');
+      }
+      const decided = await client.decide(id, outcome, note);
+      return [200, execute === true ? await client.execute(id) : decided];
+    }
+    if (action === "execute") {
+      return [200, await client.execute(id)];
+    }
+    throw new HttpError(404, "Not found");
+  };
+
+  return async (req, res) => {
+    let status: number;
+    let payload: unknown;
+    try {
+      [status, payload] = await route(req);
+    } catch (error) {
+      [status, payload] = toErrorResponse(error);
+    }
+
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(
+      JSON.stringify(payload, (_, value) => (typeof value === "bigint" ? value.toString() : value)),
+    );
+  };
+}
+
+/**
+ * Checks the request's bearer token against the API key in constant time.
+ *
+ * @param req - The request
+ * @param apiKey - The configured API key
+ */
+async function authorize(req: IncomingMessage, apiKey: string | undefined): Promise<void> {
+  if (!apiKey) {
+    throw new HttpError(403, "This endpoint is disabled: no API key configured");
+  }
+
+  // Hashing gives equal-length inputs, so timingSafeEqual does not leak the key's length
+  const { createHash, timingSafeEqual } = await import("node:crypto");
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  const authorization = req.headers.authorization ?? "";
+  if (!timingSafeEqual(digest(authorization), digest(`Bearer ${apiKey}`))) {
+    throw new HttpError(401, "Invalid or missing API key");
+  }
+}
+
+/**
+ * Decodes a URL-encoded path segment.
+ *
+ * @param segment - The encoded segment
+ * @returns The decoded segment
+ */
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment ${segment}`);
+  }
+}
+
+/**
+ * Reads and parses a JSON request body.
+ *
+ * @param req - The request
+ * @param maxBodyBytes - Largest accepted body in bytes
+ * @returns The parsed body (an empty object when there is none)
+ */
+async function readJsonBody(req: IncomingMessage, maxBodyBytes: number): Promise<object> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Uint8Array).length;
+    if (size > maxBodyBytes) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk as Uint8Array);
+  }
+  if (size === 0) {
+    return {};
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    if (typeof body !== "object" || body === null) {
+      throw new Error("not an object");
+    }
+    return body;
+  } catch {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+}
+
+/**
+ * Checks that a submitted value has the shape of a refund request.
+ *
+ * @param value - The submitted value
+ * @returns True if every field has its expected type
+ */
+function isRefundRequest(value: unknown): value is RefundRequest {
+  const request = value as Partial<RefundRequest> | undefined;
+  return (
+    typeof request === "object" &&
+    request !== null &&
+    typeof request.network === "string" &&
+    isAddress(request.escrow ?? "") &&
+    isAddress(request.user ?? "") &&
+    isAddress(request.merchantPayout ?? "") &&
+    /^\d+$/.test(request.depositNonce ?? "") &&
+    /^\d+$/.test(request.amount ?? "") &&
+    typeof request.reason === "string" &&
+    isHex(request.evidenceHash) &&
+    request.evidenceHash.length === 66 &&
+    Number.isSafeInteger(request.requestedAt)
+  );
+}
+
+/**
+ * Validates an evidence hash.
+ *
+ * @param value - The submitted value
+ * @returns The 32-byte hash
+ */
+function toHash(value: unknown): `0x${string}` {
+  if (!isHex(value) || value.length !== 66) {
+    throw new HttpError(400, "Evidence hashes must be 32-byte hex strings");
+  }
+  return value;
+}
+
+/**
+ * Maps an error to an HTTP status and JSON error body.
+ *
+ * @param error - The error
+ * @returns The status and body
+ */
+function toErrorResponse(error: unknown): [number, unknown] {
+  if (error instanceof HttpError) {
+    return [error.status, { error: error.message }];
+  }
+  if (error instanceof ArbiterDisputeError) {
+    return [DISPUTE_ERROR_STATUS[error.code], { error: error.message, code: error.code }];
+  }
+  if (error instanceof EscrowCallError) {
+    return [502, { error: error.message, revert: error.revert?.reason }];
+  }
+  return [500, { error: "Internal error" }];
+}
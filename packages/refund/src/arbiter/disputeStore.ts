@@ -0,0 +1,233 @@
+/**
+ * Dispute storage for arbiters
+ *
+ * An arbiter records each dispute it accepts, the evidence submitted for it and its
+ * decision, so decisions survive restarts and can be audited after they are executed.
+ */
+
+import type { SignedRefundRequest } from "../escrow/refundRequest";
+
+/**
+ * State of a dispute
+ *
+ * - open: accepted, awaiting a decision
+ * - decided: a decision was recorded but not yet executed on-chain
+ * - executed: the decision was carried out with escrow.refund() or escrow.release()
+ */
+export type ArbiterDisputeStatus = "open" | "decided" | "executed";
+
+/**
+ * An arbiter's decision: refund the buyer or release the funds to the merchant
+ */
+export type ArbiterDecisionOutcome = "refund" | "release";
+
+/**
+ * A recorded arbiter decision
+ */
+export interface ArbiterDecision {
+  outcome: ArbiterDecisionOutcome;
+  /** The arbiter's reasoning */
+  note?: string;
+  /** Unix time (ms) the decision was recorded */
+  decidedAt: number;
+  /** The escrow transaction that executes the decision, recorded once it is broadcast */
+  transaction?: `0x${string}`;
+  /** Unix time (ms) the decision was executed */
+  executedAt?: number;
+}
+
+/**
+ * A dispute over one escrow deposit
+ */
+export interface ArbiterDispute {
+  /** Dispute id from `getArbiterDisputeId()` */
+  id: string;
+  /** The buyer's signed refund request */
+  request: SignedRefundRequest;
+  /** keccak256 hashes of the evidence submitted for the dispute */
+  evidenceHashes: `0x${string}`[];
+  status: ArbiterDisputeStatus;
+  decision?: ArbiterDecision;
+  /** Unix time (ms) the dispute was submitted */
+  submittedAt: number;
+  /** Unix time (ms) the dispute was last written */
+  updatedAt: number;
+}
+
+/**
+ * Storage for an arbiter's disputes (e.g. a file or a database table)
+ */
+export interface ArbiterDisputeStore {
+  /**
+   * Gets a dispute.
+   *
+   * @param id - The dispute id
+   * @returns The dispute, or undefined if none exists
+   */
+  get(id: string): Promise<ArbiterDispute | undefined>;
+
+  /**
+   * Writes a dispute, replacing any existing dispute with its id.
+   *
+   * @param dispute - The dispute to write
+   */
+  put(dispute: ArbiterDispute): Promise<void>;
+
+  /**
+   * Lists every dispute.
+   *
+   * @returns All disputes
+   */
+  list(): Promise<ArbiterDispute[]>;
+}
+
+/**
+ * Builds the dispute id for an escrow deposit. A deposit has at most one dispute.
+ *
+ * @param network - CAIP-2 network id of the escrow
+ * @param escrow - The escrow contract
+ * @param user - The buyer the deposit is recorded for
+ * @param depositNonce - The escrow deposit nonce
+ * @returns The dispute id
+ */
+export function getArbiterDisputeId(
+  network: string,
+  escrow: string,
+  user: string,
+  depositNonce: string | bigint,
+): string {
+  return `${network}:${escrow.toLowerCase()}:${user.toLowerCase()}:${depositNonce.toString()}`;
+}
+
+/**
+ * In-memory dispute store. Loses disputes on restart.
+ */
+export class InMemoryArbiterDisputeStore implements ArbiterDisputeStore {
+  private readonly disputes = new Map<string, ArbiterDispute>();
+
+  /**
+   * Gets a dispute.
+   *
+   * @param id - The dispute id
+   * @returns The dispute, or undefined if none exists
+   */
+  async get(id: string): Promise<ArbiterDispute | undefined> {
+    return this.disputes.get(id);
+  }
+
+  /**
+   * Writes a dispute.
+   *
+   * @param dispute - The dispute to write
+   */
+  async put(dispute: ArbiterDispute): Promise<void> {
+    this.disputes.set(dispute.id, dispute);
+  }
+
+  /**
+   * Lists every dispute.
+   *
+   * @returns All disputes
+   */
+  async list(): Promise<ArbiterDispute[]> {
+    return [...this.disputes.values()];
+  }
+}
+
+/**
+ * JSON file dispute store (Node.js only). Survives restarts.
+ *
+ * Writes are serialized within the process and replace the file atomically (write + rename).
+ *
+ * @example
+ * ```typescript
+ * const arbiter = new ArbiterClient({
+ *   ...config,
+ *   store: new FileArbiterDisputeStore("./disputes.json"),
+ * });
+ * ```
+ */
+export class FileArbiterDisputeStore implements ArbiterDisputeStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Creates a FileArbiterDisputeStore.
+   *
+   * @param filePath - Path of the JSON file (created on first write)
+   */
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Gets a dispute.
+   *
+   * @param id - The dispute id
+   * @returns The dispute, or undefined if none exists
+   */
+  async get(id: string): Promise<ArbiterDispute | undefined> {
+    return this.enqueue(async () => (await this.load())[id]);
+  }
+
+  /**
+   * Writes a dispute.
+   *
+   * @param dispute - The dispute to write
+   */
+  async put(dispute: ArbiterDispute): Promise<void> {
+    return this.enqueue(async () => {
+      const disputes = await this.load();
+      disputes[dispute.id] = dispute;
+      await this.save(disputes);
+    });
+  }
+
+  /**
+   * Lists every dispute.
+   *
+   * @returns All disputes
+   */
+  async list(): Promise<ArbiterDispute[]> {
+    return this.enqueue(async () => Object.values(await this.load()));
+  }
+
+  /**
+   * Runs an operation after every previously queued one.
+   *
+   * @param operation - The operation to run
+   * @returns The operation's result
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Reads all disputes from the file.
+   *
+   * @returns Disputes by id (empty if the file does not exist yet)
+   */
+  private async load(): Promise<Record<string, ArbiterDispute>> {
+    // Loaded lazily so the package stays importable outside Node.js
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the file with the given disputes.
+   *
+   * @param disputes - Disputes by id
+   */
+  private async save(disputes: Record<string, ArbiterDispute>): Promise<void> {
+    const { rename, writeFile } = await import("node:fs/promises");
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(disputes, null, 2));
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Buyer-side refund client
+ *
+ * After paying through a DepositRelay, a buyer (wallet or agent) can look up the escrow
+ * deposit, find the merchant's arbiter and sign a refund request the merchant or arbiter
+ * can act on, even when the merchant is uncooperative.
+ */
+
+import type { ClientEvmSigner } from "@x402/evm";
+import { getAddress, keccak256, toBytes, zeroHash, type PublicClient } from "viem";
+import { ESCROW_ABI } from "../abis";
+import type { RefundReceipt } from "../types";
+import {
+  listEscrowDeposits,
+  readEscrowDeposit,
+  resolveFromBlock,
+  type EscrowDeposit,
+  type EscrowDepositFilter,
+} from "../escrow/escrowContract";
+import { defaultRefundNetworkRegistry, type RefundNetworkRegistry } from "../networks";
+import {
+  signRefundEvidence,
+  signRefundRequest,
+  type SignedRefundRequest,
+} from "../escrow/refundRequest";
+
+/**
+ * Configuration for a BuyerRefundClient
+ */
+export interface BuyerRefundClientConfig {
+  /** viem public client for the escrow's network */
+  publicClient: PublicClient;
+  /** CAIP-2 network id of the escrow (eip155:<chainId>) */
+  network: string;
+  /** The buyer's signer, for refund requests (the same signer that paid) */
+  signer?: ClientEvmSigner;
+  /** First block searched for deposits (defaults to the registry's `escrowDeploymentBlock`) */
+  fromBlock?: bigint;
+  /** Network registry (defaults to `defaultRefundNetworkRegistry`) */
+  registry?: RefundNetworkRegistry;
+}
+
+/**
+ * Identifies an escrow deposit: a refund receipt from the SettleResponse, or its escrow,
+ * user and deposit nonce
+ */
+export type RefundDepositReference =
+  RefundReceipt | { escrow: string; user: string; depositNonce: string | bigint };
+
+/**
+ * An escrow deposit as seen by the buyer
+ *
+ * - held: the principal is still in escrow (a refund can be requested)
+ * - closed: the deposit was released or refunded
+ * - not_found: no deposit is recorded under that nonce
+ */
+export type BuyerDepositStatus =
+  | { status: "held" | "closed"; deposit: EscrowDeposit; arbiter: `0x${string}` }
+  | { status: "not_found" };
+
+/**
+ * Options for a refund request
+ */
+export interface RefundRequestOptions {
+  /** Human-readable reason for the refund */
+  reason: string;
+  /** Evidence (e.g. a JSON document); its keccak256 is signed as `evidenceHash` */
+  evidence?: string;
+  /** Refund amount in token base units (defaults to the full principal) */
+  amount?: string | bigint;
+}
+
+/**
+ * Refund client for a buyer.
+ *
+ * @example
+ * ```typescript
+ * const buyer = new BuyerRefundClient({ publicClient, network: "eip155:84532", signer });
+ *
+ * // The refund receipt comes from the SettleResponse (PAYMENT-RESPONSE header)
+ * const receipt = settleResponse.extensions.refund.receipt;
+ * const status = await buyer.getDeposit(receipt);
+ * if (status.status === "held") {
+ *   const signed = await buyer.createRefundRequest(receipt, { reason: "Not delivered" });
+ *   // Send `signed` to the merchant or to status.arbiter
+ * }
+ * ```
+ */
+export class BuyerRefundClient {
+  readonly network: string;
+  private readonly publicClient: PublicClient;
+  private readonly signer?: ClientEvmSigner;
+  private readonly fromBlock?: bigint;
+
+  /**
+   * Creates a BuyerRefundClient.
+   *
+   * @param config - viem public client, network, buyer signer and first block to search
+   */
+  constructor(config: BuyerRefundClientConfig) {
+    this.publicClient = config.publicClient;
+    this.network = config.network;
+    this.signer = config.signer;
+    this.fromBlock =
+      config.fromBlock ??
+      (config.registry ?? defaultRefundNetworkRegistry).getEscrowDeploymentBlock(config.network);
+  }
+
+  /**
+   * Reads a deposit and the arbiter of its merchant.
+   *
+   * @param reference - A refund receipt, or the escrow, user and deposit nonce
+   * @returns The deposit status
+   */
+  async getDeposit(reference: RefundDepositReference): Promise<BuyerDepositStatus> {
+    const deposit = await readEscrowDeposit(
+      this.publicClient,
+      reference.escrow,
+      getReferenceUser(reference),
+      BigInt(reference.depositNonce),
+    );
+    if (!deposit) {
+      return { status: "not_found" };
+    }
+
+    const arbiter = await this.getArbiter(deposit.escrow, deposit.merchantPayout);
+    return { status: deposit.open ? "held" : "closed", deposit, arbiter };
+  }
+
+  /**
+   * Lists the buyer's deposits in an escrow from its DepositNoted events.
+   *
+   * @param escrow - The escrow contract
+   * @param filter - Merchant and block range (from the configured `fromBlock` by default);
+   * `user` defaults to the signer's address
+   * @returns The deposits with their current state, oldest first
+   * @throws Error if no user or no `fromBlock` is given or configured
+   */
+  async listDeposits(
+    escrow: string,
+    filter: Partial<EscrowDepositFilter> = {},
+  ): Promise<EscrowDeposit[]> {
+    const user = filter.user ?? this.signer?.address;
+    if (!user) {
+      throw new Error("listDeposits needs a user or a signer");
+    }
+    return listEscrowDeposits(this.publicClient, escrow, {
+      ...filter,
+      fromBlock: resolveFromBlock(filter.fromBlock, this.fromBlock),
+      user,
+    });
+  }
+
+  /**
+   * Gets the arbiter that resolves a merchant's disputes.
+   *
+   * @param escrow - The escrow contract
+   * @param merchantPayout - The merchant payout address
+   * @returns The arbiter address (zero address if the merchant is not registered)
+   */
+  async getArbiter(escrow: string, merchantPayout: string): Promise<`0x${string}`> {
+    return this.publicClient.readContract({
+      address: getAddress(escrow),
+      abi: ESCROW_ABI,
+      functionName: "getArbiter",
+      args: [getAddress(merchantPayout)],
+    });
+  }
+
+  /**
+   * Signs a refund request for a deposit still held in escrow.
+   *
+   * @param reference - A refund receipt, or the escrow, user and deposit nonce
+   * @param options - Reason, evidence and amount
+   * @returns The signed refund request, to send to the merchant or arbiter
+   * @throws Error if there is no signer, or the deposit is not held for the signer
+   */
+  async createRefundRequest(
+    reference: RefundDepositReference,
+    options: RefundRequestOptions,
+  ): Promise<SignedRefundRequest> {
+    if (!this.signer) {
+      throw new Error("createRefundRequest needs a signer");
+    }
+
+    const status = await this.getDeposit(reference);
+    if (status.status !== "held") {
+      throw new Error(
+        `Deposit ${reference.depositNonce} in escrow ${reference.escrow} is ${status.status}`,
+      );
+    }
+
+    const { deposit } = status;
+    return signRefundRequest(this.signer, {
+      network: this.network,
+      escrow: deposit.escrow,
+      user: deposit.user,
+      depositNonce: deposit.depositNonce.toString(),
+      merchantPayout: deposit.merchantPayout,
+      amount: (options.amount ?? deposit.principal).toString(),
+      reason: options.reason,
+      evidenceHash: options.evidence ? keccak256(toBytes(options.evidence)) : zeroHash,
+      requestedAt: Math.floor(Date.now() / 1000),
+    });
+  }
+
+  /**
+   * Signs further evidence for a refund request, for `POST /disputes/:id/evidence` on the
+   * arbiter's service.
+   *
+   * @param signed - The signed refund request the dispute was opened with
+   * @param evidence - The evidence (e.g. a JSON document)
+   * @returns The evidence's keccak256 `evidenceHash` and the signature over it
+   * @throws Error if there is no signer, or the request is not the signer's
+   */
+  async signEvidence(
+    signed: SignedRefundRequest,
+    evidence: string,
+  ): Promise<{ evidenceHash: `0x${string}`; signature: `0x${string}` }> {
+    if (!this.signer) {
+      throw new Error("signEvidence needs a signer");
+    }
+
+    const evidenceHash = keccak256(toBytes(evidence));
+    const signature = await signRefundEvidence(this.signer, signed.request, evidenceHash);
+    return { evidenceHash, signature };
+  }
+}
+
+/**
+ * Gets the user a referenced deposit is recorded for.
+ *
+ * @param reference - A refund receipt, or the escrow, user and deposit nonce
+ * @returns The user address
+ */
+function getReferenceUser(reference: RefundDepositReference): string {
+  return "payer" in reference ? reference.payer : reference.user;
+}
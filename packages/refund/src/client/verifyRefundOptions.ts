@@ -0,0 +1,389 @@
+/**
+ * Client-side integrity check of refundable payment options
+ *
+ * A refundable option's `payTo` must be the DepositRelay the factory deploys for the
+ * merchant it names, or the payment never reaches escrow. Nothing in a 402 response proves
+ * that, so a wallet recomputes each relay address locally from the published refund info
+ * before signing an ERC-3009 authorization to it.
+ */
+
+import type { x402Client } from "@x402/core/client";
+import type { PaymentRequired, PaymentRequirements } from "@x402/core/types";
+import { isAddress } from "viem";
+import { REFUND_EXTENSION_KEY, getMerchantPayout, type RefundExtension } from "../types";
+import {
+  defaultRefundNetworkRegistry,
+  includesAddress,
+  type RefundNetworkRegistry,
+} from "../networks";
+import { computeRelayAddress } from "../server/computeRelayAddress";
+import type { RefundTrustPolicy } from "../facilitator/trustPolicy";
+
+/**
+ * Stable machine codes for refund integrity issues
+ *
+ * - RELAY_ADDRESS_MISMATCH: the address is not the relay of its merchant payout
+ * - UNTRUSTED_FACTORY: the factory is not allowed by the trust policy
+ * - UNKNOWN_CREATEX: no CreateX address is known for the network, so nothing was checked
+ * - INVALID_REFUND_INFO: the factory or merchant payout is not an address
+ * - UNLISTED_PAY_TO: the option is on a network the refund extension covers, but its
+ *   `payTo` is not a published relay
+ */
+export type RefundIntegrityIssueCode =
+  | "RELAY_ADDRESS_MISMATCH"
+  | "UNTRUSTED_FACTORY"
+  | "UNKNOWN_CREATEX"
+  | "INVALID_REFUND_INFO"
+  | "UNLISTED_PAY_TO";
+
+/**
+ * A problem found while checking a relay address
+ */
+export interface RefundIntegrityIssue {
+  code: RefundIntegrityIssueCode;
+  message: string;
+}
+
+/**
+ * Outcome of checking one relay address against its published merchant payout
+ *
+ * - verified: the address is the relay the factory deploys for the merchant payout
+ * - mismatch: the address is not that relay, or the factory is untrusted (do not sign)
+ * - unverifiable: the relay could not be recomputed (unknown CreateX or malformed info)
+ */
+export type RefundIntegrityStatus = "verified" | "mismatch" | "unverifiable";
+
+/**
+ * A `merchantPayouts` entry (relay address -> merchant payout) and its check
+ */
+export interface RefundPayoutEntryCheck {
+  network: string;
+  /** The published relay address (the `merchantPayouts` key) */
+  proxyAddress: string;
+  merchantPayout: string;
+  factoryAddress: string;
+  status: RefundIntegrityStatus;
+  /** The relay address recomputed from CreateX, factory and merchant payout */
+  expectedProxyAddress?: string;
+  issues: RefundIntegrityIssue[];
+}
+
+/**
+ * A payment option and its check. `index` is the option's position in `accepts` (-1 for
+ * an option that is not one of them).
+ *
+ * - not_refundable: no refund extension covers the option's network (a plain payment)
+ * - unlisted: the refund extension covers the option's network, but its `payTo` is not in
+ *   `merchantPayouts`. The payment does not go to escrow, so do not present it as refundable.
+ * - otherwise the check of its `merchantPayouts` entry
+ */
+export type RefundOptionCheck =
+  | { index: number; option: PaymentRequirements; status: "not_refundable" }
+  | {
+      index: number;
+      option: PaymentRequirements;
+      status: "unlisted";
+      network: string;
+      issues: RefundIntegrityIssue[];
+    }
+  | ({ index: number; option: PaymentRequirements } & RefundPayoutEntryCheck);
+
+/**
+ * Result of checking a 402 response's refundable options
+ */
+export interface RefundIntegrityReport {
+  /**
+   * False if any option on a network the refund extension covers, or any
+   * `merchantPayouts` entry, is not verified
+   */
+  valid: boolean;
+  /** One check per entry of `accepts`, in order */
+  options: RefundOptionCheck[];
+  /** Every published `merchantPayouts` entry, including ones no option uses */
+  entries: RefundPayoutEntryCheck[];
+}
+
+/**
+ * Options for the refund integrity check
+ */
+export interface RefundIntegrityOptions {
+  /** Network registry for CreateX addresses (defaults to `defaultRefundNetworkRegistry`) */
+  registry?: RefundNetworkRegistry;
+  /** CreateX address, or a map of network -> CreateX address (overrides the registry) */
+  createxAddress?: string | Record<string, string>;
+  /** Factories the wallet accepts per network. Without one, any factory is accepted. */
+  trustPolicy?: RefundTrustPolicy;
+}
+
+/**
+ * Checks every refundable option of a 402 response against its published refund info.
+ *
+ * For each option whose `payTo` appears in the refund extension's `merchantPayouts`, and
+ * for every `merchantPayouts` entry, recomputes `computeRelayAddress(createx, factory,
+ * merchantPayout)` and compares it with the published relay address. Options on a network
+ * the extension covers whose `payTo` is not listed are reported as `unlisted`. The check is
+ * local: no RPC calls are made.
+ *
+ * It proves that `payTo` is the relay the named factory deploys for the merchant. It does
+ * not prove the factory is genuine, so pass a `trustPolicy` listing the factories you accept.
+ *
+ * @example
+ * ```typescript
+ * const report = verifyRefundableOptions(paymentRequired);
+ * if (!report.valid) {
+ *   // Warn the user, or drop the failing options before choosing one
+ *   const safe = report.options.filter(check => check.status !== "mismatch");
+ * }
+ * ```
+ *
+ * @param paymentRequired - The 402 response (PaymentRequired) from the server
+ * @param options - Network registry, CreateX addresses and trust policy
+ * @returns The report for each option and `merchantPayouts` entry
+ */
+export function verifyRefundableOptions(
+  paymentRequired: PaymentRequired,
+  options: RefundIntegrityOptions = {},
+): RefundIntegrityReport {
+  const extension = paymentRequired.extensions?.[REFUND_EXTENSION_KEY] as
+    | RefundExtension
+    | undefined;
+
+  const optionChecks = paymentRequired.accepts.map((option, index) =>
+    checkOption(extension, option, index, options),
+  );
+
+  const entries: RefundPayoutEntryCheck[] = [];
+  if (extension?.info?.networks) {
+    for (const [network, info] of Object.entries(extension.info.networks)) {
+      for (const [proxyAddress, merchantPayout] of Object.entries(info.merchantPayouts ?? {})) {
+        entries.push(
+          checkPayoutEntry(network, info.factoryAddress, proxyAddress, merchantPayout, options),
+        );
+      }
+    }
+  } else if (extension?.info) {
+    // Single-network info: check each entry on the networks the options use
+    const networks = [...new Set(paymentRequired.accepts.map(option => option.network))];
+    for (const [proxyAddress, merchantPayout] of Object.entries(
+      extension.info.merchantPayouts ?? {},
+    )) {
+      const checks = networks.map(network =>
+        checkPayoutEntry(
+          network,
+          extension.info.factoryAddress,
+          proxyAddress,
+          merchantPayout,
+          options,
+        ),
+      );
+      const check = checks.find(check => check.status === "verified") ?? checks[0];
+      if (check) {
+        entries.push(check);
+      }
+    }
+  }
+
+  const valid =
+    optionChecks.every(check => check.status === "verified" || check.status === "not_refundable") &&
+    entries.every(check => check.status === "verified");
+  return { valid, options: optionChecks, entries };
+}
+
+/**
+ * Checks a single payment option (e.g. the one a wallet is about to sign for).
+ *
+ * @param paymentRequired - The 402 response (PaymentRequired) from the server
+ * @param requirements - The option to check
+ * @param options - Network registry, CreateX addresses and trust policy
+ * @returns The option's check (`unlisted` or `not_refundable` if its `payTo` is not a
+ * published relay)
+ */
+export function verifyRefundOption(
+  paymentRequired: PaymentRequired,
+  requirements: PaymentRequirements,
+  options: RefundIntegrityOptions = {},
+): RefundOptionCheck {
+  const extension = paymentRequired.extensions?.[REFUND_EXTENSION_KEY] as
+    | RefundExtension
+    | undefined;
+  return checkOption(
+    extension,
+    requirements,
+    paymentRequired.accepts.indexOf(requirements),
+    options,
+  );
+}
+
+/**
+ * Registers a check on an x402 client that refuses to sign for a refundable option whose
+ * `payTo` is not the relay of its merchant payout.
+ *
+ * Mismatches always abort payment creation. Options that cannot be checked (no CreateX
+ * address for the network) abort too unless `allowUnverifiable` is set. Unlisted options
+ * (a refund extension is present but `payTo` is not a published relay) abort unless
+ * `allowUnlisted` is set, since the payment would not reach escrow.
+ *
+ * @example
+ * ```typescript
+ * const client = new x402Client();
+ * registerExactEvmScheme(client, { signer });
+ * registerRefundIntegrityCheck(client, {
+ *   onCheck: check => check.status !== "verified" && console.warn("Refund check", check),
+ * });
+ * ```
+ *
+ * @param client - The x402 client
+ * @param options - Integrity options, whether to allow unverifiable options, and a callback
+ * @returns The client, for chaining
+ */
+export function registerRefundIntegrityCheck(
+  client: x402Client,
+  options: RefundIntegrityOptions & {
+    /** Sign for options whose relay could not be recomputed (default false) */
+    allowUnverifiable?: boolean;
+    /** Sign for plain options on a network the refund extension covers (default false) */
+    allowUnlisted?: boolean;
+    /** Called with every refundable option's check, e.g. to warn the user */
+    onCheck?: (check: RefundOptionCheck) => void;
+  } = {},
+): x402Client {
+  return client.onBeforePaymentCreation(async ({ paymentRequired, selectedRequirements }) => {
+    const check = verifyRefundOption(paymentRequired, selectedRequirements, options);
+    if (check.status === "not_refundable") {
+      return;
+    }
+    options.onCheck?.(check);
+
+    if (
+      check.status === "mismatch" ||
+      (check.status === "unverifiable" && !options.allowUnverifiable) ||
+      (check.status === "unlisted" && !options.allowUnlisted)
+    ) {
+      const [issue] = check.issues;
+      return { abort: true, reason: `refund_${issue.code.toLowerCase()}: ${issue.message}` };
+    }
+  });
+}
+
+/**
+ * Checks a payment option against the refund extension.
+ *
+ * @param extension - The refund extension from the 402 response, if any
+ * @param option - The payment option
+ * @param index - The option's index in `accepts`
+ * @param options - Network registry, CreateX addresses and trust policy
+ * @returns The option's check
+ */
+function checkOption(
+  extension: RefundExtension | undefined,
+  option: PaymentRequirements,
+  index: number,
+  options: RefundIntegrityOptions,
+): RefundOptionCheck {
+  // Same lookup as the facilitator: the option's network first, then the top-level info
+  const info = extension?.info;
+  const networkInfo = info?.networks?.[option.network];
+  const factoryAddress = networkInfo?.factoryAddress || info?.factoryAddress;
+  const merchantPayouts = networkInfo?.merchantPayouts || info?.merchantPayouts || {};
+
+  const merchantPayout = option.payTo
+    ? getMerchantPayout(merchantPayouts, option.payTo)
+    : undefined;
+  if (!factoryAddress || !merchantPayout) {
+    // Single-network info covers every option; per-network info only its own networks
+    const covered = info && (info.networks ? networkInfo !== undefined : !!factoryAddress);
+    if (!covered) {
+      return { index, option, status: "not_refundable" };
+    }
+    return {
+      index,
+      option,
+      status: "unlisted",
+      network: option.network,
+      issues: [
+        {
+          code: "UNLISTED_PAY_TO",
+          message: `${option.payTo} is not a published refund relay on ${option.network}`,
+        },
+      ],
+    };
+  }
+  return {
+    index,
+    option,
+    ...checkPayoutEntry(option.network, factoryAddress, option.payTo, merchantPayout, options),
+  };
+}
+
+/**
+ * Recomputes the relay address of a merchant payout and compares it with the published one.
+ *
+ * @param network - The CAIP-2 network id
+ * @param factoryAddress - The factory from the refund extension
+ * @param proxyAddress - The published relay address
+ * @param merchantPayout - The published merchant payout
+ * @param options - Network registry, CreateX addresses and trust policy
+ * @returns The entry's check
+ */
+function checkPayoutEntry(
+  network: string,
+  factoryAddress: string,
+  proxyAddress: string,
+  merchantPayout: string,
+  options: RefundIntegrityOptions,
+): RefundPayoutEntryCheck {
+  const entry = { network, proxyAddress, merchantPayout, factoryAddress };
+
+  if (!isAddress(factoryAddress) || !isAddress(proxyAddress) || !isAddress(merchantPayout)) {
+    return {
+      ...entry,
+      status: "unverifiable",
+      issues: [
+        {
+          code: "INVALID_REFUND_INFO",
+          message: `Malformed refund info for ${proxyAddress} on ${network}`,
+        },
+      ],
+    };
+  }
+
+  const { createxAddress, trustPolicy } = options;
+  const registry = options.registry ?? defaultRefundNetworkRegistry;
+  const createx =
+    (typeof createxAddress === "string" ? createxAddress : createxAddress?.[network]) ??
+    registry.getCreateXAddress(network);
+  if (!createx) {
+    return {
+      ...entry,
+      status: "unverifiable",
+      issues: [
+        {
+          code: "UNKNOWN_CREATEX",
+          message: `No CreateX address known for ${network}; relay ${proxyAddress} was not checked`,
+        },
+      ],
+    };
+  }
+
+  const expectedProxyAddress = computeRelayAddress(createx, factoryAddress, merchantPayout);
+  const issues: RefundIntegrityIssue[] = [];
+  if (expectedProxyAddress.toLowerCase() !== proxyAddress.toLowerCase()) {
+    issues.push({
+      code: "RELAY_ADDRESS_MISMATCH",
+      message: `${proxyAddress} is not the relay of merchant ${merchantPayout} (expected ${expectedProxyAddress})`,
+    });
+  }
+  if (trustPolicy && !includesAddress(trustPolicy[network]?.factories, factoryAddress)) {
+    issues.push({
+      code: "UNTRUSTED_FACTORY",
+      message: `Factory ${factoryAddress} is not trusted on ${network}`,
+    });
+  }
+
+  return {
+    ...entry,
+    status: issues.length > 0 ? "mismatch" : "verified",
+    expectedProxyAddress,
+    issues,
+  };
+}
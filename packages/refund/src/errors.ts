@@ -0,0 +1,671 @@
+/**
+ * Error types for the Refund Helper Extension
+ *
+ * Every refund settlement failure is a RefundSettlementError with a stable machine
+ * code and structured context, so callers can branch on `code` instead of parsing
+ * messages. `errorReason` is the value to put in `SettleResponse.errorReason`.
+ */
+
+import type { Network, SettleResponse, VerifyResponse } from "@x402/core/types";
+import type { DecodedRefundRevert } from "./facilitator/decodeRevert";
+
+/**
+ * Stable machine codes for refund settlement failures
+ */
+export type RefundSettlementErrorCode =
+  | "FACTORY_NOT_FOUND"
+  | "UNTRUSTED_FACTORY"
+  | "UNTRUSTED_ESCROW"
+  | "UNSUPPORTED_TOKEN"
+  | "UNKNOWN_ESCROW"
+  | "RELAY_ADDRESS_MISMATCH"
+  | "RELAY_DEPLOY_FAILED"
+  | "RELAY_DEPLOY_SIMULATION_FAILED"
+  | "INSUFFICIENT_GAS_FUNDS"
+  | "MERCHANT_NOT_REGISTERED"
+  | "TOKEN_MISMATCH"
+  | "ESCROW_MISMATCH"
+  | "NONCE_USED"
+  | "AUTHORIZATION_EXPIRED"
+  | "RPC_ERROR"
+  | "DEPOSIT_FAILED"
+  | "DEPOSIT_SIMULATION_FAILED"
+  | "DEPOSIT_UNCONFIRMED"
+  | "DEPOSIT_REORGED"
+  | "SETTLEMENT_IN_PROGRESS";
+
+/**
+ * Base class for refund settlement failures
+ */
+export class RefundSettlementError extends Error {
+  readonly code: RefundSettlementErrorCode;
+
+  /**
+   * Creates a RefundSettlementError.
+   *
+   * @param code - The stable machine code
+   * @param message - Human-readable detail
+   * @param options - Optional underlying cause
+   * @param options.cause - The error that caused this failure
+   */
+  constructor(code: RefundSettlementErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = "RefundSettlementError";
+    this.code = code;
+    if (options?.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  /**
+   * The x402 `SettleResponse.errorReason` for this failure (e.g. "refund_merchant_not_registered")
+   *
+   * @returns The snake_case error reason
+   */
+  get errorReason(): string {
+    return `refund_${this.code.toLowerCase()}`;
+  }
+
+  /**
+   * Builds a failed SettleResponse for this error.
+   *
+   * @param network - The payment network
+   * @param payer - The payer address, if known
+   * @returns A SettleResponse with success false and errorReason set
+   */
+  toSettleResponse(network: Network, payer?: string): SettleResponse {
+    return { success: false, errorReason: this.errorReason, transaction: "", network, payer };
+  }
+
+  /**
+   * Builds a failed VerifyResponse for this error.
+   *
+   * @param payer - The payer address, if known
+   * @returns A VerifyResponse with isValid false and invalidReason set
+   */
+  toVerifyResponse(payer?: string): VerifyResponse {
+    return { isValid: false, invalidReason: this.errorReason, payer };
+  }
+}
+
+/**
+ * No contract code at the factory address named in the refund extension
+ */
+export class FactoryNotFoundError extends RefundSettlementError {
+  readonly factoryAddress: string;
+
+  /**
+   * @param factoryAddress - The factory address from the refund extension
+   */
+  constructor(factoryAddress: string) {
+    super(
+      "FACTORY_NOT_FOUND",
+      `Factory contract does not exist at ${factoryAddress}. Invalid refund extension.`,
+    );
+    this.name = "FactoryNotFoundError";
+    this.factoryAddress = factoryAddress;
+  }
+}
+
+/**
+ * A factory or escrow outside the facilitator's trust policy.
+ * Raised before any write transaction is sent.
+ */
+export class UntrustedRefundContractError extends RefundSettlementError {
+  readonly network: string;
+  readonly address: string;
+
+  /**
+   * @param code - UNTRUSTED_FACTORY or UNTRUSTED_ESCROW
+   * @param network - The network the contract was rejected on
+   * @param address - The rejected contract address
+   */
+  constructor(code: "UNTRUSTED_FACTORY" | "UNTRUSTED_ESCROW", network: string, address: string) {
+    const kind = code === "UNTRUSTED_FACTORY" ? "Factory" : "Escrow";
+    super(code, `${kind} ${address} is not trusted on ${network} by the facilitator trust policy`);
+    this.name = "UntrustedRefundContractError";
+    this.network = network;
+    this.address = address;
+  }
+}
+
+/**
+ * The refund extension's factory is not in the trust policy
+ */
+export class UntrustedFactoryError extends UntrustedRefundContractError {
+  /**
+   * @param network - The payment network
+   * @param factoryAddress - The rejected factory address
+   */
+  constructor(network: string, factoryAddress: string) {
+    super("UNTRUSTED_FACTORY", network, factoryAddress);
+    this.name = "UntrustedFactoryError";
+  }
+}
+
+/**
+ * The relay's escrow is not in the trust policy
+ */
+export class UntrustedEscrowError extends UntrustedRefundContractError {
+  /**
+   * @param network - The payment network
+   * @param escrowAddress - The rejected escrow address
+   */
+  constructor(network: string, escrowAddress: string) {
+    super("UNTRUSTED_ESCROW", network, escrowAddress);
+    this.name = "UntrustedEscrowError";
+  }
+}
+
+/**
+ * The payment asset is not a supported token in the network registry
+ */
+export class UnsupportedTokenError extends RefundSettlementError {
+  readonly network: string;
+  readonly tokenAddress: string;
+
+  /**
+   * @param network - The payment network
+   * @param tokenAddress - The payment asset
+   */
+  constructor(network: string, tokenAddress: string) {
+    super(
+      "UNSUPPORTED_TOKEN",
+      `Token ${tokenAddress} is not a supported refund token on ${network}. ` +
+        `Register it in the RefundNetworkRegistry to enable refund settlements for it.`,
+    );
+    this.name = "UnsupportedTokenError";
+    this.network = network;
+    this.tokenAddress = tokenAddress;
+  }
+}
+
+/**
+ * The relay's escrow is not a known escrow in the network registry
+ */
+export class UnknownEscrowError extends RefundSettlementError {
+  readonly network: string;
+  readonly escrowAddress: string;
+
+  /**
+   * @param network - The payment network
+   * @param escrowAddress - The escrow reported by the relay proxy
+   */
+  constructor(network: string, escrowAddress: string) {
+    super(
+      "UNKNOWN_ESCROW",
+      `Escrow ${escrowAddress} is not a known escrow on ${network}. ` +
+        `Register it in the RefundNetworkRegistry to enable refund settlements through it.`,
+    );
+    this.name = "UnknownEscrowError";
+    this.network = network;
+    this.escrowAddress = escrowAddress;
+  }
+}
+
+/**
+ * The factory computes a different relay address than the payment's payTo
+ */
+export class RelayAddressMismatchError extends RefundSettlementError {
+  readonly factoryAddress: string;
+  readonly expectedAddress: string;
+  readonly proxyAddress: string;
+
+  /**
+   * @param factoryAddress - The factory that computed the address
+   * @param expectedAddress - The relay address computed by the factory
+   * @param proxyAddress - The payment's payTo address
+   */
+  constructor(factoryAddress: string, expectedAddress: string, proxyAddress: string) {
+    super(
+      "RELAY_ADDRESS_MISMATCH",
+      `Factory computed ${expectedAddress} but payment pays ${proxyAddress}. ` +
+        `This may indicate a factory or CreateX address mismatch.`,
+    );
+    this.name = "RelayAddressMismatchError";
+    this.factoryAddress = factoryAddress;
+    this.expectedAddress = expectedAddress;
+    this.proxyAddress = proxyAddress;
+  }
+}
+
+/**
+ * Deploying the relay through the factory failed
+ */
+export class RelayDeployFailedError extends RefundSettlementError {
+  readonly factoryAddress: string;
+  readonly merchantPayout: string;
+  readonly transaction?: string;
+  readonly revert?: DecodedRefundRevert;
+
+  /**
+   * @param factoryAddress - The factory deploying the relay
+   * @param merchantPayout - The merchant the relay is deployed for
+   * @param message - Human-readable detail
+   * @param details - The deployment transaction hash and decoded revert, if any
+   * @param details.transaction - The deployment transaction hash
+   * @param details.revert - The decoded revert (error name and arguments)
+   * @param cause - The underlying error, if any
+   */
+  constructor(
+    factoryAddress: string,
+    merchantPayout: string,
+    message: string,
+    details: { transaction?: string; revert?: DecodedRefundRevert } = {},
+    cause?: unknown,
+  ) {
+    super("RELAY_DEPLOY_FAILED", `Failed to deploy relay: ${message}`, { cause });
+    this.name = "RelayDeployFailedError";
+    this.factoryAddress = factoryAddress;
+    this.merchantPayout = merchantPayout;
+    this.transaction = details.transaction;
+    this.revert = details.revert;
+  }
+}
+
+/**
+ * Simulating factory.deployRelay (eth_call) reverted
+ */
+export class RelayDeploySimulationFailedError extends RefundSettlementError {
+  readonly factoryAddress: string;
+  readonly merchantPayout: string;
+  readonly revert?: DecodedRefundRevert;
+
+  /**
+   * @param factoryAddress - The factory deploying the relay
+   * @param merchantPayout - The merchant the relay is deployed for
+   * @param revert - The decoded revert (error name and arguments), if any
+   * @param cause - The underlying error
+   */
+  constructor(
+    factoryAddress: string,
+    merchantPayout: string,
+    revert: DecodedRefundRevert | undefined,
+    cause: unknown,
+  ) {
+    super(
+      "RELAY_DEPLOY_SIMULATION_FAILED",
+      `Simulated factory.deployRelay reverted: ${
+        revert ? revert.reason : cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { cause },
+    );
+    this.name = "RelayDeploySimulationFailedError";
+    this.factoryAddress = factoryAddress;
+    this.merchantPayout = merchantPayout;
+    this.revert = revert;
+  }
+}
+
+/**
+ * The facilitator account cannot pay gas for a transaction
+ */
+export class InsufficientGasFundsError extends RefundSettlementError {
+  readonly facilitatorAddress: string;
+
+  /**
+   * @param facilitatorAddress - The facilitator account that ran out of funds
+   * @param cause - The underlying RPC error
+   */
+  constructor(facilitatorAddress: string, cause?: unknown) {
+    super(
+      "INSUFFICIENT_GAS_FUNDS",
+      `The facilitator account (${facilitatorAddress}) does not have enough native balance to pay for gas. ` +
+        `Please fund the facilitator account to cover gas costs.`,
+      { cause },
+    );
+    this.name = "InsufficientGasFundsError";
+    this.facilitatorAddress = facilitatorAddress;
+  }
+}
+
+/**
+ * The merchant is not registered with the relay's escrow
+ */
+export class MerchantNotRegisteredError extends RefundSettlementError {
+  readonly merchantPayout: string;
+  readonly escrowAddress: string;
+
+  /**
+   * @param merchantPayout - The unregistered merchant
+   * @param escrowAddress - The escrow that was checked
+   */
+  constructor(merchantPayout: string, escrowAddress: string) {
+    super(
+      "MERCHANT_NOT_REGISTERED",
+      `Merchant ${merchantPayout} is not registered with escrow ${escrowAddress}. ` +
+        `Please register at https://app.402r.org to enable refund functionality.`,
+    );
+    this.name = "MerchantNotRegisteredError";
+    this.merchantPayout = merchantPayout;
+    this.escrowAddress = escrowAddress;
+  }
+}
+
+/**
+ * The relay proxy's TOKEN differs from the payment asset
+ */
+export class TokenMismatchError extends RefundSettlementError {
+  readonly proxyAddress: string;
+  readonly proxyToken: string;
+  readonly requiredAsset: string;
+
+  /**
+   * @param proxyAddress - The relay proxy
+   * @param proxyToken - The proxy's TOKEN immutable
+   * @param requiredAsset - The payment requirements asset
+   */
+  constructor(proxyAddress: string, proxyToken: string, requiredAsset: string) {
+    super(
+      "TOKEN_MISMATCH",
+      `Relay ${proxyAddress} accepts ${proxyToken} but payment requires ${requiredAsset}. ` +
+        `transferWithAuthorization would fail.`,
+    );
+    this.name = "TokenMismatchError";
+    this.proxyAddress = proxyAddress;
+    this.proxyToken = proxyToken;
+    this.requiredAsset = requiredAsset;
+  }
+}
+
+/**
+ * The relay proxy reported different ESCROW values across reads
+ */
+export class EscrowMismatchError extends RefundSettlementError {
+  readonly proxyAddress: string;
+  readonly proxyEscrow: string;
+  readonly expectedEscrow: string;
+
+  /**
+   * @param proxyAddress - The relay proxy
+   * @param proxyEscrow - The escrow the proxy reports now
+   * @param expectedEscrow - The escrow read earlier
+   */
+  constructor(proxyAddress: string, proxyEscrow: string, expectedEscrow: string) {
+    super(
+      "ESCROW_MISMATCH",
+      `Relay ${proxyAddress} reports escrow ${proxyEscrow} but ${expectedEscrow} was read earlier`,
+    );
+    this.name = "EscrowMismatchError";
+    this.proxyAddress = proxyAddress;
+    this.proxyEscrow = proxyEscrow;
+    this.expectedEscrow = expectedEscrow;
+  }
+}
+
+/**
+ * The ERC-3009 authorization nonce was already used on the token
+ */
+export class NonceUsedError extends RefundSettlementError {
+  readonly payer: string;
+  readonly nonce: string;
+
+  /**
+   * @param payer - The authorizer
+   * @param nonce - The used authorization nonce
+   */
+  constructor(payer: string, nonce: string) {
+    super(
+      "NONCE_USED",
+      `ERC3009 nonce ${nonce} for ${payer} has already been used. This authorization cannot be reused.`,
+    );
+    this.name = "NonceUsedError";
+    this.payer = payer;
+    this.nonce = nonce;
+  }
+}
+
+/**
+ * The ERC-3009 authorization expired (validBefore passed) before a deposit succeeded
+ */
+export class AuthorizationExpiredError extends RefundSettlementError {
+  readonly payer: string;
+  readonly nonce: string;
+  readonly validBefore: string;
+
+  /**
+   * @param payer - The authorizer
+   * @param nonce - The authorization nonce
+   * @param validBefore - The authorization's validBefore (unix seconds)
+   */
+  constructor(payer: string, nonce: string, validBefore: string) {
+    super(
+      "AUTHORIZATION_EXPIRED",
+      `ERC3009 authorization ${nonce} for ${payer} expired at ${validBefore} before it was deposited.`,
+    );
+    this.name = "AuthorizationExpiredError";
+    this.payer = payer;
+    this.nonce = nonce;
+    this.validBefore = validBefore;
+  }
+}
+
+/**
+ * A read needed for settlement failed (RPC or contract call error)
+ */
+export class RefundRpcError extends RefundSettlementError {
+  readonly operation: string;
+
+  /**
+   * @param operation - What was being read (e.g. "registeredMerchants")
+   * @param cause - The underlying error
+   */
+  constructor(operation: string, cause: unknown) {
+    super(
+      "RPC_ERROR",
+      `Failed to read ${operation}: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause },
+    );
+    this.name = "RefundRpcError";
+    this.operation = operation;
+  }
+}
+
+/**
+ * proxy.executeDeposit failed or reverted
+ */
+export class DepositFailedError extends RefundSettlementError {
+  readonly proxyAddress: string;
+  readonly transaction?: string;
+  readonly revert?: DecodedRefundRevert;
+
+  /**
+   * @param proxyAddress - The relay proxy
+   * @param message - Human-readable detail
+   * @param details - The last transaction hash and decoded revert, if any
+   * @param details.transaction - The last executeDeposit transaction hash
+   * @param details.revert - The decoded revert (error name and arguments)
+   * @param cause - The underlying error, if any
+   */
+  constructor(
+    proxyAddress: string,
+    message: string,
+    details: { transaction?: string; revert?: DecodedRefundRevert } = {},
+    cause?: unknown,
+  ) {
+    super("DEPOSIT_FAILED", `Failed to execute proxy.executeDeposit: ${message}`, { cause });
+    this.name = "DepositFailedError";
+    this.proxyAddress = proxyAddress;
+    this.transaction = details.transaction;
+    this.revert = details.revert;
+  }
+}
+
+/**
+ * Simulating proxy.executeDeposit (eth_call) reverted
+ */
+export class DepositSimulationFailedError extends RefundSettlementError {
+  readonly proxyAddress: string;
+  readonly revert?: DecodedRefundRevert;
+
+  /**
+   * @param proxyAddress - The relay proxy
+   * @param revert - The decoded revert (error name and arguments), if any
+   * @param cause - The underlying error
+   */
+  constructor(proxyAddress: string, revert: DecodedRefundRevert | undefined, cause: unknown) {
+    super(
+      "DEPOSIT_SIMULATION_FAILED",
+      `Simulated proxy.executeDeposit reverted: ${
+        revert ? revert.reason : cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { cause },
+    );
+    this.name = "DepositSimulationFailedError";
+    this.proxyAddress = proxyAddress;
+    this.revert = revert;
+  }
+}
+
+/**
+ * proxy.executeDeposit was broadcast but its result is still unknown
+ *
+ * The transaction may still be mined, so it is not resubmitted. With a settlement store
+ * the settlement stays pending until `reconcilePendingSettlements()` resolves it.
+ * `transaction` is unset when a submission failed without returning a hash (e.g. a request
+ * timeout) and the authorization nonce was then found used: the deposit may be ours.
+ */
+export class DepositUnconfirmedError extends RefundSettlementError {
+  readonly proxyAddress: string;
+  readonly transaction?: string;
+
+  /**
+   * @param proxyAddress - The relay proxy
+   * @param transaction - The unconfirmed executeDeposit transaction hash, if known
+   * @param cause - The underlying error, if any
+   */
+  constructor(proxyAddress: string, transaction: string | undefined, cause?: unknown) {
+    super(
+      "DEPOSIT_UNCONFIRMED",
+      transaction
+        ? `proxy.executeDeposit transaction ${transaction} was broadcast but not confirmed. ` +
+            `It was not resubmitted; check it before retrying.`
+        : `proxy.executeDeposit to ${proxyAddress} may have been broadcast without returning ` +
+            `a transaction hash, and the authorization nonce is now used. It was not resubmitted; ` +
+            `check the escrow before retrying.`,
+      { cause },
+    );
+    this.name = "DepositUnconfirmedError";
+    this.proxyAddress = proxyAddress;
+    this.transaction = transaction;
+  }
+}
+
+/**
+ * A mined executeDeposit is not on chain after the confirmation window: it was reorged out,
+ * it did not use the authorization, or the escrow holds no matching deposit. If the
+ * authorization is still unused, the payment can be settled again.
+ */
+export class DepositReorgedError extends RefundSettlementError {
+  readonly proxyAddress: string;
+  readonly transaction: string;
+
+  /**
+   * @param proxyAddress - The relay proxy
+   * @param transaction - The executeDeposit transaction hash
+   * @param cause - The underlying error, if any
+   */
+  constructor(proxyAddress: string, transaction: string, cause?: unknown) {
+    super(
+      "DEPOSIT_REORGED",
+      `proxy.executeDeposit transaction ${transaction} was confirmed but the deposit is not ` +
+        `on chain anymore (reorged out, the authorization was not used, or the escrow has no ` +
+        `matching deposit).`,
+      { cause },
+    );
+    this.name = "DepositReorgedError";
+    this.proxyAddress = proxyAddress;
+    this.transaction = transaction;
+  }
+}
+
+/**
+ * Another facilitator is still settling the same authorization
+ */
+export class SettlementInProgressError extends RefundSettlementError {
+  readonly settlementKey: string;
+
+  /**
+   * @param settlementKey - The settlement key (network:from:nonce)
+   */
+  constructor(settlementKey: string) {
+    super(
+      "SETTLEMENT_IN_PROGRESS",
+      `Settlement ${settlementKey} is still pending on another facilitator. Retry later.`,
+    );
+    this.name = "SettlementInProgressError";
+    this.settlementKey = settlementKey;
+  }
+}
+
+/**
+ * An escrow call (registerMerchant, release or refund) was rejected or reverted.
+ * Not a settlement failure: raised by the escrow clients (MerchantEscrowClient, ArbiterClient).
+ */
+export class EscrowCallError extends Error {
+  readonly escrowAddress: string;
+  readonly functionName: string;
+  readonly transaction?: string;
+  readonly revert?: DecodedRefundRevert;
+
+  /**
+   * @param escrowAddress - The escrow contract
+   * @param functionName - The escrow function that failed
+   * @param message - Human-readable detail
+   * @param details - The transaction hash and decoded revert, if any
+   * @param details.transaction - The transaction hash, if it was sent
+   * @param details.revert - The decoded revert (error name and arguments)
+   * @param cause - The underlying error, if any
+   */
+  constructor(
+    escrowAddress: string,
+    functionName: string,
+    message: string,
+    details: { transaction?: string; revert?: DecodedRefundRevert } = {},
+    cause?: unknown,
+  ) {
+    super(`escrow.${functionName} failed: ${message}`);
+    this.name = "EscrowCallError";
+    this.escrowAddress = escrowAddress;
+    this.functionName = functionName;
+    this.transaction = details.transaction;
+    this.revert = details.revert;
+    if (cause !== undefined) {
+      (this as { cause?: unknown }).cause = cause;
+    }
+  }
+}
+
+/**
+ * Reasons an arbiter rejects a dispute operation
+ */
+export type ArbiterDisputeErrorCode =
+  | "INVALID_SIGNATURE"
+  | "WRONG_ESCROW"
+  | "NOT_ARBITRATED"
+  | "DEPOSIT_NOT_FOUND"
+  | "DEPOSIT_CLOSED"
+  | "DISPUTE_NOT_FOUND"
+  | "DISPUTE_CLOSED"
+  | "NOT_DECIDED";
+
+/**
+ * A dispute was rejected by an ArbiterClient (bad signature, a deposit the arbiter does not
+ * resolve, or an operation the dispute's state does not allow).
+ */
+export class ArbiterDisputeError extends Error {
+  readonly code: ArbiterDisputeErrorCode;
+  readonly disputeId?: string;
+
+  /**
+   * @param code - The stable machine code
+   * @param message - Human-readable detail
+   * @param disputeId - The dispute, if it was identified
+   */
+  constructor(code: ArbiterDisputeErrorCode, message: string, disputeId?: string) {
+    super(message);
+    this.name = "ArbiterDisputeError";
+    this.code = code;
+    this.disputeId = disputeId;
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Escrow contract helpers shared by the escrow clients
+ *
+ * Reads deposits and DepositNoted events from the shared escrow, and sends its write
+ * calls. Writes are simulated first, so a revert fails with a decoded EscrowCallError
+ * without spending gas.
+ */
+
+import {
+  getAddress,
+  type Account,
+  type ContractFunctionArgs,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem";
+import { ESCROW_ABI } from "../abis";
+import { EscrowCallError } from "../errors";
+import { decodeRefundRevert } from "../facilitator/decodeRevert";
+
+/**
+ * Blocks searched per eth_getLogs request by default (within common RPC provider limits)
+ */
+const DEFAULT_LOG_BLOCK_RANGE = 10_000n;
+
+/**
+ * Escrow functions sent by writeEscrowContract
+ */
+export type EscrowWriteFunction = "registerMerchant" | "release" | "refund";
+
+/**
+ * Arguments of an escrow write function
+ */
+export type EscrowWriteArgs = ContractFunctionArgs<
+  typeof ESCROW_ABI,
+  "nonpayable",
+  EscrowWriteFunction
+>;
+
+/**
+ * A deposit recorded by the escrow
+ */
+export interface EscrowDeposit {
+  escrow: `0x${string}`;
+  /** The buyer the deposit is recorded for */
+  user: `0x${string}`;
+  depositNonce: bigint;
+  /** Amount still held, in token base units (zero once released or refunded) */
+  principal: bigint;
+  /** Unix time (seconds) the deposit was noted */
+  timestamp: bigint;
+  merchantPayout: `0x${string}`;
+  /** True while the principal is still held */
+  open: boolean;
+}
+
+/**
+ * A DepositNoted event emitted by the escrow
+ */
+export interface EscrowDepositEvent {
+  user: `0x${string}`;
+  merchantPayout: `0x${string}`;
+  depositNonce: bigint;
+  /** Deposited amount in token base units */
+  amount: bigint;
+  transaction: `0x${string}`;
+  blockNumber: bigint;
+}
+
+/**
+ * Filter for DepositNoted events
+ */
+export interface EscrowDepositFilter {
+  /** Only deposits recorded for this buyer */
+  user?: string;
+  /** Only deposits for this merchant */
+  merchantPayout?: string;
+  /** First block to search, e.g. the escrow deployment block */
+  fromBlock: bigint;
+  /** Last block to search (defaults to the latest block) */
+  toBlock?: bigint;
+  /** Blocks searched per eth_getLogs request (defaults to 10,000) */
+  blockRange?: bigint;
+}
+
+/**
+ * Result of an escrow write call
+ */
+export interface EscrowTransactionResult {
+  transaction: `0x${string}`;
+  status: "success";
+}
+
+/**
+ * Reads a deposit from the escrow.
+ *
+ * @param publicClient - The viem public client
+ * @param escrowAddress - The escrow contract
+ * @param user - The buyer the deposit is recorded for
+ * @param depositNonce - The escrow deposit nonce
+ * @returns The deposit, or undefined if none is recorded under that nonce
+ */
+export async function readEscrowDeposit(
+  publicClient: PublicClient,
+  escrowAddress: string,
+  user: string,
+  depositNonce: bigint,
+): Promise<EscrowDeposit | undefined> {
+  const [principal, timestamp, , merchantPayout] = await publicClient.readContract({
+    address: getAddress(escrowAddress),
+    abi: ESCROW_ABI,
+    functionName: "deposits",
+    args: [getAddress(user), depositNonce],
+  });
+
+  if (timestamp === 0n) {
+    return undefined;
+  }
+  return {
+    escrow: getAddress(escrowAddress),
+    user: getAddress(user),
+    depositNonce,
+    principal,
+    timestamp,
+    merchantPayout: getAddress(merchantPayout),
+    open: principal > 0n,
+  };
+}
+
+/**
+ * Gets the escrow's DepositNoted events, oldest first. The block range is searched in
+ * windows of `blockRange` blocks, one eth_getLogs request at a time.
+ *
+ * @param publicClient - The viem public client
+ * @param escrowAddress - The escrow contract
+ * @param filter - Buyer, merchant and block range
+ * @returns The deposit events
+ * @throws Error if `blockRange` is not positive
+ */
+export async function getEscrowDepositEvents(
+  publicClient: PublicClient,
+  escrowAddress: string,
+  filter: EscrowDepositFilter,
+): Promise<EscrowDepositEvent[]> {
+  const blockRange = filter.blockRange ?? DEFAULT_LOG_BLOCK_RANGE;
+  if (blockRange <= 0n) {
+    throw new Error(`blockRange must be positive, got ${blockRange}`);
+  }
+  const toBlock = filter.toBlock ?? (await publicClient.getBlockNumber());
+
+  const events: EscrowDepositEvent[] = [];
+  for (let fromBlock = filter.fromBlock; fromBlock <= toBlock; fromBlock += blockRange) {
+    const windowEnd = fromBlock + blockRange - 1n;
+    const logs = await publicClient.getContractEvents({
+      address: getAddress(escrowAddress),
+      abi: ESCROW_ABI,
+      eventName: "DepositNoted",
+      args: {
+        user: filter.user ? getAddress(filter.user) : undefined,
+        merchantPayout: filter.merchantPayout ? getAddress(filter.merchantPayout) : undefined,
+      },
+      fromBlock,
+      toBlock: windowEnd < toBlock ? windowEnd : toBlock,
+    });
+    for (const log of logs) {
+      events.push({
+        user: log.args.user as `0x${string}`,
+        merchantPayout: log.args.merchantPayout as `0x${string}`,
+        depositNonce: log.args.depositNonce as bigint,
+        amount: log.args.amount as bigint,
+        transaction: log.transactionHash,
+        blockNumber: log.blockNumber,
+      });
+    }
+  }
+  return events;
+}
+
+/**
+ * Gets the first block to search for deposits, from a listing's filter or the client's
+ * configured default.
+ *
+ * @param fromBlock - The listing's first block
+ * @param defaultFromBlock - The client's first block (e.g. the escrow deployment block)
+ * @returns The first block
+ * @throws Error if neither is set
+ */
+export function resolveFromBlock(
+  fromBlock: bigint | undefined,
+  defaultFromBlock: bigint | undefined,
+): bigint {
+  const resolved = fromBlock ?? defaultFromBlock;
+  if (resolved === undefined) {
+    throw new Error(
+      "fromBlock is required to list escrow deposits (e.g. the escrow deployment block)",
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Lists the escrow's deposits matching a filter, with their current state.
+ *
+ * @param publicClient - The viem public client
+ * @param escrowAddress - The escrow contract
+ * @param filter - Buyer, merchant and block range
+ * @returns The deposits, oldest first
+ */
+export async function listEscrowDeposits(
+  publicClient: PublicClient,
+  escrowAddress: string,
+  filter: EscrowDepositFilter,
+): Promise<EscrowDeposit[]> {
+  const events = await getEscrowDepositEvents(publicClient, escrowAddress, filter);
+  const deposits = await Promise.all(
+    events.map(event =>
+      readEscrowDeposit(publicClient, escrowAddress, event.user, event.depositNonce),
+    ),
+  );
+  return deposits.filter((deposit): deposit is EscrowDeposit => deposit !== undefined);
+}
+
+/**
+ * Simulates and sends an escrow write call, then waits for its receipt.
+ *
+ * @param publicClient - The viem public client
+ * @param walletClient - The viem wallet client (with an account) that sends the call
+ * @param escrowAddress - The escrow contract
+ * @param functionName - The escrow function
+ * @param args - The function arguments
+ * @param onBroadcast - Called with the transaction hash before waiting for its receipt
+ * (e.g. to record it, so a retry does not send the call again)
+ * @returns The confirmed transaction
+ * @throws EscrowCallError if the call would revert, could not be sent, reverted or its receipt
+ * could not be fetched (with the transaction hash, as it may still confirm)
+ */
+export async function writeEscrowContract(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  escrowAddress: string,
+  functionName: EscrowWriteFunction,
+  args: EscrowWriteArgs,
+  onBroadcast?: (transaction: `0x${string}`) => Promise<void>,
+): Promise<EscrowTransactionResult> {
+  const address = getAddress(escrowAddress);
+  const account = walletClient.account as Account | undefined;
+  if (!account) {
+    throw new EscrowCallError(address, functionName, "wallet client has no account");
+  }
+
+  let transaction: `0x${string}`;
+  try {
+    const { request } = await publicClient.simulateContract({
+      address,
+      abi: ESCROW_ABI,
+      functionName,
+      args,
+      account,
+      chain: walletClient.chain,
+    });
+    transaction = await walletClient.writeContract(request);
+  } catch (error) {
+    const revert = decodeRefundRevert(error);
+    throw new EscrowCallError(
+      address,
+      functionName,
+      revert ? `contract reverted: ${revert.reason}` : (error as Error).message,
+      { revert },
+      error,
+    );
+  }
+
+  await onBroadcast?.(transaction);
+  let receipt: TransactionReceipt;
+  try {
+    receipt = await publicClient.waitForTransactionReceipt({ hash: transaction });
+  } catch (error) {
+    throw new EscrowCallError(
+      address,
+      functionName,
+      `no receipt for transaction ${transaction}: ${(error as Error).message}`,
+      { transaction },
+      error,
+    );
+  }
+  if (receipt.status !== "success") {
+    throw new EscrowCallError(address, functionName, `transaction ${transaction} reverted`, {
+      transaction,
+    });
+  }
+  return { transaction, status: "success" };
+}
@@ -0,0 +1,244 @@
+/**
+ * Signed refund requests
+ *
+ * A buyer signs an EIP-712 RefundRequest for one escrow deposit. The merchant or the
+ * merchant's arbiter verifies the signature and acts on it with escrow.refund(). The
+ * signature proves the request comes from the buyer the deposit is recorded for. Evidence
+ * added to a dispute later is signed the same way, as an EIP-712 RefundEvidence.
+ */
+
+import type { ClientEvmSigner } from "@x402/evm";
+import { getAddress, verifyTypedData, type PublicClient } from "viem";
+
+/**
+ * A buyer's request to refund an escrow deposit
+ */
+export interface RefundRequest {
+  /** CAIP-2 network id of the escrow (eip155:<chainId>) */
+  network: string;
+  escrow: `0x${string}`;
+  /** The buyer the deposit is recorded for (the signer) */
+  user: `0x${string}`;
+  /** Escrow deposit nonce (uint256, decimal) */
+  depositNonce: string;
+  merchantPayout: `0x${string}`;
+  /** Requested refund in token base units (decimal) */
+  amount: string;
+  /** Human-readable reason for the refund */
+  reason: string;
+  /** keccak256 of the evidence (zero hash when none) */
+  evidenceHash: `0x${string}`;
+  /** Unix time (seconds) the request was signed */
+  requestedAt: number;
+}
+
+/**
+ * A refund request with the buyer's EIP-712 signature
+ */
+export interface SignedRefundRequest {
+  request: RefundRequest;
+  signature: `0x${string}`;
+}
+
+/**
+ * EIP-712 types of a RefundRequest
+ */
+export const REFUND_REQUEST_TYPES = {
+  RefundRequest: [
+    { name: "escrow", type: "address" },
+    { name: "user", type: "address" },
+    { name: "depositNonce", type: "uint256" },
+    { name: "merchantPayout", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "reason", type: "string" },
+    { name: "evidenceHash", type: "bytes32" },
+    { name: "requestedAt", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * EIP-712 types of a RefundEvidence: further evidence for a refund request's deposit. The
+ * request's `requestedAt` binds the evidence to that request, so it cannot be replayed into a
+ * later dispute over the same deposit.
+ */
+export const REFUND_EVIDENCE_TYPES = {
+  RefundEvidence: [
+    { name: "escrow", type: "address" },
+    { name: "user", type: "address" },
+    { name: "depositNonce", type: "uint256" },
+    { name: "requestedAt", type: "uint256" },
+    { name: "evidenceHash", type: "bytes32" },
+  ],
+} as const;
+
+/**
+ * Gets the EIP-712 domain of refund requests for an escrow.
+ *
+ * @param network - CAIP-2 network id (eip155:<chainId>)
+ * @param escrow - The escrow contract
+ * @returns The EIP-712 domain
+ */
+export function getRefundRequestDomain(network: string, escrow: string) {
+  const [namespace, chainId] = network.split(":");
+  if (namespace !== "eip155" || !chainId) {
+    throw new Error(`Refund requests need an eip155 network, got ${network}`);
+  }
+  return {
+    name: "x402r Refund Request",
+    version: "1",
+    chainId: Number(chainId),
+    verifyingContract: getAddress(escrow),
+  } as const;
+}
+
+/**
+ * Signs a refund request with the buyer's signer.
+ *
+ * @param signer - The buyer's signer (must be the deposit's user)
+ * @param request - The refund request
+ * @returns The signed request
+ */
+export async function signRefundRequest(
+  signer: ClientEvmSigner,
+  request: RefundRequest,
+): Promise<SignedRefundRequest> {
+  if (getAddress(signer.address) !== getAddress(request.user)) {
+    throw new Error(`Refund request for ${request.user} must be signed by that address`);
+  }
+
+  const signature = await signer.signTypedData({
+    domain: getRefundRequestDomain(request.network, request.escrow),
+    types: REFUND_REQUEST_TYPES,
+    primaryType: "RefundRequest",
+    message: getRefundRequestMessage(request),
+  });
+  return { request, signature };
+}
+
+/**
+ * Verifies a signed refund request's signature against its user.
+ *
+ * Pass a public client to also accept smart contract wallet signatures (ERC-1271/6492).
+ *
+ * @param signed - The signed refund request
+ * @param publicClient - Optional viem public client for smart wallet signatures
+ * @returns True if the user signed the request
+ */
+export async function verifyRefundRequest(
+  signed: SignedRefundRequest,
+  publicClient?: PublicClient,
+): Promise<boolean> {
+  const { request, signature } = signed;
+  const typedData = {
+    address: getAddress(request.user),
+    domain: getRefundRequestDomain(request.network, request.escrow),
+    types: REFUND_REQUEST_TYPES,
+    primaryType: "RefundRequest" as const,
+    message: getRefundRequestMessage(request),
+    signature,
+  };
+
+  try {
+    return publicClient
+      ? await publicClient.verifyTypedData(typedData)
+      : await verifyTypedData(typedData);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signs further evidence for a refund request's deposit with the buyer's signer.
+ *
+ * @param signer - The buyer's signer (must be the deposit's user)
+ * @param request - The refund request the evidence is for
+ * @param evidenceHash - keccak256 of the evidence
+ * @returns The signature
+ */
+export async function signRefundEvidence(
+  signer: ClientEvmSigner,
+  request: RefundRequest,
+  evidenceHash: `0x${string}`,
+): Promise<`0x${string}`> {
+  if (getAddress(signer.address) !== getAddress(request.user)) {
+    throw new Error(`Evidence for ${request.user} must be signed by that address`);
+  }
+
+  return signer.signTypedData({
+    domain: getRefundRequestDomain(request.network, request.escrow),
+    types: REFUND_EVIDENCE_TYPES,
+    primaryType: "RefundEvidence",
+    message: getRefundEvidenceMessage(request, evidenceHash),
+  });
+}
+
+/**
+ * Verifies that a refund request's user signed further evidence for its deposit.
+ *
+ * Pass a public client to also accept smart contract wallet signatures (ERC-1271/6492).
+ *
+ * @param request - The refund request the evidence is for
+ * @param evidenceHash - keccak256 of the evidence
+ * @param signature - The user's signature
+ * @param publicClient - Optional viem public client for smart wallet signatures
+ * @returns True if the user signed the evidence
+ */
+export async function verifyRefundEvidence(
+  request: RefundRequest,
+  evidenceHash: `0x${string}`,
+  signature: `0x${string}`,
+  publicClient?: PublicClient,
+): Promise<boolean> {
+  const typedData = {
+    address: getAddress(request.user),
+    domain: getRefundRequestDomain(request.network, request.escrow),
+    types: REFUND_EVIDENCE_TYPES,
+    primaryType: "RefundEvidence" as const,
+    message: getRefundEvidenceMessage(request, evidenceHash),
+    signature,
+  };
+
+  try {
+    return publicClient
+      ? await publicClient.verifyTypedData(typedData)
+      : await verifyTypedData(typedData);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Builds the EIP-712 message of a refund request.
+ *
+ * @param request - The refund request
+ * @returns The typed data message
+ */
+function getRefundRequestMessage(request: RefundRequest) {
+  return {
+    escrow: getAddress(request.escrow),
+    user: getAddress(request.user),
+    depositNonce: BigInt(request.depositNonce),
+    merchantPayout: getAddress(request.merchantPayout),
+    amount: BigInt(request.amount),
+    reason: request.reason,
+    evidenceHash: request.evidenceHash,
+    requestedAt: BigInt(request.requestedAt),
+  };
+}
+
+/**
+ * Builds the EIP-712 message of further evidence for a refund request's deposit.
+ *
+ * @param request - The refund request
+ * @param evidenceHash - keccak256 of the evidence
+ * @returns The typed data message
+ */
+function getRefundEvidenceMessage(request: RefundRequest, evidenceHash: `0x${string}`) {
+  return {
+    escrow: getAddress(request.escrow),
+    user: getAddress(request.user),
+    depositNonce: BigInt(request.depositNonce),
+    requestedAt: BigInt(request.requestedAt),
+    evidenceHash,
+  };
+}
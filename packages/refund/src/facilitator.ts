@@ -5,249 +5,197 @@
  * and handle refund settlements via X402DepositRelayProxy contracts.
  */
 
-import type { PaymentPayload, PaymentRequirements, SettleResponse } from "@x402/core/types";
+import type {
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  VerifyResponse,
+} from "@x402/core/types";
 import type { FacilitatorEvmSigner } from "@x402/evm";
 import { getAddress, isAddress, parseErc6492Signature, parseSignature, zeroAddress } from "viem";
-import { REFUND_EXTENSION_KEY, type RefundExtension } from "./types";
+import {
+  REFUND_EXTENSION_KEY,
+  getMerchantPayout,
+  type RefundExtension,
+  type RefundFacilitatorSigner,
+  type RefundPolicy,
+  type VerifyWithRefundOptions,
+} from "./types";
+import { defaultRefundNetworkRegistry } from "./networks";
+import { assertTrustedEscrow, assertTrustedFactory } from "./facilitator/trustPolicy";
+import {
+  validateRefundAuthorization,
+  type RefundAuthorization,
+  type RefundAuthorizationInvalidReason,
+} from "./facilitator/validateAuthorization";
+import { decodeRefundRevert, type DecodedRefundRevert } from "./facilitator/decodeRevert";
+import {
+  getRefundSettlementKey,
+  type RefundJournaledTransaction,
+  type RefundSettlementStore,
+} from "./facilitator/settlementStore";
+import { getReceiptStatus } from "./facilitator/reconcile";
+import { readRefundReceipt } from "./facilitator/refundReceipt";
+import { defaultRelayInfoCache, getRelayInfoCacheKey } from "./facilitator/relayInfoCache";
+import {
+  classifyDepositError,
+  getRetryDelay,
+  readContractWithRetry,
+  resolveRetryPolicy,
+} from "./facilitator/retryPolicy";
+import {
+  getDeployedRelay,
+  hasCode,
+  readRefundPreflightState,
+  type RefundPreflightState,
+} from "./facilitator/preflightState";
+import type { RefundDepositBatcher } from "./facilitator/depositBatcher";
+import {
+  checkDepositsOnChain,
+  getConfirmationDepth,
+  waitForConfirmations,
+} from "./facilitator/depositConfirmation";
+import {
+  defaultRefundSettlementStatusTracker,
+  type RefundSettleResponse,
+  type RefundSettlementState,
+  type RefundSettlementStatus,
+  type RefundSettlementStatusTracker,
+} from "./facilitator/settlementStatus";
+import { ERC3009_ABI, FACTORY_ABI, RELAY_PROXY_ABI } from "./abis";
+import {
+  AuthorizationExpiredError,
+  DepositFailedError,
+  DepositReorgedError,
+  DepositSimulationFailedError,
+  DepositUnconfirmedError,
+  EscrowMismatchError,
+  FactoryNotFoundError,
+  InsufficientGasFundsError,
+  MerchantNotRegisteredError,
+  NonceUsedError,
+  RefundRpcError,
+  RefundSettlementError,
+  RelayAddressMismatchError,
+  RelayDeployFailedError,
+  RelayDeploySimulationFailedError,
+  SettlementInProgressError,
+  TokenMismatchError,
+  UnknownEscrowError,
+  UnsupportedTokenError,
+} from "./errors";
 
 /**
- * Checks if an error is a rate limit error (429)
+ * Options for `settleWithRefundHelper()`
  */
-function isRateLimitError(error: unknown): boolean {
-  if (error && typeof error === "object") {
-    // Check for viem error structure
-    const err = error as { status?: number; message?: string; details?: string; cause?: unknown };
-    if (err.status === 429) {
-      return true;
-    }
-    const message = err.message || err.details || "";
-    if (typeof message === "string" && message.toLowerCase().includes("rate limit")) {
-      return true;
-    }
-    // Check nested cause
-    if (err.cause && isRateLimitError(err.cause)) {
-      return true;
-    }
-  }
-  return false;
+export interface SettleWithRefundOptions extends VerifyWithRefundOptions {
+  /**
+   * Store that records settlements by authorization (network, from, nonce).
+   * When set, settling an already-settled authorization returns the stored
+   * SettleResponse, and one still being settled elsewhere is waited on,
+   * instead of sending a second executeDeposit.
+   */
+  store?: RefundSettlementStore;
+  /**
+   * Simulate factory.deployRelay and proxy.executeDeposit with an eth_call (facilitator as
+   * sender) before broadcasting each, so a revert fails with a typed error without spending gas.
+   * Needs a signer with `simulateContract`; other signers skip the simulation.
+   *
+   * @default false
+   */
+  simulate?: boolean;
+  /**
+   * Queue executeDeposit calls on this batcher and send them together through Multicall3,
+   * instead of one transaction per settlement. Each settlement still resolves (or fails)
+   * on its own deposit's outcome. Deposits are not retried individually in this mode.
+   */
+  batcher?: RefundDepositBatcher;
+  /**
+   * Return a pending SettleResponse (`extensions.refund.status: "pending"`) as soon as
+   * executeDeposit is broadcast, instead of waiting for confirmation. The settlement finishes
+   * in the background: track it with `getRefundSettlementStatus()` or `onSettlementComplete`.
+   * The deposit may still fail after the response is returned.
+   *
+   * @default false
+   */
+  returnOnBroadcast?: boolean;
+  /**
+   * Blocks a deposit must be confirmed by before its settlement counts as done. Once
+   * confirmed, the deposit is checked to still be on chain (DepositReorgedError if not).
+   * Overrides the network registry's `confirmations`.
+   *
+   * @default 1
+   */
+  confirmations?: number;
+  /**
+   * Called once a settlement returned as pending is confirmed or has failed, and once any
+   * settlement's mined deposit is found reorged out (state "reverted").
+   * Errors thrown by the callback are ignored.
+   */
+  onSettlementComplete?: (status: RefundSettlementStatus) => void | Promise<void>;
+  /** Where settlement statuses are tracked (defaults to `defaultRefundSettlementStatusTracker`) */
+  settlementStatusTracker?: RefundSettlementStatusTracker;
 }
 
 /**
- * Wraps readContract calls with retry logic for rate limit errors
- * Uses exponential backoff: 1s, 2s, 4s, 8s, 16s
+ * How long to wait for another facilitator's pending settlement of the same authorization
  */
-async function readContractWithRetry<T>(
-  signer: FacilitatorEvmSigner,
-  args: {
-    address: `0x${string}`;
-    abi: readonly unknown[];
-    functionName: string;
-    args?: readonly unknown[];
-  },
-  maxRetries = 5,
-): Promise<T> {
-  let lastError: unknown;
-  
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return (await signer.readContract(args)) as T;
-    } catch (error) {
-      lastError = error;
-      
-      // Only retry on rate limit errors
-      if (!isRateLimitError(error)) {
-        throw error;
-      }
-      
-      // Don't retry on last attempt
-      if (attempt >= maxRetries) {
-        break;
-      }
-      
-      // Exponential backoff: 1s, 2s, 4s, 8s, 16s
-      const delayMs = Math.min(1000 * Math.pow(2, attempt), 16000);
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-    }
-  }
-  
-  throw lastError;
+const SETTLEMENT_WAIT_TIMEOUT_MS = 60_000;
+
+/**
+ * How often to poll the store while waiting on a pending settlement
+ */
+const SETTLEMENT_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Settlements in progress in this process, by settlement key
+ */
+const inFlightSettlements = new Map<string, Promise<SettleResponse | null>>();
+
+/**
+ * A relay deployment shared by concurrent settlements
+ */
+interface RelayDeployment {
+  /** The deployed relay's escrow address */
+  escrow: Promise<string>;
+  /** The deployRelay transaction, once broadcast */
+  transaction?: string;
 }
 
 /**
- * Factory ABI - any CREATE3-compatible factory that implements these methods can be used
- * No interface required - duck typing at runtime!
- *
- * Note: Proxies store all data directly (merchantPayout, token, escrow), so factory
- * only needs methods for deployment and address computation.
+ * Relay deployments in progress in this process, by network, factory and merchantPayout
  */
-const FACTORY_ABI = [
-  {
-    name: "getMerchantFromRelay",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "relayAddress", type: "address" }],
-    outputs: [{ name: "", type: "address" }],
-  },
-  {
-    name: "getRelayAddress",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "merchantPayout", type: "address" }],
-    outputs: [{ name: "", type: "address" }],
-  },
-  {
-    name: "deployRelay",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [{ name: "merchantPayout", type: "address" }],
-    outputs: [{ name: "", type: "address" }],
-  },
-  {
-    name: "getCreateX",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "", type: "address" }],
-  },
-] as const;
+const inFlightDeployments = new Map<string, RelayDeployment>();
 
 /**
- * Escrow ABI for shared escrow
+ * How long to wait for an earlier executeDeposit's receipt before deciding whether to resubmit
  */
-const ESCROW_ABI = [
-  {
-    name: "registerMerchant",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "merchantPayout", type: "address" },
-      { name: "arbiter", type: "address" },
-    ],
-    outputs: [],
-  },
-  {
-    name: "registeredMerchants",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "merchantPayout", type: "address" }],
-    outputs: [{ name: "", type: "bool" }],
-  },
-  {
-    name: "merchantArbiters",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "merchantPayout", type: "address" }],
-    outputs: [{ name: "", type: "address" }],
-  },
-  {
-    name: "getArbiter",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "merchantPayout", type: "address" }],
-    outputs: [{ name: "", type: "address" }],
-  },
-  {
-    name: "noteDeposit",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "user", type: "address" },
-      { name: "merchantPayout", type: "address" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [{ name: "", type: "uint256" }],
-  },
-  {
-    name: "release",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "user", type: "address" },
-      { name: "depositNonce", type: "uint256" },
-    ],
-    outputs: [],
-  },
-  {
-    name: "refund",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "user", type: "address" },
-      { name: "depositNonce", type: "uint256" },
-    ],
-    outputs: [],
-  },
-  {
-    name: "deposits",
-    type: "function",
-    stateMutability: "view",
-    inputs: [
-      { name: "user", type: "address" },
-      { name: "depositNonce", type: "uint256" },
-    ],
-    outputs: [
-      { name: "principal", type: "uint256" },
-      { name: "timestamp", type: "uint256" },
-      { name: "nonce", type: "uint256" },
-      { name: "merchantPayout", type: "address" },
-    ],
-  },
-] as const;
-
-/**
- * RelayProxy ABI - proxy stores all data directly
- */
-const RELAY_PROXY_ABI = [
-  {
-    name: "executeDeposit",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      { name: "fromUser", type: "address" },
-      { name: "amount", type: "uint256" },
-      { name: "validAfter", type: "uint256" },
-      { name: "validBefore", type: "uint256" },
-      { name: "nonce", type: "bytes32" },
-      { name: "v", type: "uint8" },
-      { name: "r", type: "bytes32" },
-      { name: "s", type: "bytes32" },
-    ],
-    outputs: [],
-  },
-  {
-    name: "MERCHANT_PAYOUT",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "", type: "address" }],
-  },
-  {
-    name: "TOKEN",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "", type: "address" }],
-  },
-  {
-    name: "ESCROW",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "", type: "address" }],
-  },
-] as const;
+const RECEIPT_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * A transaction receipt as returned by the signer
+ */
+type DepositReceipt = Awaited<ReturnType<FacilitatorEvmSigner["waitForTransactionReceipt"]>>;
 
 /**
  * Extracts refund extension info from payment payload or requirements
  *
+ * When the extension carries per-network info, the factory and merchantPayouts for
+ * the payment requirements' network are returned. Otherwise the top-level info is used.
+ * The refund policy published for the payment's proxy (payTo) is returned when present.
+ *
  * @param paymentPayload - The payment payload (may contain extensions)
- * @param _ - The payment requirements (currently unused, kept for API compatibility)
+ * @param paymentRequirements - The payment requirements (network selects the per-network info, payTo selects the policy)
  * @returns Refund extension info if valid, null otherwise
  */
 export function extractRefundInfo(
   paymentPayload: PaymentPayload,
-  _: PaymentRequirements,
-): { factoryAddress: string; merchantPayouts: Record<string, string> } | null {
+  paymentRequirements: PaymentRequirements,
+): {
+  factoryAddress: string;
+  merchantPayouts: Record<string, string>;
+  policy?: RefundPolicy;
+} | null {
   // Get extension from payload (extensions flow from PaymentRequired through PaymentPayload)
   const extension = paymentPayload.extensions?.[REFUND_EXTENSION_KEY] as
     | RefundExtension
@@ -257,129 +205,216 @@ export function extractRefundInfo(
     return null;
   }
 
-  const factoryAddress = extension.info.factoryAddress;
-  const merchantPayouts = extension.info.merchantPayouts || {};
+  // Prefer the info declared for the payment's network (multi-chain routes)
+  const networkInfo = extension.info.networks?.[paymentRequirements.network];
+
+  const factoryAddress = networkInfo?.factoryAddress || extension.info.factoryAddress;
+  const merchantPayouts = networkInfo?.merchantPayouts || extension.info.merchantPayouts || {};
 
   // Validate factory address format
   if (!isAddress(factoryAddress)) {
     return null;
   }
 
-  return { factoryAddress, merchantPayouts };
+  // Policy terms are keyed by (lowercase) proxy address
+  const policy = paymentRequirements.payTo
+    ? extension.info.policies?.[paymentRequirements.payTo.toLowerCase()]
+    : undefined;
+
+  return policy ? { factoryAddress, merchantPayouts, policy } : { factoryAddress, merchantPayouts };
 }
 
 /**
- * Helper for facilitator operators to handle refund settlements via X402DepositRelayProxy.
+ * Refund payment state gathered by the read-only checks shared by verify and settle
+ */
+interface RefundPaymentContext {
+  factoryAddress: string;
+  proxyAddress: `0x${string}`;
+  merchantPayout: string;
+  /** Read from the proxy when the relay is deployed; unknown until deployment otherwise */
+  escrowAddress?: string;
+  authorization: RefundAuthorization;
+  v: number;
+  r: `0x${string}`;
+  s: `0x${string}`;
+  /** On-chain state read by the checks */
+  state: RefundPreflightState;
+}
+
+/**
+ * Outcome of the read-only checks on a refund payment
+ */
+type RefundPaymentCheck =
+  | { status: "not_applicable" }
+  | { status: "invalid"; invalidReason: RefundAuthorizationInvalidReason; payer?: string }
+  | { status: "ready"; context: RefundPaymentContext };
+
+/**
+ * Runs the read-only checks that do not need a deployed relay.
  *
- * This function:
  * 1. Extracts refund extension info (factory address)
- * 2. Validates factory exists
- * 3. Reads merchantPayout and escrow directly from proxy storage
- * 4. Checks if merchant is registered
- * 5. Deploys relay on-demand if needed (via factory)
- * 6. Calls proxy.executeDeposit() to deposit funds into escrow
- *
- * Returns null if refund is not applicable (delegates to normal flow).
- * Throws error on execution failure or if merchant not registered (facilitator should handle in hook).
+ * 2. Checks the token against the network registry and the factory against the trust policy
+ * 3. Validates the authorization locally (amount, recipient, time window, asset, signature)
+ * 4. Checks the factory exists
+ * 5. Reads merchantPayout and escrow from the proxy, or for undeployed relays takes
+ *    merchantPayout from the extension, and checks the factory computes the same relay address
+ *    (one batched read of the preflight state, see `readRefundPreflightState()`)
  *
  * @param paymentPayload - The payment payload containing authorization and signature
  * @param paymentRequirements - The payment requirements containing refund extension
- * @param signer - The EVM signer for contract interactions
- * @returns SettleResponse on success, null if not applicable
- * @throws Error on execution failure or if merchant not registered
- *
- * @example
- * ```typescript
- * facilitator.onBeforeSettle(async (context) => {
- *   try {
- *     const result = await settleWithRefundHelper(
- *       context.paymentPayload,
- *       context.paymentRequirements,
- *       signer,
- *     );
- *
- *     if (result) {
- *       return { abort: true, reason: 'handled_by_refund_helper' };
- *     }
- *   } catch (error) {
- *     // Log error but don't abort - let normal settlement proceed
- *     console.error('Refund helper settlement failed:', error);
- *   }
- *
- *   return null; // Proceed with normal settlement
- * });
- * ```
+ * @param signer - The EVM signer for contract reads
+ * @param options - Network registry and trust policy
+ * @returns The check outcome
+ * @throws RefundSettlementError if a check fails
  */
-export async function settleWithRefundHelper(
+async function checkRefundPayment(
   paymentPayload: PaymentPayload,
   paymentRequirements: PaymentRequirements,
-  signer: FacilitatorEvmSigner,
-): Promise<SettleResponse | null> {
+  signer: RefundFacilitatorSigner,
+  options: VerifyWithRefundOptions,
+): Promise<RefundPaymentCheck> {
+  const registry = options.registry ?? defaultRefundNetworkRegistry;
+
   // Extract refund info from extension
   const refundInfo = extractRefundInfo(paymentPayload, paymentRequirements);
   if (!refundInfo) {
-    return null; // Not refundable, proceed with normal settlement
+    return { status: "not_applicable" }; // Not refundable, proceed with normal flow
+  }
+
+  // Check the payment token is supported on this network (before any on-chain work)
+  if (!registry.isSupportedToken(paymentRequirements.network, paymentRequirements.asset)) {
+    throw new UnsupportedTokenError(paymentRequirements.network, paymentRequirements.asset);
   }
 
   const factoryAddress = refundInfo.factoryAddress;
   const merchantPayouts = refundInfo.merchantPayouts;
 
-  // Check if factory exists (via code check)
+  // Reject factories outside the trust policy before touching the chain
+  assertTrustedFactory(options.trustPolicy, paymentRequirements.network, factoryAddress);
+
+  // Extract payment parameters from payload
+  const payload = paymentPayload.payload as {
+    authorization?: unknown;
+    signature?: unknown;
+  };
+
+  if (!payload.authorization || !payload.signature) {
+    // Invalid payload structure, delegate to normal flow
+    return { status: "not_applicable" };
+  }
+
+  // Validate amount, recipient, time window, asset and signature locally
+  // so doomed or underpaid deposits fail before any gas is spent
+  const validation = await validateRefundAuthorization(paymentPayload, paymentRequirements, signer);
+  if (!validation.isValid) {
+    return { status: "invalid", invalidReason: validation.invalidReason, payer: validation.payer };
+  }
+
+  const { authorization, signature } = validation;
+
+  // Parse signature - handle ERC-6492 if needed
+  let parsedSignature: string;
   try {
-    const factoryCode = await signer.getCode({ address: getAddress(factoryAddress) });
-    if (!factoryCode || factoryCode === "0x" || factoryCode.length <= 2) {
-      throw new Error(
-        `Factory contract does not exist at ${factoryAddress}. Invalid refund extension.`,
-      );
+    const erc6492Result = parseErc6492Signature(signature);
+    parsedSignature = erc6492Result.signature;
+  } catch {
+    // Not ERC-6492, use signature as-is
+    parsedSignature = signature;
+  }
+
+  // Extract signature components (v, r, s)
+  const signatureLength = parsedSignature.startsWith("0x")
+    ? parsedSignature.length - 2
+    : parsedSignature.length;
+  const isECDSA = signatureLength === 130;
+
+  if (!isECDSA) {
+    // Non-ECDSA signatures not supported
+    return { status: "not_applicable" };
+  }
+
+  // Parse signature into v, r, s
+  const parsedSig = parseSignature(parsedSignature as `0x${string}`);
+  const v = (parsedSig.v as number | undefined) ?? parsedSig.yParity ?? 0;
+  const r = parsedSig.r;
+  const s = parsedSig.s;
+
+  const network = paymentRequirements.network;
+  const cache = options.relayInfoCache ?? defaultRelayInfoCache;
+
+  // Check if factory exists (via code check, cached once found)
+  const factoryKey = getRelayInfoCacheKey("factory", network, factoryAddress);
+  if (!(await cache.get<boolean>(factoryKey))) {
+    if (!(await hasCode(signer, getAddress(factoryAddress), "factory code", options.retryPolicy))) {
+      throw new FactoryNotFoundError(factoryAddress);
     }
-  } catch (error) {
-    throw new Error(
-      `Failed to check factory contract: ${error instanceof Error ? error.message : String(error)}`,
-    );
+    await cache.set(factoryKey, true);
   }
 
   // Get proxy address from payTo
   const proxyAddress = getAddress(paymentRequirements.payTo);
 
-  // Check if relay exists (via code check) - do this FIRST before trying to read from it
-  const relayCode = await signer.getCode({ address: proxyAddress });
-  const relayExists = relayCode && relayCode !== "0x" && relayCode.length > 2;
+  // Look up merchantPayout in the extension's merchantPayouts map (used while the relay
+  // is undeployed). Keys match in any case, as in the client's integrity check
+  const extensionMerchantPayout = getMerchantPayout(merchantPayouts, proxyAddress) ?? "";
+
+  // Read relay deployment, immutables, factory relay address, merchant registration
+  // and nonce state in one batch (cached facts are not read again)
+  const state = await readRefundPreflightState(
+    signer,
+    {
+      network,
+      factoryAddress,
+      proxyAddress,
+      merchantPayout:
+        extensionMerchantPayout && extensionMerchantPayout !== zeroAddress
+          ? extensionMerchantPayout
+          : undefined,
+      asset: paymentRequirements.asset,
+      from: authorization.from,
+      nonce: authorization.nonce,
+    },
+    options,
+  );
 
   // Get merchantPayout - try from deployed proxy first, then from extension merchantPayouts map if not deployed
   let merchantPayout: string;
   let escrowAddress: string | undefined;
 
-  if (relayExists) {
-    // Relay is deployed - read merchantPayout and escrow directly from proxy
-    try {
-      merchantPayout = await readContractWithRetry<string>(signer, {
-        address: proxyAddress,
-        abi: RELAY_PROXY_ABI,
-        functionName: "MERCHANT_PAYOUT",
-        args: [],
-      });
-
-      escrowAddress = await readContractWithRetry<string>(signer, {
-        address: proxyAddress,
-        abi: RELAY_PROXY_ABI,
-        functionName: "ESCROW",
-        args: [],
-      });
-    } catch (error) {
+  if (state.relayDeployed) {
+    if (!state.relay) {
       // Proxy query failed even though code exists - might not be a refund proxy
-      return null;
+      return { status: "not_applicable" };
+    }
+    // Relay is deployed - merchantPayout and escrow come from the proxy's immutables
+    merchantPayout = state.relay.merchantPayout;
+    escrowAddress = state.relay.escrow;
+
+    // Only trust the immutables of a relay the factory deployed: any contract can claim a
+    // trusted ESCROW, so payTo must be the factory's relay address for its MERCHANT_PAYOUT
+    if (!state.expectedRelayAddress) {
+      throw new RefundRpcError("factory relay address", state.errors.expectedRelayAddress);
+    }
+    if (state.expectedRelayAddress.toLowerCase() !== proxyAddress.toLowerCase()) {
+      throw new RelayAddressMismatchError(factoryAddress, state.expectedRelayAddress, proxyAddress);
     }
   } else {
     // Relay not deployed - get merchantPayout from extension's merchantPayouts map
-    // The extension contains a map of proxyAddress -> merchantPayout
-
-    // Look up merchantPayout in the extension's merchantPayouts map
-    // Try both lowercase and original case for the proxy address
-    const proxyAddressLower = proxyAddress.toLowerCase();
-    merchantPayout = merchantPayouts[proxyAddress] || merchantPayouts[proxyAddressLower];
+    merchantPayout = extensionMerchantPayout;
 
     if (!merchantPayout || merchantPayout === zeroAddress) {
-      return null; // Not a refund payment, proceed with normal settlement
+      return { status: "not_applicable" }; // Not a refund payment, proceed with normal flow
+    }
+
+    // Verify the expected address matches what the factory would compute
+    const expectedAddress = state.expectedRelayAddress;
+    if (!expectedAddress) {
+      throw new RefundRpcError("factory relay address", state.errors.expectedRelayAddress);
+    }
+
+    // Verify addresses match (case-insensitive comparison)
+    if (expectedAddress.toLowerCase() !== proxyAddress.toLowerCase()) {
+      throw new RelayAddressMismatchError(factoryAddress, expectedAddress, proxyAddress);
     }
 
     // escrowAddress will be set after deployment
@@ -387,392 +422,1423 @@ export async function settleWithRefundHelper(
 
   // If merchantPayout is zero address, this is not a refund payment
   if (!merchantPayout || merchantPayout === zeroAddress) {
-    return null; // Not a refund payment, proceed with normal settlement
+    return { status: "not_applicable" }; // Not a refund payment, proceed with normal flow
   }
 
-  // Deploy relay on-demand if needed
-  if (!relayExists) {
-    try {
-      // First, verify the expected address matches what the factory would compute
-      const expectedAddress = await readContractWithRetry<string>(signer, {
-        address: getAddress(factoryAddress),
-        abi: FACTORY_ABI,
-        functionName: "getRelayAddress",
-        args: [getAddress(merchantPayout)],
-      });
-
-      // Verify addresses match (case-insensitive comparison)
-      if (expectedAddress.toLowerCase() !== proxyAddress.toLowerCase()) {
-        throw new Error(
-          `Address mismatch: Factory computed ${expectedAddress} but expected ${proxyAddress}. ` +
-            `This may indicate a version or CreateX address mismatch.`,
-        );
-      }
-
-      // Deploy the relay via factory
-      const txHash = await signer.writeContract({
-        address: getAddress(factoryAddress),
-        abi: FACTORY_ABI,
-        functionName: "deployRelay",
-        args: [getAddress(merchantPayout)],
-      });
-
-      // Wait for deployment transaction to be mined
-      const receipt = await signer.waitForTransactionReceipt({ hash: txHash });
-
-      // Verify transaction succeeded
-      if (receipt.status !== "success") {
-        throw new Error(`Relay deployment transaction failed: ${txHash}. Transaction reverted.`);
-      }
-
-      // Wait a bit for the code to be available (CREATE3 deployments can take a moment)
-      // Retry checking for code up to 5 times with increasing delays
-      let deployedCode: string | undefined;
-      for (let i = 0; i < 5; i++) {
-        if (i > 0) {
-          const delay = 1000 * i; // 1s, 2s, 3s, 4s
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-        deployedCode = await signer.getCode({ address: proxyAddress });
-        if (deployedCode && deployedCode !== "0x" && deployedCode.length > 2) {
-          break;
-        }
-      }
+  return {
+    status: "ready",
+    context: {
+      factoryAddress,
+      proxyAddress,
+      merchantPayout,
+      escrowAddress,
+      authorization,
+      v,
+      r,
+      s,
+      state,
+    },
+  };
+}
 
-      // Verify the contract was actually deployed at the expected address
-      // This is critical for CREATE3 deployments - the address is deterministic
-      // but we need to ensure the deployment actually happened
-      if (!deployedCode || deployedCode === "0x" || deployedCode.length <= 2) {
-        // Double-check the factory's computed address
-        const actualAddress = await readContractWithRetry<string>(signer, {
-          address: getAddress(factoryAddress),
-          abi: FACTORY_ABI,
-          functionName: "getRelayAddress",
-          args: [getAddress(merchantPayout)],
-        });
+/**
+ * Runs the read-only checks against a deployed relay and its escrow.
+ *
+ * 1. Checks the escrow against the trust policy and the network registry
+ * 2. Checks the merchant is registered with the escrow
+ * 3. Checks the proxy TOKEN matches the payment asset and ESCROW is stable
+ * 4. Checks the ERC-3009 nonce is unused
+ *
+ * @param context - The refund payment context
+ * @param escrowAddress - The relay's escrow
+ * @param paymentRequirements - The payment requirements
+ * @param signer - The EVM signer for contract reads
+ * @param options - Network registry and trust policy
+ * @throws RefundSettlementError if a check fails
+ */
+async function checkDeployedRelay(
+  context: RefundPaymentContext,
+  escrowAddress: string,
+  paymentRequirements: PaymentRequirements,
+  signer: RefundFacilitatorSigner,
+  options: VerifyWithRefundOptions,
+): Promise<void> {
+  const registry = options.registry ?? defaultRefundNetworkRegistry;
+  const { proxyAddress, merchantPayout, authorization } = context;
 
-        throw new Error(
-          `Relay deployment completed but contract code not found at ${proxyAddress}. ` +
-            `Transaction hash: ${txHash}. Factory computed address: ${actualAddress}. ` +
-            `Expected address: ${proxyAddress}. ` +
-            `This may indicate a CREATE3 deployment issue, timing problem, or address computation mismatch.`,
-        );
-      }
+  // Reject escrows outside the trust policy before executeDeposit is sent.
+  // Relays deployed at settlement come from a trusted factory, so for deployed
+  // relays this runs before any write transaction.
+  assertTrustedEscrow(options.trustPolicy, paymentRequirements.network, escrowAddress);
 
-      // Now read escrow address from the newly deployed proxy
-      escrowAddress = await readContractWithRetry<string>(signer, {
-        address: proxyAddress,
-        abi: RELAY_PROXY_ABI,
-        functionName: "ESCROW",
-        args: [],
-      });
-    } catch (error) {
-      // Check if this is an insufficient funds error
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const errorString = errorMessage.toLowerCase();
-      
-      if (
-        errorString.includes("insufficient funds") ||
-        errorString.includes("exceeds the balance") ||
-        errorString.includes("insufficient balance") ||
-        errorString.includes("the total cost") ||
-        errorString.includes("exceeds the balance of the account")
-      ) {
-        const facilitatorAddress = signer.getAddresses()[0];
-        throw new Error(
-          `Failed to deploy relay: Insufficient funds in facilitator account.\n` +
-          `The facilitator account (${facilitatorAddress}) does not have enough ETH to pay for gas to deploy the relay contract.\n` +
-          `Please fund the facilitator account with ETH to cover gas costs.\n` +
-          `Original error: ${errorMessage}`,
-        );
-      }
-      
-      throw new Error(
-        `Failed to deploy relay: ${errorMessage}`,
-      );
-    }
+  // Check the proxy's escrow is a known escrow on this network
+  if (!registry.isKnownEscrow(paymentRequirements.network, escrowAddress)) {
+    throw new UnknownEscrowError(paymentRequirements.network, escrowAddress);
   }
 
-  // At this point, escrowAddress must be set (either from reading deployed proxy or after deployment)
-  if (!escrowAddress) {
-    throw new Error("Internal error: escrowAddress not set after deployment check");
-  }
+  // A relay deployed by this settlement has no immutables or registration read yet
+  const state = context.state.relay
+    ? context.state
+    : await readRefundPreflightState(
+        signer,
+        {
+          network: paymentRequirements.network,
+          factoryAddress: context.factoryAddress,
+          proxyAddress,
+          merchantPayout,
+          asset: paymentRequirements.asset,
+          from: authorization.from,
+          nonce: authorization.nonce,
+        },
+        options,
+      );
+  context.state = state;
 
   // Check if merchant is registered
-  let isRegistered: boolean;
-  try {
-    isRegistered = await readContractWithRetry<boolean>(signer, {
-      address: getAddress(escrowAddress),
-      abi: ESCROW_ABI,
-      functionName: "registeredMerchants",
-      args: [getAddress(merchantPayout)],
-    });
-  } catch (error) {
-    throw new Error(
-      `Failed to check merchant registration: ${error instanceof Error ? error.message : String(error)}`,
-    );
+  if (state.merchantRegistered === undefined) {
+    throw new RefundRpcError("merchant registration", state.errors.merchantRegistered);
+  }
+  if (!state.merchantRegistered) {
+    throw new MerchantNotRegisteredError(merchantPayout, escrowAddress);
   }
 
-  if (!isRegistered) {
-    throw new Error(
-      `Merchant ${merchantPayout} is not registered. Please register at https://app.402r.org to enable refund functionality.`,
-    );
+  // Verify proxy can read its own immutables (this tests the _readImmutable function)
+  // This helps catch issues before attempting executeDeposit
+  if (!state.relay) {
+    // Failing to read immutables may indicate a proxy deployment issue
+    throw new RefundRpcError("proxy immutables", state.errors.relay);
   }
 
-  // Extract payment parameters from payload
-  const payload = paymentPayload.payload as {
-    authorization?: {
-      from: string;
-      to: string;
-      value: string;
-      validAfter: string;
-      validBefore: string;
-      nonce: string;
-    };
-    signature?: string;
-  };
+  // CRITICAL: Verify proxy TOKEN matches payment requirements asset
+  // If they don't match, transferWithAuthorization will fail
+  const proxyTokenNormalized = getAddress(state.relay.token);
+  const paymentAssetNormalized = getAddress(paymentRequirements.asset);
 
-  if (!payload.authorization || !payload.signature) {
-    // Invalid payload structure, delegate to normal flow
-    return null;
+  if (proxyTokenNormalized !== paymentAssetNormalized) {
+    throw new TokenMismatchError(proxyAddress, proxyTokenNormalized, paymentAssetNormalized);
   }
 
-  const { authorization, signature } = payload;
+  // Verify these match what we read earlier
+  const proxyEscrow = state.relay.escrow;
+  if (proxyEscrow.toLowerCase() !== escrowAddress.toLowerCase()) {
+    throw new EscrowMismatchError(proxyAddress, proxyEscrow, escrowAddress);
+  }
 
-  // Verify that authorization.to matches the proxy address
-  // The ERC3009 signature must have been signed with to=proxyAddress
-  const authTo = getAddress(authorization.to);
-  if (authTo !== proxyAddress) {
-    throw new Error(
-      `Authorization 'to' address (${authTo}) does not match proxy address (${proxyAddress}). ` +
-        `The ERC3009 signature must be signed with to=proxyAddress.`,
-    );
+  // Check if nonce has already been used (ERC3009 tracks this)
+  // If authorizationState doesn't exist or fails (nonceUsed unset), continue:
+  // some contracts might not implement this function
+  if (state.nonceUsed) {
+    throw new NonceUsedError(authorization.from, authorization.nonce);
   }
+}
 
-  // Verify proxy can read its own immutables (this tests the _readImmutable function)
-  // This helps catch issues before attempting executeDeposit
-  try {
-    const proxyToken = await readContractWithRetry<string>(signer, {
-      address: proxyAddress,
-      abi: RELAY_PROXY_ABI,
-      functionName: "TOKEN",
-      args: [],
-    });
+/**
+ * Builds the proxy.executeDeposit() arguments for a refund payment
+ *
+ * @param context - The refund payment context
+ * @returns The executeDeposit arguments
+ */
+function getDepositArgs(context: RefundPaymentContext) {
+  const { authorization, v, r, s } = context;
+  return [
+    getAddress(authorization.from),
+    BigInt(authorization.value),
+    BigInt(authorization.validAfter),
+    BigInt(authorization.validBefore),
+    authorization.nonce as `0x${string}`,
+    v,
+    r,
+    s,
+  ] as const;
+}
 
-    // CRITICAL: Verify proxy TOKEN matches payment requirements asset
-    // If they don't match, transferWithAuthorization will fail
-    const proxyTokenNormalized = getAddress(proxyToken);
-    const paymentAssetNormalized = getAddress(paymentRequirements.asset);
+/**
+ * Result of `preflightRefundSettlement()`
+ */
+export type RefundPreflightResult =
+  | { status: "not_applicable" }
+  | { status: "invalid"; invalidReason: RefundAuthorizationInvalidReason; payer?: string }
+  | { status: "failed"; error: RefundSettlementError; payer?: string }
+  | {
+      status: "ready";
+      payer: string;
+      /** The relay proxy (payTo) */
+      proxyAddress: string;
+      /** The relay's escrow (unset when the relay is not deployed yet) */
+      escrowAddress?: string;
+      /** Whether settlement deploys the relay first (its deployment was simulated) */
+      requiresDeployment: boolean;
+      /** Whether the next write was simulated (false when the signer has no simulateContract) */
+      simulated: boolean;
+      /** The on-chain state the checks read */
+      state: RefundPreflightState;
+    };
 
-    if (proxyTokenNormalized !== paymentAssetNormalized) {
-      const errorMsg =
-        `❌ ADDRESS MISMATCH: Proxy has ${proxyTokenNormalized} but payment requires ${paymentAssetNormalized}. ` +
-        `The proxy was deployed with the wrong address. ` +
-        `This causes transferWithAuthorization to fail. ` +
-        `Solution: Redeploy the proxy with the correct address: ${paymentAssetNormalized}`;
-      throw new Error(errorMsg);
-    }
+/**
+ * Dry-runs a refund settlement without spending gas.
+ *
+ * Runs every read-only check `settleWithRefundHelper()` runs, then simulates the next
+ * write with an eth_call from the facilitator: proxy.executeDeposit() when the relay is
+ * deployed, factory.deployRelay() when it is not (the deposit cannot be simulated against
+ * a relay that does not exist yet). The simulation is skipped when the signer has no
+ * `simulateContract`.
+ *
+ * @param paymentPayload - The payment payload containing authorization and signature
+ * @param paymentRequirements - The payment requirements containing refund extension
+ * @param signer - The EVM signer for contract reads and simulations
+ * @param options - Optional network registry and trust policy (use the same as settlement)
+ * @returns The preflight result; failures carry the typed RefundSettlementError
+ * (e.g. DepositSimulationFailedError with the decoded revert)
+ *
+ * @example
+ * ```typescript
+ * const preflight = await preflightRefundSettlement(paymentPayload, paymentRequirements, signer);
+ * if (preflight.status === "failed") {
+ *   console.log(preflight.error.code, preflight.error.message);
+ * }
+ * ```
+ */
+export async function preflightRefundSettlement(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  signer: RefundFacilitatorSigner,
+  options: VerifyWithRefundOptions = {},
+): Promise<RefundPreflightResult> {
+  const payer = (paymentPayload.payload as { authorization?: { from?: string } }).authorization
+    ?.from;
 
-    const proxyEscrow = await readContractWithRetry<string>(signer, {
-      address: proxyAddress,
-      abi: RELAY_PROXY_ABI,
-      functionName: "ESCROW",
-      args: [],
-    });
+  try {
+    const check = await checkRefundPayment(paymentPayload, paymentRequirements, signer, options);
+    if (check.status !== "ready") {
+      return check;
+    }
 
-    // Verify these match what we read earlier
-    if (proxyEscrow.toLowerCase() !== escrowAddress.toLowerCase()) {
-      throw new Error(
-        `Proxy ESCROW mismatch: proxy reports ${proxyEscrow} but we read ${escrowAddress} earlier`,
+    const { context } = check;
+    let simulated: boolean;
+    if (context.escrowAddress) {
+      await checkDeployedRelay(
+        context,
+        context.escrowAddress,
+        paymentRequirements,
+        signer,
+        options,
       );
+      simulated = await simulateDeposit(context, signer);
+    } else {
+      simulated = await simulateDeployRelay(context, signer);
     }
+
+    return {
+      status: "ready",
+      payer: context.authorization.from,
+      proxyAddress: context.proxyAddress,
+      escrowAddress: context.escrowAddress,
+      requiresDeployment: !context.escrowAddress,
+      simulated,
+      state: context.state,
+    };
   } catch (error) {
-    throw new Error(
-      `Failed to read proxy immutables. This may indicate a proxy deployment issue. ` +
-        `Error: ${error instanceof Error ? error.message : String(error)}`,
-    );
+    if (error instanceof RefundSettlementError) {
+      return { status: "failed", error, payer };
+    }
+    throw error;
   }
+}
 
-  // Parse signature - handle ERC-6492 if needed
-  let parsedSignature: string;
-  try {
-    const erc6492Result = parseErc6492Signature(signature as `0x${string}`);
-    parsedSignature = erc6492Result.signature;
-  } catch {
-    // Not ERC-6492, use signature as-is
-    parsedSignature = signature;
+/**
+ * Simulates factory.deployRelay() with an eth_call from the facilitator.
+ *
+ * @param context - The refund payment context
+ * @param signer - The EVM signer
+ * @returns False if the signer cannot simulate
+ * @throws RelayDeploySimulationFailedError if the deployment would revert
+ */
+async function simulateDeployRelay(
+  context: RefundPaymentContext,
+  signer: RefundFacilitatorSigner,
+): Promise<boolean> {
+  try {
+    return await simulateContractCall(signer, {
+      address: getAddress(context.factoryAddress),
+      abi: FACTORY_ABI,
+      functionName: "deployRelay",
+      args: [getAddress(context.merchantPayout)],
+    });
+  } catch (error) {
+    throw new RelayDeploySimulationFailedError(
+      context.factoryAddress,
+      context.merchantPayout,
+      decodeRefundRevert(error),
+      error,
+    );
   }
+}
 
-  // Extract signature components (v, r, s)
-  const signatureLength = parsedSignature.startsWith("0x")
-    ? parsedSignature.length - 2
-    : parsedSignature.length;
-  const isECDSA = signatureLength === 130;
+/**
+ * Simulates proxy.executeDeposit() with an eth_call from the facilitator.
+ * Catches token and escrow reverts (used nonce, unregistered merchant...).
+ *
+ * @param context - The refund payment context
+ * @param signer - The EVM signer
+ * @returns False if the signer cannot simulate
+ * @throws DepositSimulationFailedError if the deposit would revert
+ */
+async function simulateDeposit(
+  context: RefundPaymentContext,
+  signer: RefundFacilitatorSigner,
+): Promise<boolean> {
+  try {
+    return await simulateContractCall(signer, {
+      address: context.proxyAddress,
+      abi: RELAY_PROXY_ABI,
+      functionName: "executeDeposit",
+      args: getDepositArgs(context),
+    });
+  } catch (error) {
+    throw new DepositSimulationFailedError(context.proxyAddress, decodeRefundRevert(error), error);
+  }
+}
 
-  if (!isECDSA) {
-    // Non-ECDSA signatures not supported
-    return null;
+/**
+ * Runs a state-changing contract function as an eth_call, with the facilitator as sender,
+ * through the signer's `simulateContract`.
+ *
+ * @param signer - The EVM signer
+ * @param call - The contract call to simulate
+ * @param call.address - The contract address
+ * @param call.abi - The contract ABI
+ * @param call.functionName - The function to call
+ * @param call.args - The function arguments
+ * @returns False if the signer has no `simulateContract` (nothing was simulated)
+ */
+async function simulateContractCall(
+  signer: RefundFacilitatorSigner,
+  call: {
+    address: `0x${string}`;
+    abi: readonly unknown[];
+    functionName: string;
+    args: readonly unknown[];
+  },
+): Promise<boolean> {
+  if (!signer.simulateContract) {
+    return false;
   }
+  await signer.simulateContract({ ...call, account: signer.getAddresses()[0] });
+  return true;
+}
 
-  // Parse signature into v, r, s
-  const parsedSig = parseSignature(parsedSignature as `0x${string}`);
-  const v = (parsedSig.v as number | undefined) ?? parsedSig.yParity ?? 0;
-  const r = parsedSig.r;
-  const s = parsedSig.s;
+/**
+ * Helper for facilitator operators to verify refund payments before serving content.
+ *
+ * Runs every read-only check `settleWithRefundHelper()` runs, then simulates
+ * proxy.executeDeposit() with an eth_call, so payments that would fail at settlement
+ * (unregistered merchant, unknown relay, token mismatch, used nonce...) fail at /verify.
+ * Relays that are not deployed yet are checked up to deployment (factory, relay address,
+ * authorization) and their deployRelay is simulated; escrow checks and the deposit
+ * simulation run once the relay exists. See `preflightRefundSettlement()`. Simulations
+ * need a signer with `simulateContract`; other signers get the read-only checks only.
+ *
+ * Returns null if refund is not applicable (delegates to normal verification).
+ *
+ * @param paymentPayload - The payment payload containing authorization and signature
+ * @param paymentRequirements - The payment requirements containing refund extension
+ * @param signer - The EVM signer for contract reads
+ * @param options - Optional network registry and trust policy (use the same as settlement)
+ * @returns VerifyResponse, or null if not applicable
+ *
+ * @example
+ * ```typescript
+ * facilitator.onBeforeVerify(async (context) => {
+ *   const result = await verifyWithRefundHelper(
+ *     context.paymentPayload,
+ *     context.requirements,
+ *     signer,
+ *   );
+ *
+ *   if (result && !result.isValid) {
+ *     return { abort: true, reason: result.invalidReason! };
+ *   }
+ * });
+ * ```
+ */
+export async function verifyWithRefundHelper(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  signer: RefundFacilitatorSigner,
+  options: VerifyWithRefundOptions = {},
+): Promise<VerifyResponse | null> {
+  const preflight = await preflightRefundSettlement(
+    paymentPayload,
+    paymentRequirements,
+    signer,
+    options,
+  );
+  switch (preflight.status) {
+    case "not_applicable":
+      return null;
+    case "invalid":
+      return { isValid: false, invalidReason: preflight.invalidReason, payer: preflight.payer };
+    case "failed":
+      return preflight.error.toVerifyResponse(preflight.payer);
+    case "ready":
+      return { isValid: true, payer: preflight.payer };
+  }
+}
 
-  // Check if nonce has already been used (ERC3009 tracks this)
-  // This helps catch state issues before attempting executeDeposit
+/**
+ * Helper for facilitator operators to handle refund settlements via X402DepositRelayProxy.
+ *
+ * This function:
+ * 1. Extracts refund extension info (factory address)
+ * 2. Checks the factory against the trust policy
+ * 3. Validates the authorization locally (amount, recipient, time window, asset, signature)
+ *    and checks the factory exists
+ * 4. Reads merchantPayout and escrow directly from proxy storage
+ * 5. Deploys relay on-demand if needed (via factory), sharing one deployment between
+ *    concurrent settlements for the same relay
+ * 6. Checks token and escrow against the trust policy and network registry
+ * 7. Checks if merchant is registered
+ * 8. Calls proxy.executeDeposit() to deposit funds into escrow, retrying transient failures
+ *    per `retryPolicy` (never while an earlier broadcast is unresolved, and never after a revert)
+ *
+ * Steps 1-4, 6 and 7 are the same checks `verifyWithRefundHelper()` runs.
+ *
+ * Settlement is idempotent per authorization (network, from, nonce): a concurrent call for
+ * the same authorization in this process waits on the in-flight settlement, and with a
+ * `store` a retried or replicated call returns the stored result (or waits on the pending one)
+ * instead of sending a second executeDeposit.
+ *
+ * Returns null if refund is not applicable (delegates to normal flow).
+ * Returns a failed SettleResponse (errorReason set) if local authorization validation fails.
+ * With `returnOnBroadcast`, returns a pending SettleResponse once executeDeposit is broadcast.
+ * Throws a RefundSettlementError on any other failure (facilitator should handle in hook);
+ * its `code` identifies the failure and `toSettleResponse()` maps it to an x402 errorReason.
+ *
+ * @param paymentPayload - The payment payload containing authorization and signature
+ * @param paymentRequirements - The payment requirements containing refund extension
+ * @param signer - The EVM signer for contract interactions
+ * @param options - Optional settlement options (network registry, trust policy, settlement store)
+ * @returns SettleResponse on success, null if not applicable
+ * @throws RefundSettlementError (e.g. MerchantNotRegisteredError, TokenMismatchError,
+ * NonceUsedError, UntrustedFactoryError) on settlement failure, SettlementInProgressError
+ * if another facilitator is still settling the same authorization, or DepositUnconfirmedError
+ * if a broadcast deposit is still unconfirmed after the last retry
+ *
+ * @example
+ * ```typescript
+ * facilitator.onBeforeSettle(async (context) => {
+ *   try {
+ *     const result = await settleWithRefundHelper(
+ *       context.paymentPayload,
+ *       context.paymentRequirements,
+ *       signer,
+ *     );
+ *
+ *     if (result) {
+ *       return { abort: true, reason: 'handled_by_refund_helper' };
+ *     }
+ *   } catch (error) {
+ *     if (error instanceof RefundSettlementError) {
+ *       // Branch on error.code, or surface error.errorReason to the client
+ *       return { abort: true, reason: error.errorReason };
+ *     }
+ *     // Log error but don't abort - let normal settlement proceed
+ *     console.error('Refund helper settlement failed:', error);
+ *   }
+ *
+ *   return null; // Proceed with normal settlement
+ * });
+ * ```
+ */
+export async function settleWithRefundHelper(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  signer: RefundFacilitatorSigner,
+  options: SettleWithRefundOptions = {},
+): Promise<SettleResponse | null> {
+  const authorization = (paymentPayload.payload as { authorization?: RefundAuthorization })
+    .authorization;
+  if (
+    !authorization?.from ||
+    !authorization.nonce ||
+    !extractRefundInfo(paymentPayload, paymentRequirements)
+  ) {
+    return settleRefundPayment(paymentPayload, paymentRequirements, signer, options);
+  }
+
+  const key = getRefundSettlementKey(
+    paymentRequirements.network,
+    authorization.from,
+    authorization.nonce,
+  );
+
+  // Join an in-flight settlement of the same authorization in this process
+  const inFlight = inFlightSettlements.get(key);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const start = (onDeposit?: (transaction: string) => void) =>
+    options.store
+      ? settleWithStore(
+          options.store,
+          key,
+          paymentPayload,
+          paymentRequirements,
+          signer,
+          options,
+          onDeposit,
+        )
+      : settleRefundPayment(paymentPayload, paymentRequirements, signer, options, {
+          key,
+          onDeposit,
+        });
+
+  // The pending response stays in flight until the settlement completes in the background
+  if (options.returnOnBroadcast) {
+    const pending = settleOnBroadcast(key, authorization, paymentRequirements, options, start);
+    inFlightSettlements.set(key, pending);
+    return pending;
+  }
+
+  const settlement = start();
+  inFlightSettlements.set(key, settlement);
   try {
-    const tokenAddress = getAddress(paymentRequirements.asset);
-    const nonceUsed = await readContractWithRetry<boolean>(signer, {
-      address: tokenAddress,
-      abi: [
-        {
-          inputs: [
-            { name: "authorizer", type: "address" },
-            { name: "nonce", type: "bytes32" },
-          ],
-          name: "authorizationState",
-          outputs: [{ name: "", type: "bool" }],
-          stateMutability: "view",
-          type: "function",
-        },
-      ],
-      functionName: "authorizationState",
-      args: [getAddress(authorization.from), authorization.nonce as `0x${string}`],
-    });
+    return await settlement;
+  } catch (error) {
+    // A deposit reorged out after it was mined is reported as it is with returnOnBroadcast
+    if (error instanceof DepositReorgedError) {
+      const status = settlementStatus(key, authorization, paymentRequirements);
+      await completeSettlement(status("reverted", error.transaction, { error }), options);
+    }
+    throw error;
+  } finally {
+    inFlightSettlements.delete(key);
+  }
+}
 
-    if (nonceUsed) {
-      throw new Error(
-        `ERC3009 nonce ${authorization.nonce} has already been used. ` +
-          `This authorization cannot be reused.`,
-      );
+/**
+ * Starts a refund settlement and returns a pending SettleResponse once executeDeposit is
+ * broadcast. The settlement finishes in the background, updating the status tracker and
+ * calling `onSettlementComplete`. The caller keeps the returned promise in flight, so calls
+ * for the same authorization get the same pending response until the settlement completes.
+ *
+ * @param key - The settlement key
+ * @param authorization - The payment authorization
+ * @param paymentRequirements - The payment requirements
+ * @param options - Settlement options
+ * @param start - Starts the settlement, reporting each deposit hash once broadcast
+ * @returns The pending SettleResponse, or the result if the settlement finished first
+ */
+async function settleOnBroadcast(
+  key: string,
+  authorization: RefundAuthorization,
+  paymentRequirements: PaymentRequirements,
+  options: SettleWithRefundOptions,
+  start: (onDeposit: (transaction: string) => void) => Promise<SettleResponse | null>,
+): Promise<SettleResponse | null> {
+  const tracker = options.settlementStatusTracker ?? defaultRefundSettlementStatusTracker;
+  const status = settlementStatus(key, authorization, paymentRequirements);
+
+  let broadcastTransaction: string | undefined;
+  let onBroadcast: (transaction: string) => void = () => {};
+  const broadcast = new Promise<{ transaction: string }>(resolve => {
+    onBroadcast = transaction => resolve({ transaction });
+  });
+
+  const settlement = start(transaction => {
+    // Resubmissions replace the tracked hash
+    broadcastTransaction = transaction;
+    tracker.set(status("pending", transaction));
+    onBroadcast(transaction);
+  });
+  const first = await Promise.race([
+    broadcast,
+    settlement.then(
+      response => ({ response }),
+      error => ({ error }),
+    ),
+  ]);
+  if (!("transaction" in first)) {
+    // Finished (or failed) before broadcasting a deposit
+    inFlightSettlements.delete(key);
+    if ("error" in first) {
+      throw first.error;
     }
+    return first.response;
+  }
+
+  const pending: RefundSettleResponse = {
+    success: true,
+    transaction: first.transaction,
+    network: paymentRequirements.network,
+    payer: authorization.from,
+    extensions: { refund: { status: "pending" } },
+  };
+  void settlement
+    .then(
+      response =>
+        status(
+          response?.success ? "confirmed" : "failed",
+          response?.transaction || (broadcastTransaction ?? first.transaction),
+          { response: response ?? undefined },
+        ),
+      error =>
+        status(
+          error instanceof DepositReorgedError ? "reverted" : "failed",
+          broadcastTransaction ?? first.transaction,
+          { error },
+        ),
+    )
+    .then(final => completeSettlement(final, options))
+    .finally(() => inFlightSettlements.delete(key))
+    // Nobody awaits the background settlement
+    .catch(() => undefined);
+
+  return pending;
+}
+
+/**
+ * Builds the settlement statuses of one authorization.
+ *
+ * @param key - The settlement key
+ * @param authorization - The payment authorization
+ * @param paymentRequirements - The payment requirements
+ * @returns A function building the status for a state and deposit transaction
+ */
+function settlementStatus(
+  key: string,
+  authorization: RefundAuthorization,
+  paymentRequirements: PaymentRequirements,
+) {
+  return (
+    state: RefundSettlementState,
+    transaction: string,
+    details: Pick<RefundSettlementStatus, "response" | "error"> = {},
+  ): RefundSettlementStatus => ({
+    key,
+    state,
+    network: paymentRequirements.network,
+    payer: authorization.from,
+    nonce: authorization.nonce,
+    transaction,
+    ...details,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Records a settlement's final status and calls `onSettlementComplete`.
+ *
+ * @param final - The final status
+ * @param options - Settlement options
+ */
+async function completeSettlement(
+  final: RefundSettlementStatus,
+  options: SettleWithRefundOptions,
+): Promise<void> {
+  try {
+    (options.settlementStatusTracker ?? defaultRefundSettlementStatusTracker).set(final);
+  } catch {
+    // A custom tracker that fails must not keep the callback from running
+  }
+  try {
+    await options.onSettlementComplete?.(final);
+  } catch {
+    // The callback handles its own errors; the settlement is already final
+  }
+}
+
+/**
+ * Settles a refund payment at most once across every facilitator sharing the store.
+ *
+ * Claims the settlement key before settling. If another facilitator holds the claim,
+ * polls until its settlement is stored (and returns it), or until the claim is released
+ * after a failure (and settles). Only successful settlements are kept in the store.
+ *
+ * @param store - The settlement store
+ * @param key - The settlement key
+ * @param paymentPayload - The payment payload containing authorization and signature
+ * @param paymentRequirements - The payment requirements containing refund extension
+ * @param signer - The EVM signer for contract interactions
+ * @param options - Settlement options
+ * @param onDeposit - Called with each executeDeposit transaction hash once broadcast
+ * @returns SettleResponse, or null if not applicable
+ * @throws SettlementInProgressError if the claim is not released in time
+ */
+async function settleWithStore(
+  store: RefundSettlementStore,
+  key: string,
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  signer: RefundFacilitatorSigner,
+  options: SettleWithRefundOptions,
+  onDeposit?: (transaction: string) => void,
+): Promise<SettleResponse | null> {
+  const deadline = Date.now() + SETTLEMENT_WAIT_TIMEOUT_MS;
+  while (!(await store.claim(key))) {
+    const record = await store.get(key);
+    if (record?.status === "settled" && record.response) {
+      return record.response;
+    }
+    if (Date.now() >= deadline) {
+      throw new SettlementInProgressError(key);
+    }
+    await new Promise(resolve => setTimeout(resolve, SETTLEMENT_POLL_INTERVAL_MS));
+  }
+
+  // Journal the authorization so a crash mid-settlement can be reconciled
+  const authorization = (paymentPayload.payload as { authorization: RefundAuthorization })
+    .authorization;
+  await store.put({
+    key,
+    status: "pending",
+    updatedAt: Date.now(),
+    authorization: {
+      network: paymentRequirements.network,
+      asset: paymentRequirements.asset,
+      from: authorization.from,
+      nonce: authorization.nonce,
+      validBefore: authorization.validBefore,
+    },
+    transactions: [],
+  });
+
+  let result: SettleResponse | null;
+  try {
+    result = await settleRefundPayment(paymentPayload, paymentRequirements, signer, options, {
+      store,
+      key,
+      onDeposit,
+    });
   } catch (error) {
-    // If authorizationState doesn't exist or fails, continue
-    // Some contracts might not implement this function
+    // A broadcast deposit may still land: leave it pending for reconcilePendingSettlements()
+    if (!(error instanceof DepositUnconfirmedError)) {
+      // Release the claim so the payment can be retried
+      await store.delete(key);
+    }
+    throw error;
+  }
+
+  if (result?.success) {
+    await store.put({ key, status: "settled", response: result, updatedAt: Date.now() });
+  } else {
+    await store.delete(key);
+  }
+  return result;
+}
+
+/**
+ * Where a pending settlement journals its transactions
+ */
+interface SettlementJournal {
+  store?: RefundSettlementStore;
+  key: string;
+  /** Called with each executeDeposit (or batch) transaction hash once it is broadcast */
+  onDeposit?: (transaction: string) => void;
+}
+
+/**
+ * Journals a transaction for a pending settlement.
+ *
+ * Called once before writeContract (no hash yet) and again with the hash once it returns,
+ * so a crash at any point leaves a record `reconcilePendingSettlements()` can resolve.
+ * Deposit hashes are also reported to `onDeposit`, with or without a store.
+ *
+ * @param journal - The settlement journal (no-op when undefined)
+ * @param kind - The contract call being submitted
+ * @param hash - The transaction hash, once known
+ */
+async function journalTransaction(
+  journal: SettlementJournal | undefined,
+  kind: RefundJournaledTransaction["kind"],
+  hash?: string,
+): Promise<void> {
+  if (hash && kind !== "deployRelay") {
+    journal?.onDeposit?.(hash);
+  }
+  if (!journal?.store) {
+    return;
+  }
+
+  const record = await journal.store.get(journal.key);
+  if (!record) {
+    return;
+  }
+
+  const transactions = [...(record.transactions ?? [])];
+  const last = transactions[transactions.length - 1];
+  if (hash && last?.kind === kind && !last.hash) {
+    transactions[transactions.length - 1] = { ...last, hash };
+  } else {
+    transactions.push({ kind, hash, submittedAt: Date.now() });
+  }
+  await journal.store.put({ ...record, transactions, updatedAt: Date.now() });
+}
+
+/**
+ * Settles a refund payment through a deposit batcher.
+ *
+ * @param context - The refund payment context
+ * @param escrowAddress - The relay's escrow
+ * @param paymentRequirements - The payment requirements
+ * @param signer - The EVM signer, for the refund receipt
+ * @param batcher - The batcher the deposit is queued on
+ * @param options - Settlement options
+ * @param journal - Where to journal the batch transaction, if a store is used
+ * @returns SettleResponse once the batched deposit is confirmed
+ */
+async function settleBatchedDeposit(
+  context: RefundPaymentContext,
+  escrowAddress: string,
+  paymentRequirements: PaymentRequirements,
+  signer: RefundFacilitatorSigner,
+  batcher: RefundDepositBatcher,
+  options: SettleWithRefundOptions,
+  journal?: SettlementJournal,
+): Promise<RefundSettleResponse> {
+  const { proxyAddress, authorization } = context;
+
+  // Journaled when queued and again with the hash once the batch is broadcast
+  await journalTransaction(journal, "batchDeposit");
+  const { transaction, depositNonce } = await batcher.enqueue({
+    network: paymentRequirements.network,
+    proxyAddress,
+    args: getDepositArgs(context),
+    asset: paymentRequirements.asset,
+    escrowAddress,
+    merchantPayout: context.merchantPayout,
+    from: authorization.from,
+    nonce: authorization.nonce,
+    onBroadcast: hash => journalTransaction(journal, "batchDeposit", hash),
+  });
+
+  return getRefundSettleResponse(
+    context,
+    escrowAddress,
+    transaction,
+    paymentRequirements,
+    signer,
+    options,
+    undefined,
+    depositNonce,
+  );
+}
+
+/**
+ * Builds the SettleResponse for a confirmed deposit, with its refund receipt in
+ * `extensions.refund.receipt` when the deposit event can be read.
+ *
+ * @param context - The refund payment context
+ * @param escrowAddress - The relay's escrow
+ * @param transaction - The deposit transaction hash
+ * @param paymentRequirements - The payment requirements
+ * @param signer - The EVM signer
+ * @param options - Settlement options (retry policy)
+ * @param receipt - The deposit transaction receipt, if already fetched
+ * @param depositNonce - The escrow deposit nonce, if a batcher already matched it
+ * @returns The successful SettleResponse
+ */
+async function getRefundSettleResponse(
+  context: RefundPaymentContext,
+  escrowAddress: string,
+  transaction: string,
+  paymentRequirements: PaymentRequirements,
+  signer: RefundFacilitatorSigner,
+  options: SettleWithRefundOptions,
+  receipt?: unknown,
+  depositNonce?: bigint,
+): Promise<RefundSettleResponse> {
+  const { authorization, merchantPayout } = context;
+  const refundReceipt = await readRefundReceipt(
+    signer,
+    {
+      network: paymentRequirements.network,
+      escrowAddress,
+      payer: authorization.from,
+      merchantPayout,
+      amount: authorization.value,
+      transaction,
+      receipt,
+      depositNonce,
+    },
+    options.retryPolicy,
+  );
+
+  return {
+    success: true,
+    transaction,
+    network: paymentRequirements.network,
+    payer: authorization.from,
+    extensions: {
+      refund: refundReceipt
+        ? { status: "confirmed", receipt: refundReceipt }
+        : { status: "confirmed" },
+    },
+  };
+}
+
+/**
+ * Runs a refund settlement (checks, relay deployment and executeDeposit).
+ *
+ * @param paymentPayload - The payment payload containing authorization and signature
+ * @param paymentRequirements - The payment requirements containing refund extension
+ * @param signer - The EVM signer for contract interactions
+ * @param options - Settlement options
+ * @param journal - Where to journal submitted transactions, if a store is used
+ * @returns SettleResponse on success, null if not applicable
+ */
+async function settleRefundPayment(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  signer: RefundFacilitatorSigner,
+  options: SettleWithRefundOptions = {},
+  journal?: SettlementJournal,
+): Promise<SettleResponse | null> {
+  const check = await checkRefundPayment(paymentPayload, paymentRequirements, signer, options);
+  if (check.status === "not_applicable") {
+    return null; // Not refundable, proceed with normal settlement
+  }
+  if (check.status === "invalid") {
+    return {
+      success: false,
+      errorReason: check.invalidReason,
+      transaction: "",
+      network: paymentRequirements.network,
+      payer: check.payer,
+    };
+  }
+
+  const { context } = check;
+  const { proxyAddress, authorization } = context;
+  let escrowAddress = context.escrowAddress;
+
+  // A signer that cannot wait for the confirmation depth fails before anything is sent
+  if (!options.batcher) {
+    getConfirmationDepth(signer, paymentRequirements.network, options);
+  }
+
+  // Deploy relay on-demand if needed (the factory's relay address was checked above)
+  if (!escrowAddress) {
+    escrowAddress = await deployRelayOnce(
+      context,
+      paymentRequirements.network,
+      signer,
+      options,
+      journal,
+    );
+  }
+
+  // Check escrow, merchant registration, proxy immutables and nonce
+  await checkDeployedRelay(context, escrowAddress, paymentRequirements, signer, options);
+
+  if (options.simulate) {
+    await simulateDeposit(context, signer);
+  }
+
+  // Queue proxy.executeDeposit() for the next Multicall3 batch instead of sending it alone
+  if (options.batcher) {
+    return settleBatchedDeposit(
+      context,
+      escrowAddress,
+      paymentRequirements,
+      signer,
+      options.batcher,
+      options,
+      journal,
+    );
   }
 
-  // Call proxy.executeDeposit() with retry logic
+  // Call proxy.executeDeposit(), retrying only when it cannot double-submit
+  const policy = resolveRetryPolicy(options.retryPolicy);
+  const submitted: string[] = [];
   let lastError: unknown;
-  const maxRetries = 5;
-  
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  let unconfirmedTxHash: string | undefined;
+  // Set once a submission failed in a way that may have broadcast it without a hash
+  let mayHaveBroadcast = false;
+  const isNonceUsed = () =>
+    readContractWithRetry<boolean>(
+      signer,
+      {
+        address: getAddress(paymentRequirements.asset),
+        abi: ERC3009_ABI,
+        functionName: "authorizationState",
+        args: [getAddress(authorization.from), authorization.nonce],
+      },
+      options.retryPolicy,
+    );
+
+  for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, getRetryDelay(policy, attempt - 1)));
+
+      // An earlier submission may have landed (or reverted) in the meantime
+      const earlier = await checkSubmittedDeposits(signer, submitted);
+      if (earlier.status === "success") {
+        const receipt = await confirmDeposit(
+          context,
+          escrowAddress,
+          earlier.hash,
+          undefined,
+          paymentRequirements,
+          signer,
+          options,
+        );
+        return getRefundSettleResponse(
+          context,
+          escrowAddress,
+          earlier.hash,
+          paymentRequirements,
+          signer,
+          options,
+          receipt,
+        );
+      }
+      if (earlier.status === "reverted") {
+        lastError = new Error(`Proxy.executeDeposit transaction ${earlier.hash} reverted`);
+        unconfirmedTxHash = undefined;
+        break;
+      }
+      unconfirmedTxHash = earlier.status === "unknown" ? earlier.hash : undefined;
+
+      // Another transaction consumed the authorization, or it can no longer be used
+      const nonceUsed = await isNonceUsed();
+      if (nonceUsed && !unconfirmedTxHash) {
+        // A submission that returned no hash may be the one that used it: without its hash
+        // the deposit cannot be confirmed, so keep the claim for reconciliation
+        if (mayHaveBroadcast) {
+          throw new DepositUnconfirmedError(proxyAddress, undefined, lastError);
+        }
+        throw new NonceUsedError(authorization.from, authorization.nonce);
+      }
+      const expired = BigInt(authorization.validBefore) <= BigInt(Math.floor(Date.now() / 1000));
+      if (expired && !unconfirmedTxHash) {
+        throw new AuthorizationExpiredError(
+          authorization.from,
+          authorization.nonce,
+          authorization.validBefore,
+        );
+      }
+
+      // Never resubmit while an earlier broadcast may still be mined
+      if (unconfirmedTxHash) {
+        continue;
+      }
+    }
+
+    let txHash: string;
     try {
-      const txHash = await signer.writeContract({
+      // Journaled before and after submission
+      await journalTransaction(journal, "executeDeposit");
+      txHash = await signer.writeContract({
         address: proxyAddress,
         abi: RELAY_PROXY_ABI,
         functionName: "executeDeposit",
-        args: [
-          getAddress(authorization.from),
-          BigInt(authorization.value),
-          BigInt(authorization.validAfter),
-          BigInt(authorization.validBefore),
-          authorization.nonce as `0x${string}`,
-          v,
-          r,
-          s,
-        ],
+        args: getDepositArgs(context),
       });
-
-      // Wait for transaction confirmation
-      const receipt = await signer.waitForTransactionReceipt({ hash: txHash });
-
-      if (receipt.status !== "success") {
-        throw new Error(`Proxy.executeDeposit transaction failed: ${txHash}`);
-      }
-
-      // Return SettleResponse on success
-      return {
-        success: true,
-        transaction: txHash,
-        network: paymentRequirements.network,
-        payer: authorization.from,
-      };
     } catch (error) {
       lastError = error;
-      
-      // Don't retry on last attempt
-      if (attempt >= maxRetries) {
+      const kind = classifyDepositError(error);
+      if (isInsufficientFundsError(error) || kind === "deterministic") {
         break;
       }
-      
-      // Retry with delays: 1s, 2s, 3s, 4s, 5s
-      const delayMs = (attempt + 1) * 1000;
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      // Transient, or broadcast without a hash: authorizationState is checked before resubmitting
+      if (kind === "broadcast_unknown") {
+        mayHaveBroadcast = true;
+      }
+      continue;
+    }
+    submitted.push(txHash);
+    await journalTransaction(journal, "executeDeposit", txHash);
+
+    // Wait for transaction confirmation
+    let receipt: DepositReceipt;
+    try {
+      receipt = await signer.waitForTransactionReceipt({ hash: txHash as `0x${string}` });
+    } catch (error) {
+      // Broadcast but result unknown: checked again before the next attempt
+      lastError = error;
+      unconfirmedTxHash = txHash;
+      continue;
+    }
+
+    if (receipt.status !== "success") {
+      // Deterministic revert: resubmitting would revert the same way
+      lastError = new Error(`Proxy.executeDeposit transaction ${txHash} reverted`);
+      unconfirmedTxHash = undefined;
+      break;
     }
+
+    // Wait for the confirmation depth and check the deposit is still on chain
+    const confirmed = await confirmDeposit(
+      context,
+      escrowAddress,
+      txHash,
+      receipt,
+      paymentRequirements,
+      signer,
+      options,
+    );
+
+    // Return SettleResponse (with the refund receipt) on success
+    return getRefundSettleResponse(
+      context,
+      escrowAddress,
+      txHash,
+      paymentRequirements,
+      signer,
+      options,
+      confirmed,
+    );
   }
-  
-  // All retries exhausted, handle error
+
+  // Retries exhausted (or a deterministic failure), handle error
   const error = lastError;
-  
-  // Execution failure - throw error (don't return null)
-  // Extract more detailed error information from nested error objects
-  let errorMessage = error instanceof Error ? error.message : String(error);
-  let revertReason: string | undefined;
-
-  // Try to extract revert reason from nested error structure (viem error format)
-  if (error && typeof error === "object") {
-    const errorObj = error as Record<string, unknown>;
-
-    // Check for cause.reason (viem ContractFunctionRevertedError)
-    if (errorObj.cause && typeof errorObj.cause === "object") {
-      const cause = errorObj.cause as Record<string, unknown>;
-      if (typeof cause.reason === "string") {
-        revertReason = cause.reason;
-      }
-      // Check for cause.data which might contain encoded revert reason
-      if (cause.data && typeof cause.data === "string") {
-        // Try to decode as a string if it's a revert with reason string
-        // Revert with reason string starts with 0x08c379a0 (Error(string) selector) + offset + length + string
-        if (cause.data.startsWith("0x08c379a0")) {
-          try {
-            // Skip selector (4 bytes) + offset (32 bytes) + length (32 bytes) = 68 chars
-            const lengthHex = cause.data.slice(138, 202); // Length is at offset 68
-            const length = parseInt(lengthHex, 16);
-            const stringHex = cause.data.slice(202, 202 + length * 2);
-            const decodedReason = Buffer.from(stringHex, "hex")
-              .toString("utf8")
-              .replace(/\0/g, "");
-            if (decodedReason) {
-              revertReason = decodedReason;
-            }
-          } catch (decodeErr) {
-            // Failed to decode revert reason
-          }
-        }
+
+  if (unconfirmedTxHash) {
+    throw new DepositUnconfirmedError(proxyAddress, unconfirmedTxHash, error);
+  }
+  // A later failure (e.g. "authorization is used") may be caused by an earlier submission
+  // that was broadcast without a hash and has since landed
+  if (mayHaveBroadcast && (await isNonceUsed())) {
+    throw new DepositUnconfirmedError(proxyAddress, undefined, error);
+  }
+
+  if (isInsufficientFundsError(error)) {
+    throw new InsufficientGasFundsError(signer.getAddresses()[0], error);
+  }
+
+  // Decode the revert against the relay, escrow, factory and token ABIs
+  const revert = decodeRefundRevert(error);
+  throw new DepositFailedError(
+    proxyAddress,
+    describeFailure(error, revert),
+    { transaction: submitted[submitted.length - 1], revert },
+    error,
+  );
+}
+
+/**
+ * Deploys a relay at most once at a time per (network, factory, merchantPayout) in this process.
+ *
+ * Concurrent settlements paying the same undeployed relay share one deployRelay transaction
+ * instead of each sending their own. The settlement that sends it journals it as it goes;
+ * the others journal it once the shared deployment is done.
+ *
+ * @param context - The refund payment context (undeployed relay)
+ * @param network - The payment network
+ * @param signer - The EVM signer for contract interactions
+ * @param options - Settlement options
+ * @param journal - Where to journal the deployment, if a store is used
+ * @returns The deployed relay's escrow address
+ * @throws RelayDeployFailedError (or InsufficientGasFundsError) if the relay could not be deployed
+ */
+async function deployRelayOnce(
+  context: RefundPaymentContext,
+  network: string,
+  signer: RefundFacilitatorSigner,
+  options: SettleWithRefundOptions,
+  journal?: SettlementJournal,
+): Promise<string> {
+  const key = `${network}:${context.factoryAddress.toLowerCase()}:${context.merchantPayout.toLowerCase()}`;
+
+  const shared = inFlightDeployments.get(key);
+  if (shared) {
+    try {
+      return await shared.escrow;
+    } finally {
+      if (shared.transaction) {
+        await journalTransaction(journal, "deployRelay", shared.transaction);
       }
     }
+  }
 
-    // Check for shortMessage (viem error format)
-    if (typeof errorObj.shortMessage === "string") {
-      if (!revertReason && errorObj.shortMessage.includes("reverted")) {
-        // Try to extract from shortMessage
-        const match = errorObj.shortMessage.match(/reverted(?:[: ]+)?(.+)/i);
-        if (match && match[1]) {
-          revertReason = match[1].trim();
-        }
+  const deployment: RelayDeployment = {
+    escrow: deployRelay(context, network, signer, options, journal, transaction => {
+      deployment.transaction = transaction;
+    }).finally(() => {
+      inFlightDeployments.delete(key);
+    }),
+  };
+  inFlightDeployments.set(key, deployment);
+  return deployment.escrow;
+}
+
+/**
+ * Deploys a relay via the factory and waits for its code.
+ *
+ * A deployment that fails because the relay already exists (deployed concurrently by
+ * another facilitator) returns the existing relay's escrow instead of failing.
+ *
+ * @param context - The refund payment context (undeployed relay)
+ * @param network - The payment network
+ * @param signer - The EVM signer for contract interactions
+ * @param options - Settlement options
+ * @param journal - Where to journal the deployment, if a store is used
+ * @param onBroadcast - Called with the deployRelay transaction hash once it is sent
+ * @returns The deployed relay's escrow address
+ * @throws RelayDeployFailedError (or InsufficientGasFundsError) if the relay could not be deployed
+ */
+async function deployRelay(
+  context: RefundPaymentContext,
+  network: string,
+  signer: RefundFacilitatorSigner,
+  options: SettleWithRefundOptions,
+  journal?: SettlementJournal,
+  onBroadcast?: (transaction: string) => void,
+): Promise<string> {
+  const { factoryAddress, proxyAddress, merchantPayout } = context;
+
+  // Deployed by another facilitator since the payment was checked
+  const existing = await getDeployedRelay(signer, network, proxyAddress, options);
+  if (existing) {
+    return existing.escrow;
+  }
+
+  let deployTxHash: string | undefined;
+  try {
+    if (options.simulate) {
+      await simulateDeployRelay(context, signer);
+    }
+
+    // Deploy the relay via factory (journaled before and after submission)
+    await journalTransaction(journal, "deployRelay");
+    const txHash = await signer.writeContract({
+      address: getAddress(factoryAddress),
+      abi: FACTORY_ABI,
+      functionName: "deployRelay",
+      args: [getAddress(merchantPayout)],
+    });
+    deployTxHash = txHash;
+    onBroadcast?.(txHash);
+    await journalTransaction(journal, "deployRelay", txHash);
+
+    // Wait for deployment transaction to be mined
+    const receipt = await signer.waitForTransactionReceipt({ hash: txHash });
+
+    // Verify transaction succeeded
+    if (receipt.status !== "success") {
+      throw new RelayDeployFailedError(
+        factoryAddress,
+        merchantPayout,
+        `Relay deployment transaction ${txHash} reverted`,
+        { transaction: txHash },
+      );
+    }
+
+    // Wait a bit for the code to be available (CREATE3 deployments can take a moment)
+    // Retry checking for code up to 5 times with increasing delays
+    let deployed = false;
+    for (let i = 0; i < 5; i++) {
+      if (i > 0) {
+        const delay = 1000 * i; // 1s, 2s, 3s, 4s
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      deployed = await hasCode(signer, proxyAddress, "relay code", options.retryPolicy);
+      if (deployed) {
+        break;
       }
     }
+
+    // Verify the contract was actually deployed at the expected address
+    // This is critical for CREATE3 deployments - the address is deterministic
+    // but we need to ensure the deployment actually happened
+    if (!deployed) {
+      // Double-check the factory's computed address
+      const actualAddress = await readContractWithRetry<string>(
+        signer,
+        {
+          address: getAddress(factoryAddress),
+          abi: FACTORY_ABI,
+          functionName: "getRelayAddress",
+          args: [getAddress(merchantPayout)],
+        },
+        options.retryPolicy,
+      );
+
+      throw new RelayDeployFailedError(
+        factoryAddress,
+        merchantPayout,
+        `Relay deployment completed but contract code not found at ${proxyAddress}. ` +
+          `Factory computed address: ${actualAddress}. ` +
+          `This may indicate a CREATE3 deployment issue, timing problem, or address computation mismatch.`,
+        { transaction: txHash },
+      );
+    }
+
+    // Now read escrow address from the newly deployed proxy (caching its immutables)
+    const relay = await getDeployedRelay(signer, network, proxyAddress, options);
+    if (!relay) {
+      throw new RelayDeployFailedError(
+        factoryAddress,
+        merchantPayout,
+        `Relay code not found at ${proxyAddress} after deployment`,
+        { transaction: txHash },
+      );
+    }
+    return relay.escrow;
+  } catch (error) {
+    // A concurrent deployment of the same relay won the race: the relay exists, not a failure
+    const existing = await getDeployedRelay(signer, network, proxyAddress, options);
+    if (existing) {
+      return existing.escrow;
+    }
+
+    if (error instanceof RefundSettlementError) {
+      throw error;
+    }
+
+    if (isInsufficientFundsError(error)) {
+      throw new InsufficientGasFundsError(signer.getAddresses()[0], error);
+    }
+
+    const revert = decodeRefundRevert(error);
+    throw new RelayDeployFailedError(
+      factoryAddress,
+      merchantPayout,
+      describeFailure(error, revert),
+      { transaction: deployTxHash, revert },
+      error,
+    );
   }
+}
 
-  // Build detailed error message
-  if (revertReason && revertReason !== "execution reverted") {
-    errorMessage = `Contract reverted: ${revertReason}`;
-  } else {
-    errorMessage =
-      `Contract execution reverted (no specific revert reason available). ` +
-      `All pre-checks passed: merchant registered, nonce unused, proxy immutables readable. ` +
-      `Possible failure points in executeDeposit: ` +
-      `1) _readImmutable staticcall failing (unlikely - we can read immutables directly), ` +
-      `2) ERC3009 transferWithAuthorization failing when called through proxy (most likely), ` +
-      `3) Transfer to escrow failing, ` +
-      `4) Escrow.noteDeposit failing - POOL.supply() may be paused, asset not configured in Aave pool, or pool has restrictions. ` +
-      `Check Aave pool status and asset configuration on Base Sepolia. ` +
-      `Debugging: Use a transaction trace/debugger on the failed transaction to see exact revert point. ` +
-      `The simulation succeeds, so the contract logic is correct - this is likely an execution context issue. ` +
-      `Original error: ${errorMessage}`;
-  }
-
-  throw new Error(`Failed to execute proxy.executeDeposit: ${errorMessage}`);
+/**
+ * Waits until a successful executeDeposit has the configured number of confirmations, then
+ * checks the deposit is still on chain: its receipt is still successful, the authorization
+ * nonce is used (a deposit into an undeployed relay succeeds without using it) and the
+ * escrow holds the deposit (see `checkDepositsOnChain()`).
+ *
+ * @param context - The refund payment context
+ * @param escrowAddress - The relay's escrow
+ * @param transaction - The executeDeposit transaction hash
+ * @param receipt - The transaction's receipt, if already fetched
+ * @param paymentRequirements - The payment requirements
+ * @param signer - The EVM signer
+ * @param options - Confirmations, network registry and retry policy
+ * @returns The receipt the deposit was confirmed with
+ * @throws DepositReorgedError if the deposit is not on chain anymore, or
+ * DepositUnconfirmedError if the deposit is on chain but its transaction could not be confirmed
+ */
+async function confirmDeposit(
+  context: RefundPaymentContext,
+  escrowAddress: string,
+  transaction: string,
+  receipt: DepositReceipt | undefined,
+  paymentRequirements: PaymentRequirements,
+  signer: RefundFacilitatorSigner,
+  options: SettleWithRefundOptions,
+): Promise<DepositReceipt> {
+  const { proxyAddress, authorization, merchantPayout } = context;
+  const confirmations = getConfirmationDepth(signer, paymentRequirements.network, options);
+
+  let confirmed = confirmations > 1 ? undefined : receipt;
+  let waitError: unknown;
+  if (!confirmed) {
+    try {
+      await waitForConfirmations(signer, transaction, confirmations);
+      // Read again after the confirmation window: a reorg may have dropped or changed it
+      confirmed = await signer.waitForTransactionReceipt({ hash: transaction as `0x${string}` });
+    } catch (error) {
+      waitError = error;
+    }
+  }
+
+  if (!confirmed) {
+    // Without a receipt, the nonce tells whether the deposit is gone
+    let nonceUsed = true;
+    try {
+      nonceUsed = await readContractWithRetry<boolean>(
+        signer,
+        {
+          address: getAddress(paymentRequirements.asset),
+          abi: ERC3009_ABI,
+          functionName: "authorizationState",
+          args: [getAddress(authorization.from), authorization.nonce],
+        },
+        options.retryPolicy,
+      );
+    } catch {
+      // Unknown: reported as unconfirmed below
+    }
+    if (!nonceUsed) {
+      throw new DepositReorgedError(proxyAddress, transaction, waitError);
+    }
+    throw new DepositUnconfirmedError(proxyAddress, transaction, waitError);
+  }
+
+  const [deposit] = await checkDepositsOnChain(
+    signer,
+    confirmed,
+    [
+      {
+        asset: paymentRequirements.asset,
+        from: authorization.from,
+        nonce: authorization.nonce,
+        escrowAddress,
+        merchantPayout,
+        amount: authorization.value,
+      },
+    ],
+    options,
+  );
+  if (deposit.state === "gone") {
+    throw new DepositReorgedError(proxyAddress, transaction);
+  }
+  if (deposit.state === "unknown") {
+    throw new DepositUnconfirmedError(proxyAddress, transaction, deposit.error);
+  }
+  return confirmed;
+}
+
+/**
+ * Checks the receipts of executeDeposit transactions submitted by earlier attempts.
+ *
+ * @param signer - The EVM signer
+ * @param submitted - Transaction hashes submitted so far, oldest first
+ * @returns The first successful or reverted submission, the latest still unknown one, or none
+ */
+async function checkSubmittedDeposits(
+  signer: RefundFacilitatorSigner,
+  submitted: string[],
+): Promise<{ status: "success" | "reverted" | "unknown"; hash: string } | { status: "none" }> {
+  let unknownHash: string | undefined;
+  for (const hash of submitted) {
+    const status = await getReceiptStatus(signer, hash, RECEIPT_CHECK_TIMEOUT_MS);
+    if (status) {
+      return { status, hash };
+    }
+    unknownHash = hash;
+  }
+  return unknownHash ? { status: "unknown", hash: unknownHash } : { status: "none" };
+}
+
+/**
+ * Checks if an error is the RPC rejecting a transaction for lack of gas funds
+ *
+ * @param error - The error thrown by writeContract
+ * @returns True if the facilitator account cannot pay for the transaction
+ */
+function isInsufficientFundsError(error: unknown): boolean {
+  const errorString = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return (
+    errorString.includes("insufficient funds") ||
+    errorString.includes("exceeds the balance") ||
+    errorString.includes("insufficient balance") ||
+    errorString.includes("the total cost")
+  );
+}
+
+/**
+ * Describes a failed transaction, preferring the decoded revert over the RPC message
+ *
+ * @param error - The error thrown by the transaction
+ * @param revert - The decoded revert, if any
+ * @returns The failure description
+ */
+function describeFailure(error: unknown, revert?: DecodedRefundRevert): string {
+  if (revert) {
+    return `Contract reverted: ${revert.reason}`;
+  }
+  return error instanceof Error ? error.message : String(error);
 }
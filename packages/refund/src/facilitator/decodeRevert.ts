@@ -0,0 +1,139 @@
+/**
+ * Revert decoding for refund settlement transactions
+ *
+ * Decodes revert data from the relay, escrow, factory and ERC-3009 token ABIs,
+ * including custom errors, `Error(string)` and `Panic(uint256)`, using viem's ABI
+ * decoder so it runs in Node, browser and edge runtimes alike.
+ */
+
+import { decodeErrorResult, isHex, type Hex } from "viem";
+import { ERC3009_ABI, ESCROW_ABI, FACTORY_ABI, RELAY_PROXY_ABI } from "../abis";
+
+/**
+ * Every custom error a refund settlement can revert with
+ */
+const REFUND_ERRORS_ABI = [
+  ...RELAY_PROXY_ABI,
+  ...ESCROW_ABI,
+  ...FACTORY_ABI,
+  ...ERC3009_ABI,
+].filter(item => item.type === "error");
+
+/**
+ * Solidity panic codes (https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require)
+ */
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic underflow or overflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array encoding",
+  0x31: "pop on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "memory allocation overflow",
+  0x51: "call to uninitialized internal function",
+};
+
+/**
+ * A decoded contract revert
+ */
+export interface DecodedRefundRevert {
+  /** Error name ("Error" for require strings, "Panic" for panics, else the custom error name) */
+  errorName: string;
+  /** Decoded error arguments (empty when the selector is unknown) */
+  args: readonly unknown[];
+  /** The 4-byte error selector */
+  selector: Hex;
+  /** Human-readable reason, e.g. "MerchantNotRegistered(0xabc...)" */
+  reason: string;
+}
+
+/**
+ * Decodes the revert carried by an error thrown from a contract call.
+ *
+ * Walks the error's `cause` chain for revert data (viem's ContractFunctionRevertedError
+ * and RawContractError), then decodes it against the refund contract ABIs.
+ * Unknown selectors are still returned, with the raw selector as the reason.
+ *
+ * @param error - The error thrown by writeContract, readContract or an eth_call
+ * @returns The decoded revert, or undefined if the error carries no revert data
+ *
+ * @example
+ * ```typescript
+ * const revert = decodeRefundRevert(error);
+ * if (revert?.errorName === "MerchantNotRegistered") {
+ *   console.log("Unregistered merchant:", revert.args[0]);
+ * }
+ * ```
+ */
+export function decodeRefundRevert(error: unknown): DecodedRefundRevert | undefined {
+  const data = findRevertData(error);
+  if (!data) {
+    return undefined;
+  }
+
+  const selector = data.slice(0, 10) as Hex;
+  try {
+    const { errorName, args = [] } = decodeErrorResult({ abi: REFUND_ERRORS_ABI, data });
+    return { errorName, args, selector, reason: formatRevert(errorName, args) };
+  } catch {
+    return { errorName: "UnknownError", args: [], selector, reason: `unknown error ${selector}` };
+  }
+}
+
+/**
+ * Finds raw revert data in an error's cause chain.
+ *
+ * @param error - The error to search
+ * @returns The revert data, or undefined if none is present
+ */
+function findRevertData(error: unknown): Hex | undefined {
+  let current: unknown = error;
+  // Bounded walk in case of cyclic causes
+  for (let depth = 0; depth < 10 && current && typeof current === "object"; depth++) {
+    const { raw, data, cause } = current as { raw?: unknown; data?: unknown; cause?: unknown };
+
+    // ContractFunctionRevertedError keeps the undecoded data in `raw`
+    if (isRevertData(raw)) {
+      return raw;
+    }
+    // RawContractError carries `data` as hex or as `{ data }`
+    if (isRevertData(data)) {
+      return data;
+    }
+    if (data && typeof data === "object" && isRevertData((data as { data?: unknown }).data)) {
+      return (data as { data: Hex }).data;
+    }
+
+    current = cause;
+  }
+  return undefined;
+}
+
+/**
+ * Checks that a value is hex long enough to hold an error selector.
+ *
+ * @param value - The value to check
+ * @returns True if the value is revert data
+ */
+function isRevertData(value: unknown): value is Hex {
+  return typeof value === "string" && isHex(value) && value.length >= 10;
+}
+
+/**
+ * Formats a decoded revert as a readable reason.
+ *
+ * @param errorName - The decoded error name
+ * @param args - The decoded error arguments
+ * @returns The reason string
+ */
+function formatRevert(errorName: string, args: readonly unknown[]): string {
+  if (errorName === "Error" && typeof args[0] === "string") {
+    return args[0];
+  }
+  if (errorName === "Panic" && typeof args[0] === "bigint") {
+    const code = Number(args[0]);
+    return `Panic(0x${code.toString(16)}): ${PANIC_REASONS[code] ?? "unknown panic code"}`;
+  }
+  return `${errorName}(${args.map(arg => String(arg)).join(", ")})`;
+}
@@ -0,0 +1,368 @@
+/**
+ * Batch settlement for refund deposits
+ *
+ * Queues proxy.executeDeposit calls for a short window (or until a size limit) and submits
+ * them together as one Multicall3 `aggregate3` transaction, so many small refundable payments
+ * share one transaction's gas overhead. Each queued deposit learns its own outcome.
+ */
+
+import { encodeFunctionData, getAddress, type ContractFunctionArgs, type Hex } from "viem";
+import { MULTICALL3_ABI, RELAY_PROXY_ABI } from "../abis";
+import {
+  DepositFailedError,
+  DepositReorgedError,
+  DepositUnconfirmedError,
+  InsufficientGasFundsError,
+  RefundSettlementError,
+} from "../errors";
+import type { RefundNetworkRegistry } from "../networks";
+import type { RefundFacilitatorSigner } from "../types";
+import { decodeRefundRevert } from "./decodeRevert";
+import {
+  checkDepositsOnChain,
+  getConfirmationDepth,
+  waitForConfirmations,
+} from "./depositConfirmation";
+import { MULTICALL3_ADDRESS } from "./preflightState";
+import type { RefundRetryPolicy } from "./retryPolicy";
+
+/**
+ * Options for a RefundDepositBatcher
+ */
+export interface RefundDepositBatcherOptions {
+  /** Deposits per transaction; a full batch is submitted at once (default 50) */
+  maxBatchSize?: number;
+  /** How long the first queued deposit waits for others, in milliseconds (default 2000) */
+  maxWaitMs?: number;
+  /** Multicall3 contract the batch is sent through (defaults to the canonical deployment) */
+  multicallAddress?: string;
+  /**
+   * Blocks the batch transaction must be confirmed by before deposits are checked again.
+   * Overrides the network registry's `confirmations`. Above 1, the signer needs
+   * `getTransactionConfirmations`.
+   */
+  confirmations?: number;
+  /** Network registry for confirmation depths (defaults to `defaultRefundNetworkRegistry`) */
+  registry?: RefundNetworkRegistry;
+  /** Backoff for the reads that check each deposit */
+  retryPolicy?: Partial<RefundRetryPolicy>;
+}
+
+/**
+ * One executeDeposit call to batch
+ */
+export interface RefundBatchedDeposit {
+  /** CAIP-2 network id of the payment */
+  network: string;
+  /** The relay proxy */
+  proxyAddress: `0x${string}`;
+  /** The proxy.executeDeposit() arguments (same encoding as a direct call) */
+  args: ContractFunctionArgs<typeof RELAY_PROXY_ABI, "nonpayable", "executeDeposit">;
+  /** The payment asset (ERC-3009 token), used to check the deposit landed */
+  asset: string;
+  /** The relay's escrow, used to check it recorded the deposit */
+  escrowAddress: string;
+  /** The relay's merchant payout */
+  merchantPayout: string;
+  /** The authorizer */
+  from: string;
+  /** The authorization nonce */
+  nonce: string;
+  /** Called with the batch transaction hash once it is broadcast, before confirmation */
+  onBroadcast?: (transaction: string) => void | Promise<void>;
+}
+
+/**
+ * A confirmed batched deposit
+ */
+export interface RefundBatchedDepositResult {
+  /** The batch transaction hash */
+  transaction: string;
+  /**
+   * The escrow deposit nonce of this deposit, when the receipt holds its DepositNoted event
+   * (matched in call order, so identical deposits of one batch each get their own)
+   */
+  depositNonce?: bigint;
+}
+
+/**
+ * A queued deposit and the settlement waiting on it
+ */
+interface QueuedDeposit {
+  deposit: RefundBatchedDeposit;
+  resolve: (result: RefundBatchedDepositResult) => void;
+  reject: (error: unknown) => void;
+  /** Set once the batch receipt shows the deposit on chain */
+  depositNonce?: bigint;
+}
+
+/**
+ * Batches refund deposits into Multicall3 transactions.
+ *
+ * Before sending, the batch is simulated with an eth_call; deposits that would revert are
+ * failed individually (with the decoded revert) and left out. Calls allow failure, so one
+ * deposit reverting on-chain does not revert the others. After the receipt, each deposit's
+ * authorization nonce and escrow record tell whether it landed, and are checked again once
+ * the batch has the network's confirmation depth. Batches are sent one at a time: a batch
+ * filled while another is in flight is sent once that one is confirmed.
+ *
+ * Use one batcher per signer (network). Pass it as `batcher` to `settleWithRefundHelper()`.
+ *
+ * @example
+ * ```typescript
+ * const batcher = new RefundDepositBatcher(signer, { maxBatchSize: 100, maxWaitMs: 1000 });
+ * registerRefundExtension(facilitator, { signer, networks: "eip155:8453", batcher });
+ * ```
+ */
+export class RefundDepositBatcher {
+  private queue: QueuedDeposit[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private flushing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a RefundDepositBatcher.
+   *
+   * @param signer - The EVM signer that sends the batch transactions
+   * @param options - Batch size, wait window and Multicall3 address
+   */
+  constructor(
+    private readonly signer: RefundFacilitatorSigner,
+    private readonly options: RefundDepositBatcherOptions = {},
+  ) {}
+
+  /**
+   * Queues a deposit for the next batch.
+   *
+   * @param deposit - The executeDeposit call
+   * @returns The batch transaction hash and the deposit nonce, once the deposit is confirmed
+   * @throws DepositFailedError (or InsufficientGasFundsError) if the deposit did not land,
+   *   DepositReorgedError if it was not on chain anymore once confirmed, or
+   *   DepositUnconfirmedError if the batch was sent but could not be confirmed
+   */
+  enqueue(deposit: RefundBatchedDeposit): Promise<RefundBatchedDepositResult> {
+    return new Promise<RefundBatchedDepositResult>((resolve, reject) => {
+      // A signer that cannot wait for the confirmation depth fails before anything is sent
+      getConfirmationDepth(this.signer, deposit.network, this.options);
+      this.queue.push({ deposit, resolve, reject });
+
+      if (this.queue.length >= (this.options.maxBatchSize ?? 50)) {
+        void this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => void this.flush(), this.options.maxWaitMs ?? 2000);
+      }
+    });
+  }
+
+  /**
+   * Submits every queued deposit now, in batches of at most `maxBatchSize`, after any
+   * flush already in progress (so two batch transactions are never in flight together).
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const flushed = this.flushing.then(async () => {
+      const batchSize = this.options.maxBatchSize ?? 50;
+      while (this.queue.length > 0) {
+        const batch = this.queue.splice(0, batchSize);
+        await this.submit(batch);
+      }
+    });
+    this.flushing = flushed.catch(() => undefined);
+    return flushed;
+  }
+
+  /**
+   * Simulates, sends and checks one batch. Settles every queued promise.
+   *
+   * @param batch - The queued deposits
+   */
+  private async submit(batch: QueuedDeposit[]): Promise<void> {
+    const multicallAddress = getAddress(this.options.multicallAddress ?? MULTICALL3_ADDRESS);
+    let pending = batch;
+    let transaction: string | undefined;
+    let mined = false;
+    let confirming = false;
+
+    try {
+      // Dry run: leave out deposits that would revert, each failing with its own revert
+      const simulated = (await this.signer.readContract({
+        address: multicallAddress,
+        abi: MULTICALL3_ABI,
+        functionName: "aggregate3",
+        args: [pending.map(({ deposit }) => toCall(deposit))],
+      })) as { success: boolean; returnData: Hex }[];
+
+      pending = pending.filter((queued, i) => {
+        if (simulated[i].success) {
+          return true;
+        }
+        const revert = decodeRefundRevert({ data: simulated[i].returnData });
+        queued.reject(
+          new DepositFailedError(
+            queued.deposit.proxyAddress,
+            revert ? `Contract reverted: ${revert.reason}` : "Simulated deposit reverted",
+            { revert },
+          ),
+        );
+        return false;
+      });
+      if (pending.length === 0) {
+        return;
+      }
+
+      transaction = await this.signer.writeContract({
+        address: multicallAddress,
+        abi: MULTICALL3_ABI,
+        functionName: "aggregate3",
+        args: [pending.map(({ deposit }) => toCall(deposit))],
+      });
+      await Promise.all(pending.map(({ deposit }) => deposit.onBroadcast?.(transaction as string)));
+
+      const hash = transaction as `0x${string}`;
+      let receipt = await this.signer.waitForTransactionReceipt({ hash });
+      mined = true;
+      if (receipt.status !== "success") {
+        throw new Error(`Batch transaction ${transaction} reverted`);
+      }
+
+      // Calls may fail individually: deposits that did not land fail on their own
+      pending = await this.keepOnChain(
+        pending,
+        receipt,
+        hash,
+        ({ proxyAddress }) =>
+          new DepositFailedError(
+            proxyAddress,
+            `executeDeposit did not land in batch transaction ${transaction}`,
+            { transaction },
+          ),
+      );
+
+      const confirmations = getConfirmationDepth(
+        this.signer,
+        batch[0].deposit.network,
+        this.options,
+      );
+      if (pending.length > 0 && confirmations > 1) {
+        confirming = true;
+        await waitForConfirmations(this.signer, hash, confirmations);
+        // Read again after the confirmation window: a reorg may have dropped or changed it
+        receipt = await this.signer.waitForTransactionReceipt({ hash });
+        pending = await this.keepOnChain(
+          pending,
+          receipt,
+          hash,
+          ({ proxyAddress }) => new DepositReorgedError(proxyAddress, hash),
+        );
+      }
+
+      for (const queued of pending) {
+        queued.resolve({ transaction: hash, depositNonce: queued.depositNonce });
+      }
+    } catch (error) {
+      for (const queued of pending) {
+        queued.reject(
+          transaction && (!mined || confirming)
+            ? new DepositUnconfirmedError(queued.deposit.proxyAddress, transaction, error)
+            : toBatchError(queued.deposit, error, transaction, this.signer),
+        );
+      }
+    }
+  }
+
+  /**
+   * Checks which deposits of a mined batch are on chain, rejecting the others.
+   *
+   * @param pending - The deposits still waiting on the batch
+   * @param receipt - The batch transaction's receipt
+   * @param transaction - The batch transaction hash
+   * @param toError - The error a deposit that is not on chain is rejected with
+   * @returns The deposits that are on chain
+   */
+  private async keepOnChain(
+    pending: QueuedDeposit[],
+    receipt: { status: string },
+    transaction: string,
+    toError: (deposit: RefundBatchedDeposit) => RefundSettlementError,
+  ): Promise<QueuedDeposit[]> {
+    const states = await checkDepositsOnChain(
+      this.signer,
+      receipt,
+      pending.map(({ deposit }) => ({
+        asset: deposit.asset,
+        from: deposit.from,
+        nonce: deposit.nonce,
+        escrowAddress: deposit.escrowAddress,
+        merchantPayout: deposit.merchantPayout,
+        amount: deposit.args[1].toString(),
+      })),
+      this.options,
+    );
+
+    return pending.filter((queued, i) => {
+      const result = states[i];
+      if (result.state === "on_chain") {
+        queued.depositNonce = result.depositNonce;
+        return true;
+      }
+      queued.reject(
+        result.state === "gone"
+          ? toError(queued.deposit)
+          : new DepositUnconfirmedError(queued.deposit.proxyAddress, transaction, result.error),
+      );
+      return false;
+    });
+  }
+}
+
+/**
+ * Encodes a deposit as a Multicall3 call that may fail on its own.
+ *
+ * @param deposit - The executeDeposit call
+ * @returns The aggregate3 call
+ */
+function toCall(deposit: RefundBatchedDeposit) {
+  return {
+    target: deposit.proxyAddress,
+    allowFailure: true,
+    callData: encodeFunctionData({
+      abi: RELAY_PROXY_ABI,
+      functionName: "executeDeposit",
+      args: deposit.args,
+    }),
+  };
+}
+
+/**
+ * Maps a failure of the whole batch to the error each deposit is rejected with.
+ *
+ * @param deposit - The deposit being rejected
+ * @param error - The batch failure
+ * @param transaction - The batch transaction hash, if it was sent
+ * @param signer - The signer that sent the batch
+ * @returns The settlement error
+ */
+function toBatchError(
+  deposit: RefundBatchedDeposit,
+  error: unknown,
+  transaction: string | undefined,
+  signer: RefundFacilitatorSigner,
+): RefundSettlementError {
+  if (error instanceof RefundSettlementError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.toLowerCase().includes("insufficient funds")) {
+    return new InsufficientGasFundsError(signer.getAddresses()[0], error);
+  }
+
+  const revert = decodeRefundRevert(error);
+  return new DepositFailedError(
+    deposit.proxyAddress,
+    revert ? `Contract reverted: ${revert.reason}` : message,
+    { transaction, revert },
+    error,
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Deposit confirmation for refund settlements
+ *
+ * A successful executeDeposit receipt is not final on chains with reorgs. Settlement waits
+ * for the configured number of confirmations, then checks the deposit is still on chain:
+ * the receipt still succeeds, the authorization nonce is used and the escrow holds the
+ * deposit its DepositNoted event announced.
+ */
+
+import { getAddress, isAddressEqual, type Hex } from "viem";
+import { ERC3009_ABI, ESCROW_ABI } from "../abis";
+import { defaultRefundNetworkRegistry, type RefundNetworkRegistry } from "../networks";
+import type { RefundFacilitatorSigner } from "../types";
+import { readContractsBatched, type ContractRead } from "./preflightState";
+import { findDepositNonces } from "./refundReceipt";
+import type { RefundRetryPolicy } from "./retryPolicy";
+
+/**
+ * How often the confirmation count is polled
+ */
+const CONFIRMATION_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Longest wait for a deposit's confirmations
+ */
+const CONFIRMATION_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * A deposit to check on chain
+ */
+export interface RefundDepositRef {
+  /** The payment asset (ERC-3009 token) */
+  asset: string;
+  /** The authorizer (the user the deposit is recorded for) */
+  from: string;
+  /** The authorization nonce */
+  nonce: string;
+  /** The escrow the relay deposits into */
+  escrowAddress: string;
+  /** The merchant the deposit is for */
+  merchantPayout: string;
+  /** The deposited amount in token base units */
+  amount: string;
+}
+
+/**
+ * Whether a mined deposit is on chain
+ *
+ * - on_chain: the nonce is used and the escrow holds the deposit (with its deposit nonce
+ *   when the receipt has its DepositNoted event)
+ * - gone: the receipt reverted, the nonce is unused or the escrow has no such deposit
+ * - unknown: the state could not be read
+ */
+export type RefundDepositChainState =
+  | { state: "on_chain"; depositNonce?: bigint }
+  | { state: "gone" }
+  | { state: "unknown"; error: unknown };
+
+/**
+ * Options that set a deposit's confirmation depth
+ */
+export interface RefundConfirmationOptions {
+  /** Overrides the network registry's `confirmations` */
+  confirmations?: number;
+  /** Network registry (defaults to `defaultRefundNetworkRegistry`) */
+  registry?: RefundNetworkRegistry;
+}
+
+/**
+ * Gets the number of confirmations deposits on a network wait for.
+ *
+ * @param signer - The EVM signer
+ * @param network - The CAIP-2 network id
+ * @param options - Confirmations override and network registry
+ * @returns The confirmation depth
+ * @throws Error if the depth is above 1 and the signer has no `getTransactionConfirmations`
+ */
+export function getConfirmationDepth(
+  signer: RefundFacilitatorSigner,
+  network: string,
+  options: RefundConfirmationOptions,
+): number {
+  const registry = options.registry ?? defaultRefundNetworkRegistry;
+  const confirmations = options.confirmations ?? registry.getConfirmations(network);
+  if (confirmations > 1 && !signer.getTransactionConfirmations) {
+    throw new Error(
+      `Waiting for ${confirmations} confirmations on ${network} needs a signer with getTransactionConfirmations`,
+    );
+  }
+  return confirmations;
+}
+
+/**
+ * Waits until a mined transaction has the given number of confirmations.
+ *
+ * @param signer - The EVM signer (with `getTransactionConfirmations` for a depth above 1)
+ * @param transaction - The transaction hash
+ * @param confirmations - The confirmation depth
+ * @throws Error if the confirmations are not reached in time
+ */
+export async function waitForConfirmations(
+  signer: RefundFacilitatorSigner,
+  transaction: string,
+  confirmations: number,
+): Promise<void> {
+  if (confirmations <= 1 || !signer.getTransactionConfirmations) {
+    return;
+  }
+
+  const deadline = Date.now() + CONFIRMATION_TIMEOUT_MS;
+  const hash = transaction as `0x${string}`;
+  while ((await signer.getTransactionConfirmations({ hash })) < BigInt(confirmations)) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Transaction ${transaction} did not reach ${confirmations} confirmations`);
+    }
+    await new Promise(resolve => setTimeout(resolve, CONFIRMATION_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Checks whether mined deposits are on chain: the receipt succeeded, each authorization
+ * nonce is used and, when the receipt has logs, the escrow holds the deposit its
+ * DepositNoted event announced (`deposits(user, depositNonce)`). Events are matched to the
+ * deposits whose nonce is used one to one, in call order. Receipts without logs, and
+ * deposits without a matching event, are checked by nonce only.
+ *
+ * @param signer - The EVM signer
+ * @param receipt - The transaction receipt holding the deposits (one, or a batch)
+ * @param deposits - The deposits to check, in call order
+ * @param options - Retry policy and Multicall3 address for the reads
+ * @param options.retryPolicy - Backoff for the reads
+ * @param options.multicallAddress - Multicall3 contract used to batch the reads
+ * @returns One state per deposit, in order
+ */
+export async function checkDepositsOnChain(
+  signer: RefundFacilitatorSigner,
+  receipt: { status: string },
+  deposits: RefundDepositRef[],
+  options: { retryPolicy?: Partial<RefundRetryPolicy>; multicallAddress?: string | false } = {},
+): Promise<RefundDepositChainState[]> {
+  if (receipt.status !== "success") {
+    return deposits.map(() => ({ state: "gone" }));
+  }
+
+  const { results: nonces } = await readContractsBatched(
+    signer,
+    deposits.map(deposit => ({
+      address: getAddress(deposit.asset),
+      abi: ERC3009_ABI,
+      functionName: "authorizationState",
+      args: [getAddress(deposit.from), deposit.nonce as Hex],
+    })),
+    options,
+  );
+
+  // The escrow record of each landed deposit whose DepositNoted event is in the receipt
+  const hasLogs = Array.isArray((receipt as { logs?: unknown }).logs);
+  const landed = deposits.flatMap((deposit, i) => {
+    const nonce = nonces[i];
+    return hasLogs && nonce.success && nonce.value === true ? [i] : [];
+  });
+  const depositNonces = new Map<number, bigint | undefined>();
+  findDepositNonces(
+    receipt,
+    landed.map(i => ({ ...deposits[i], payer: deposits[i].from })),
+  ).forEach((depositNonce, j) => depositNonces.set(landed[j], depositNonce));
+  const records = new Map<number, ContractRead>();
+  deposits.forEach((deposit, i) => {
+    const depositNonce = depositNonces.get(i);
+    if (depositNonce !== undefined) {
+      records.set(i, {
+        address: getAddress(deposit.escrowAddress),
+        abi: ESCROW_ABI,
+        functionName: "deposits",
+        args: [getAddress(deposit.from), depositNonce],
+      });
+    }
+  });
+  const { results: recordResults } = await readContractsBatched(
+    signer,
+    [...records.values()],
+    options,
+  );
+  const recordsByDeposit = new Map([...records.keys()].map((i, j) => [i, recordResults[j]]));
+
+  return deposits.map((deposit, i): RefundDepositChainState => {
+    const nonce = nonces[i];
+    if (!nonce.success) {
+      return { state: "unknown", error: nonce.error };
+    }
+    if (nonce.value !== true) {
+      return { state: "gone" };
+    }
+    if (!hasLogs) {
+      return { state: "on_chain" };
+    }
+
+    const record = recordsByDeposit.get(i);
+    if (!record) {
+      // No DepositNoted event matched (e.g. the escrow emits another signature): the used
+      // nonce is all there is to go on
+      return { state: "on_chain" };
+    }
+    if (!record.success) {
+      return { state: "unknown", error: record.error };
+    }
+    const [, , , merchantPayout] = record.value as readonly [bigint, bigint, bigint, string];
+    return isAddressEqual(getAddress(merchantPayout), getAddress(deposit.merchantPayout))
+      ? { state: "on_chain", depositNonce: depositNonces.get(i) }
+      : { state: "gone" };
+  });
+}
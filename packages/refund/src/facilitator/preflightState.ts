@@ -0,0 +1,474 @@
+/**
+ * Batched preflight reads for refund settlements
+ *
+ * Reads the on-chain state a refund settlement checks (relay immutables, the factory's
+ * relay address for the relay's merchant, merchant registration and the authorization
+ * nonce) in as few round trips as possible: through Multicall3 when the chain has it,
+ * else as parallel individual calls.
+ */
+
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { decodeFunctionResult, encodeFunctionData, getAddress, type Abi, type Hex } from "viem";
+import { ERC3009_ABI, ESCROW_ABI, FACTORY_ABI, MULTICALL3_ABI, RELAY_PROXY_ABI } from "../abis";
+import type { VerifyWithRefundOptions } from "../types";
+import { RefundRpcError } from "../errors";
+import {
+  defaultRelayInfoCache,
+  getRelayInfoCacheKey,
+  type RelayImmutables,
+} from "./relayInfoCache";
+import {
+  isTransientRpcError,
+  readContractWithRetry,
+  withRpcRetry,
+  type RefundRetryPolicy,
+} from "./retryPolicy";
+
+/**
+ * Canonical Multicall3 deployment (same address on most EVM chains)
+ */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/**
+ * Default time a merchant's escrow registration stays cached
+ */
+const DEFAULT_MERCHANT_REGISTRATION_TTL_MS = 60_000;
+
+/**
+ * A preflight read that can fail on its own
+ */
+export type RefundPreflightRead =
+  "relay" | "expectedRelayAddress" | "merchantRegistered" | "nonceUsed";
+
+/**
+ * On-chain state read before a refund settlement
+ */
+export interface RefundPreflightState {
+  network: string;
+  factoryAddress: string;
+  /** The relay proxy (payTo) */
+  proxyAddress: string;
+  /** Whether the relay has code */
+  relayDeployed: boolean;
+  /** Relay immutables (deployed relays) */
+  relay?: RelayImmutables;
+  /**
+   * The factory's relay address for the relay's merchant: its MERCHANT_PAYOUT when deployed,
+   * else the extension's merchant. Differs from `proxyAddress` if the factory did not deploy it.
+   */
+  expectedRelayAddress?: string;
+  /** Whether the merchant is registered with the relay's escrow (deployed relays) */
+  merchantRegistered?: boolean;
+  /** Whether the ERC-3009 authorization nonce is used (unset if the token has no authorizationState) */
+  nonceUsed?: boolean;
+  /** Whether the reads were batched through Multicall3 */
+  multicall: boolean;
+  /** Errors of the reads that failed */
+  errors: Partial<Record<RefundPreflightRead, unknown>>;
+}
+
+/**
+ * What to read for a refund settlement
+ */
+export interface RefundPreflightParams {
+  network: string;
+  factoryAddress: string;
+  proxyAddress: `0x${string}`;
+  /** The merchant from the refund extension (needed for undeployed relays) */
+  merchantPayout?: string;
+  /** The payment asset (ERC-3009 token) */
+  asset: string;
+  /** The authorizer */
+  from: string;
+  /** The authorization nonce */
+  nonce: string;
+}
+
+/**
+ * A contract read to batch
+ */
+export interface ContractRead {
+  address: `0x${string}`;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+}
+
+/**
+ * Outcome of one batched contract read
+ */
+export type ContractReadResult =
+  { success: true; value: unknown } | { success: false; error: unknown };
+
+/**
+ * Reads the preflight state for a refund settlement.
+ *
+ * Relay immutables, relay addresses and merchant registration come from the relay info
+ * cache when present. The rest is read in one batch (plus one more for the relay address and
+ * registration of a relay whose immutables were not known yet), so a failed read is
+ * recorded in `errors` instead of failing the others.
+ *
+ * @param signer - The EVM signer for contract reads
+ * @param params - The relay, merchant and authorization to read
+ * @param options - Cache, retry policy and Multicall3 address
+ * @returns The preflight state
+ *
+ * @example
+ * ```typescript
+ * const state = await readRefundPreflightState(signer, {
+ *   network: "eip155:84532",
+ *   factoryAddress: "0xFactory...",
+ *   proxyAddress: "0xRelay...",
+ *   asset: "0xUSDC...",
+ *   from: authorization.from,
+ *   nonce: authorization.nonce,
+ * });
+ * console.log(state.relayDeployed, state.merchantRegistered, state.nonceUsed);
+ * ```
+ */
+export async function readRefundPreflightState(
+  signer: FacilitatorEvmSigner,
+  params: RefundPreflightParams,
+  options: VerifyWithRefundOptions = {},
+): Promise<RefundPreflightState> {
+  const { network, factoryAddress, proxyAddress, merchantPayout } = params;
+  const cache = options.relayInfoCache ?? defaultRelayInfoCache;
+  const state: RefundPreflightState = {
+    network,
+    factoryAddress,
+    proxyAddress,
+    relayDeployed: false,
+    multicall: false,
+    errors: {},
+  };
+
+  const relayKey = getRelayInfoCacheKey("relay", network, proxyAddress);
+  state.relay = await cache.get<RelayImmutables>(relayKey);
+  state.relayDeployed =
+    !!state.relay || (await hasCode(signer, proxyAddress, "relay code", options.retryPolicy));
+
+  const reads: ContractRead[] = [
+    {
+      address: getAddress(params.asset),
+      abi: ERC3009_ABI,
+      functionName: "authorizationState",
+      args: [getAddress(params.from), params.nonce as Hex],
+    },
+  ];
+
+  const readImmutables = state.relayDeployed && !state.relay;
+  if (readImmutables) {
+    for (const functionName of ["MERCHANT_PAYOUT", "ESCROW", "TOKEN"]) {
+      reads.push({ address: proxyAddress, abi: RELAY_PROXY_ABI, functionName, args: [] });
+    }
+  }
+
+  // The factory's relay address for the relay's own merchant once deployed (so a contract
+  // the factory did not deploy is caught), else for the extension's merchant
+  const relayMerchant = state.relayDeployed ? state.relay?.merchantPayout : merchantPayout;
+  if (relayMerchant) {
+    state.expectedRelayAddress = await cache.get<string>(
+      getRelayAddressKey(network, factoryAddress, relayMerchant),
+    );
+  }
+  const readRelayAddress = !!relayMerchant && !state.expectedRelayAddress;
+  if (readRelayAddress && relayMerchant) {
+    reads.push(getRelayAddressRead(factoryAddress, relayMerchant));
+  }
+
+  // Merchant registration: a positive answer is cached for a limited time
+  if (state.relay && (await cache.get<boolean>(getRegistrationKey(network, state.relay)))) {
+    state.merchantRegistered = true;
+  }
+  const readRegistration = !!state.relay && !state.merchantRegistered;
+  if (readRegistration && state.relay) {
+    reads.push(getRegistrationRead(state.relay));
+  }
+
+  const { results, multicall } = await readContractsBatched(signer, reads, options);
+  state.multicall = multicall;
+
+  const [nonceResult, ...rest] = results;
+  if (nonceResult.success) {
+    state.nonceUsed = nonceResult.value as boolean;
+  } else {
+    state.errors.nonceUsed = nonceResult.error;
+  }
+
+  if (readImmutables) {
+    const [merchant, escrow, token] = rest.splice(0, 3);
+    if (merchant.success && escrow.success && token.success) {
+      state.relay = {
+        merchantPayout: merchant.value as string,
+        escrow: escrow.value as string,
+        token: token.value as string,
+      };
+      // Immutables never change once the relay is deployed
+      await cache.set(relayKey, state.relay);
+    } else {
+      state.errors.relay = [merchant, escrow, token].find(
+        (result): result is { success: false; error: unknown } => !result.success,
+      )?.error;
+    }
+  }
+
+  let relayAddress = readRelayAddress ? rest.shift() : undefined;
+  let registration = readRegistration ? rest.shift() : undefined;
+
+  // The merchant and escrow were only just read: read the factory's relay address and the
+  // registration in a second round
+  if (readImmutables && state.relay) {
+    const { relay } = state;
+    state.expectedRelayAddress = await cache.get<string>(
+      getRelayAddressKey(network, factoryAddress, relay.merchantPayout),
+    );
+    state.merchantRegistered = (await cache.get<boolean>(getRegistrationKey(network, relay)))
+      ? true
+      : undefined;
+
+    const second: ContractRead[] = [];
+    if (!state.expectedRelayAddress) {
+      second.push(getRelayAddressRead(factoryAddress, relay.merchantPayout));
+    }
+    if (!state.merchantRegistered) {
+      second.push(getRegistrationRead(relay));
+    }
+    const { results: secondResults } = await readContractsBatched(signer, second, options);
+    relayAddress = state.expectedRelayAddress ? undefined : secondResults.shift();
+    registration = state.merchantRegistered ? undefined : secondResults.shift();
+  }
+
+  if (relayAddress?.success) {
+    state.expectedRelayAddress = relayAddress.value as string;
+    const relayMerchantPayout = state.relay?.merchantPayout ?? merchantPayout;
+    if (relayMerchantPayout) {
+      // The factory's relay address for a merchant never changes
+      await cache.set(
+        getRelayAddressKey(network, factoryAddress, relayMerchantPayout),
+        state.expectedRelayAddress,
+      );
+    }
+  } else if (relayAddress) {
+    state.errors.expectedRelayAddress = relayAddress.error;
+  }
+
+  if (registration?.success) {
+    state.merchantRegistered = registration.value as boolean;
+    const ttlMs = options.merchantRegistrationTtlMs ?? DEFAULT_MERCHANT_REGISTRATION_TTL_MS;
+    if (state.merchantRegistered && ttlMs > 0 && state.relay) {
+      await cache.set(getRegistrationKey(network, state.relay), true, ttlMs);
+    }
+  } else if (registration) {
+    state.errors.merchantRegistered = registration.error;
+  }
+
+  return state;
+}
+
+/**
+ * Builds the escrow registeredMerchants read for a relay's merchant.
+ *
+ * @param relay - The relay immutables
+ * @returns The contract read
+ */
+function getRegistrationRead(relay: RelayImmutables): ContractRead {
+  return {
+    address: getAddress(relay.escrow),
+    abi: ESCROW_ABI,
+    functionName: "registeredMerchants",
+    args: [getAddress(relay.merchantPayout)],
+  };
+}
+
+/**
+ * Builds the factory getRelayAddress read for a merchant.
+ *
+ * @param factoryAddress - The factory
+ * @param merchantPayout - The merchant payout address
+ * @returns The contract read
+ */
+function getRelayAddressRead(factoryAddress: string, merchantPayout: string): ContractRead {
+  return {
+    address: getAddress(factoryAddress),
+    abi: FACTORY_ABI,
+    functionName: "getRelayAddress",
+    args: [getAddress(merchantPayout)],
+  };
+}
+
+/**
+ * Builds the cache key of the factory's relay address for a merchant.
+ *
+ * @param network - The payment network
+ * @param factoryAddress - The factory
+ * @param merchantPayout - The merchant payout address
+ * @returns The cache key
+ */
+function getRelayAddressKey(network: string, factoryAddress: string, merchantPayout: string) {
+  return getRelayInfoCacheKey("relayAddress", network, factoryAddress, merchantPayout);
+}
+
+/**
+ * Builds the cache key of a merchant's registration with a relay's escrow.
+ *
+ * @param network - The payment network
+ * @param relay - The relay immutables
+ * @returns The cache key
+ */
+function getRegistrationKey(network: string, relay: RelayImmutables): string {
+  return getRelayInfoCacheKey("registered", network, relay.escrow, relay.merchantPayout);
+}
+
+/**
+ * Gets a relay's immutables if it is deployed, from the cache when possible.
+ *
+ * @param signer - The EVM signer
+ * @param network - The payment network
+ * @param proxyAddress - The relay proxy
+ * @param options - Settlement options (cache, retry policy)
+ * @returns The relay immutables, or undefined if no relay is deployed at the address
+ * @throws RefundRpcError if the relay's code or immutables cannot be read
+ */
+export async function getDeployedRelay(
+  signer: FacilitatorEvmSigner,
+  network: string,
+  proxyAddress: `0x${string}`,
+  options: VerifyWithRefundOptions,
+): Promise<RelayImmutables | undefined> {
+  const cache = options.relayInfoCache ?? defaultRelayInfoCache;
+  const key = getRelayInfoCacheKey("relay", network, proxyAddress);
+  const cached = await cache.get<RelayImmutables>(key);
+  if (cached) {
+    return cached;
+  }
+
+  // Undeployed relays are not cached: they may be deployed at any time
+  if (!(await hasCode(signer, proxyAddress, "relay code", options.retryPolicy))) {
+    return undefined;
+  }
+
+  const { results } = await readContractsBatched(
+    signer,
+    ["MERCHANT_PAYOUT", "ESCROW", "TOKEN"].map(functionName => ({
+      address: proxyAddress,
+      abi: RELAY_PROXY_ABI,
+      functionName,
+      args: [],
+    })),
+    options,
+  );
+  const [merchant, escrow, token] = results;
+  for (const result of results) {
+    if (!result.success) {
+      throw new RefundRpcError("proxy immutables", result.error);
+    }
+  }
+
+  const relay: RelayImmutables = {
+    merchantPayout: (merchant as { value: string }).value,
+    escrow: (escrow as { value: string }).value,
+    token: (token as { value: string }).value,
+  };
+  await cache.set(key, relay);
+  return relay;
+}
+
+/**
+ * Checks whether an address has contract code, retrying transient RPC errors.
+ *
+ * @param signer - The EVM signer
+ * @param address - The address to check
+ * @param operation - What is being read, for the error (e.g. "factory code")
+ * @param retryPolicy - The retry policy
+ * @returns True if code is deployed at the address
+ * @throws RefundRpcError if the code cannot be read
+ */
+export async function hasCode(
+  signer: FacilitatorEvmSigner,
+  address: `0x${string}`,
+  operation: string,
+  retryPolicy?: Partial<RefundRetryPolicy>,
+): Promise<boolean> {
+  let code: `0x${string}` | undefined;
+  try {
+    code = await withRpcRetry(() => signer.getCode({ address }), retryPolicy);
+  } catch (error) {
+    throw new RefundRpcError(operation, error);
+  }
+  return !!code && code !== "0x" && code.length > 2;
+}
+
+/**
+ * Runs contract reads through Multicall3 (aggregate3, failures allowed per call), falling back
+ * to parallel individual reads when Multicall3 is disabled, missing or fails.
+ *
+ * @param signer - The EVM signer
+ * @param reads - The reads to run
+ * @param options - Retry policy and Multicall3 address
+ * @returns One result per read, in order, and whether Multicall3 was used
+ */
+export async function readContractsBatched(
+  signer: FacilitatorEvmSigner,
+  reads: ContractRead[],
+  options: VerifyWithRefundOptions,
+): Promise<{ results: ContractReadResult[]; multicall: boolean }> {
+  const multicallAddress = options.multicallAddress ?? MULTICALL3_ADDRESS;
+
+  if (reads.length > 1 && multicallAddress) {
+    try {
+      const returnData = await readContractWithRetry<{ success: boolean; returnData: Hex }[]>(
+        signer,
+        {
+          address: getAddress(multicallAddress),
+          abi: MULTICALL3_ABI,
+          functionName: "aggregate3",
+          args: [
+            reads.map(read => ({
+              target: read.address,
+              allowFailure: true,
+              callData: encodeFunctionData(read),
+            })),
+          ],
+        },
+        options.retryPolicy,
+      );
+
+      const results = reads.map((read, i): ContractReadResult => {
+        const { success, returnData: data } = returnData[i];
+        if (!success) {
+          // Carries the revert data so decodeRefundRevert() can decode it
+          return {
+            success: false,
+            error: Object.assign(new Error(`${read.functionName} reverted`), { data }),
+          };
+        }
+        try {
+          return { success: true, value: decodeFunctionResult({ ...read, data }) };
+        } catch (error) {
+          return { success: false, error };
+        }
+      });
+      return { results, multicall: true };
+    } catch (error) {
+      // Rate limited or down: individual reads would fail the same way
+      if (isTransientRpcError(error)) {
+        return { results: reads.map(() => ({ success: false, error })), multicall: true };
+      }
+      // No Multicall3 on this chain (or a different deployment): read one by one
+    }
+  }
+
+  const results = await Promise.all(
+    reads.map(async (read): Promise<ContractReadResult> => {
+      try {
+        return {
+          success: true,
+          value: await readContractWithRetry(signer, read, options.retryPolicy),
+        };
+      } catch (error) {
+        return { success: false, error };
+      }
+    }),
+  );
+  return { results, multicall: false };
+}
@@ -0,0 +1,243 @@
+/**
+ * Crash recovery for refund settlements
+ *
+ * Resolves settlements left pending in a RefundSettlementStore by a facilitator that
+ * stopped between submitting a transaction and recording its result.
+ */
+
+import type { Network } from "@x402/core/types";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { getAddress } from "viem";
+import { ERC3009_ABI } from "../abis";
+import { readContractWithRetry, type RefundRetryPolicy } from "./retryPolicy";
+import type { RefundSettlementRecord, RefundSettlementStore } from "./settlementStore";
+
+/**
+ * What reconciliation decided for a pending settlement
+ *
+ * - confirmed: the deposit happened; the record now holds a successful SettleResponse
+ * - reverted: the deposit transaction reverted and the authorization is unused; the claim is released
+ * - retryable: no deposit happened (or can happen anymore); the claim is released
+ * - pending: a submitted deposit is still unresolved, the record may belong to a live
+ *   settlement, or it could not be checked; the record is left for a later run
+ */
+export type RefundReconciliationOutcome = "confirmed" | "reverted" | "retryable" | "pending";
+
+/**
+ * Result of reconciling one pending settlement
+ */
+export interface RefundReconciliationResult {
+  /** The settlement key */
+  key: string;
+  outcome: RefundReconciliationOutcome;
+  /** The last journaled executeDeposit transaction hash, if any */
+  transaction?: string;
+  /** The error that kept the record from being checked (outcome "pending") */
+  error?: unknown;
+}
+
+/**
+ * Options for `reconcilePendingSettlements()`
+ */
+export interface ReconcileOptions {
+  /** How long to wait for each journaled transaction's receipt (default 30s) */
+  receiptTimeoutMs?: number;
+  /** Current unix time in seconds, for the expiry and staleness checks (defaults to Date.now()) */
+  now?: number;
+  /**
+   * How long (ms) a pending record with no submitted deposit must go without updates before
+   * its claim is released (default 5 minutes). Younger records may belong to a settlement
+   * another facilitator is still running.
+   */
+  staleAfterMs?: number;
+  /** Backoff for the `authorizationState` reads */
+  retryPolicy?: Partial<RefundRetryPolicy>;
+}
+
+/**
+ * Default time to wait for a journaled transaction's receipt
+ */
+const DEFAULT_RECEIPT_TIMEOUT_MS = 30_000;
+
+/**
+ * Default time a pending record without a submitted deposit must be idle before it is released
+ */
+const DEFAULT_STALE_AFTER_MS = 5 * 60_000;
+
+/**
+ * Reconciles every pending settlement in a store. Run it at startup, before serving /settle.
+ *
+ * For each pending record, checks the receipt of the last journaled executeDeposit and the
+ * ERC-3009 `authorizationState` of the journaled authorization:
+ * - The nonce is used: confirmed (stored as settled). A successful receipt alone is not
+ *   enough, the same rule settlement applies before reporting a deposit as confirmed
+ * - Deposit receipt found (reverted, or succeeded without using the nonce, as a batch does
+ *   when its deposit call failed) and the nonce is unused: reverted (claim released)
+ * - The authorization expired unused, or no deposit was submitted and the record has not been
+ *   updated for `staleAfterMs`: retryable (claim released)
+ * - Otherwise: pending (left as is). Records that fail to be checked (e.g. RPC errors) are
+ *   also left pending, with the error in the result
+ *
+ * @param signer - The EVM signer used to read receipts and authorization state
+ * @param store - The settlement store holding the journal
+ * @param options - Receipt timeout, current time, staleness window and read backoff
+ * @returns One result per pending settlement
+ *
+ * @example
+ * ```typescript
+ * const store = new FileRefundSettlementStore("./refund-settlements.jsonl");
+ * const results = await reconcilePendingSettlements(signer, store);
+ * for (const { key, outcome } of results) {
+ *   console.log(`Settlement ${key}: ${outcome}`);
+ * }
+ * ```
+ */
+export async function reconcilePendingSettlements(
+  signer: FacilitatorEvmSigner,
+  store: RefundSettlementStore,
+  options: ReconcileOptions = {},
+): Promise<RefundReconciliationResult[]> {
+  const records = await store.list();
+  const results: RefundReconciliationResult[] = [];
+
+  for (const record of records) {
+    if (record.status !== "pending") {
+      continue;
+    }
+    try {
+      results.push(await reconcileSettlement(signer, store, record, options));
+    } catch (error) {
+      // Leave the record for a later run instead of failing the others
+      results.push({ key: record.key, outcome: "pending", error });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Reconciles one pending settlement.
+ *
+ * @param signer - The EVM signer used to read receipts and authorization state
+ * @param store - The settlement store holding the journal
+ * @param record - The pending record
+ * @param options - Receipt timeout, current time, staleness window and read backoff
+ * @returns The reconciliation result
+ */
+async function reconcileSettlement(
+  signer: FacilitatorEvmSigner,
+  store: RefundSettlementStore,
+  record: RefundSettlementRecord,
+  options: ReconcileOptions,
+): Promise<RefundReconciliationResult> {
+  const { key, authorization } = record;
+  const nowMs = options.now !== undefined ? options.now * 1000 : Date.now();
+  const stale = nowMs - record.updatedAt >= (options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS);
+
+  // Claimed but nothing journaled yet: nothing was submitted, but a live settlement may be
+  // about to journal its authorization
+  if (!authorization) {
+    if (!stale) {
+      return { key, outcome: "pending" };
+    }
+    await store.delete(key);
+    return { key, outcome: "retryable" };
+  }
+
+  const deposits = (record.transactions ?? []).filter(tx => tx.kind !== "deployRelay");
+  const lastDeposit = deposits[deposits.length - 1];
+  const submitted = [...deposits].reverse().find(tx => tx.hash);
+  const transaction = submitted?.hash;
+
+  const receiptStatus = transaction
+    ? await getReceiptStatus(
+        signer,
+        transaction,
+        options.receiptTimeoutMs ?? DEFAULT_RECEIPT_TIMEOUT_MS,
+      )
+    : undefined;
+
+  const nonceUsed = await readContractWithRetry<boolean>(
+    signer,
+    {
+      address: getAddress(authorization.asset),
+      abi: ERC3009_ABI,
+      functionName: "authorizationState",
+      args: [getAddress(authorization.from), authorization.nonce as `0x${string}`],
+    },
+    options.retryPolicy,
+  );
+
+  // Only the nonce proves the deposit: a batch transaction (or a non-standard token) can
+  // succeed without using it
+  if (nonceUsed) {
+    await store.put({
+      key,
+      status: "settled",
+      response: {
+        success: true,
+        transaction: transaction ?? "",
+        network: authorization.network as Network,
+        payer: authorization.from,
+      },
+      updatedAt: Date.now(),
+    });
+    return { key, outcome: "confirmed", transaction };
+  }
+
+  const expired = BigInt(authorization.validBefore) <= BigInt(Math.floor(nowMs / 1000));
+
+  // The last submission was mined without using the nonce (reverted, or its batched call
+  // failed): the unused authorization can be settled again
+  if (receiptStatus && lastDeposit?.hash === transaction) {
+    await store.delete(key);
+    return { key, outcome: "reverted", transaction };
+  }
+
+  // Nothing can land anymore once the authorization expired. Nothing was submitted for a
+  // record idle past the staleness window; a younger one may belong to a live settlement
+  if (expired || (!lastDeposit && stale)) {
+    await store.delete(key);
+    return { key, outcome: "retryable", transaction };
+  }
+
+  // A deposit may still be in the mempool (unknown hash or no receipt yet), or a live
+  // settlement has not submitted one yet
+  return { key, outcome: "pending", transaction };
+}
+
+/**
+ * Gets a transaction's receipt status, waiting at most the given time.
+ * Also used by settlement to check earlier executeDeposit submissions before retrying.
+ *
+ * @param signer - The EVM signer
+ * @param hash - The transaction hash
+ * @param timeoutMs - How long to wait for the receipt
+ * @returns The receipt status, or undefined if no receipt arrived in time
+ */
+export async function getReceiptStatus(
+  signer: FacilitatorEvmSigner,
+  hash: string,
+  timeoutMs: number,
+): Promise<"success" | "reverted" | undefined> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<undefined>(resolve => {
+    timer = setTimeout(() => resolve(undefined), timeoutMs);
+  });
+
+  try {
+    const receipt = await Promise.race([
+      signer.waitForTransactionReceipt({ hash: hash as `0x${string}` }),
+      timeout,
+    ]);
+    if (!receipt) {
+      return undefined;
+    }
+    return receipt.status === "success" ? "success" : "reverted";
+  } catch {
+    // Dropped or unknown transaction
+    return undefined;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Refund receipts for settled refund payments
+ *
+ * Reads the escrow deposit a settlement created from its transaction receipt (the escrow's
+ * DepositNoted event), then the recorded deposit from `deposits(user, depositNonce)`, so
+ * the buyer gets the escrow and deposit nonce needed to ask for a refund.
+ */
+
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { decodeEventLog, getAddress, isAddressEqual, type Hex } from "viem";
+import { ESCROW_ABI } from "../abis";
+import type { RefundReceipt } from "../types";
+import { readContractWithRetry, type RefundRetryPolicy } from "./retryPolicy";
+
+/**
+ * The deposit a refund receipt is read for
+ */
+export interface RefundReceiptParams {
+  network: string;
+  /** The escrow the relay deposits into */
+  escrowAddress: string;
+  /** The payer (the user the deposit is recorded for) */
+  payer: string;
+  /** The merchant the deposit is for */
+  merchantPayout: string;
+  /** The deposited amount in token base units */
+  amount: string;
+  /** The executeDeposit (or batch) transaction hash */
+  transaction: string;
+  /** The transaction receipt, if already fetched */
+  receipt?: unknown;
+  /**
+   * The escrow deposit nonce, if already matched to this deposit. A batch transaction can
+   * hold identical deposits (same payer, merchant and amount) that only the batch tells apart.
+   */
+  depositNonce?: bigint;
+}
+
+/**
+ * The fields a deposit's DepositNoted event is matched on
+ */
+export type DepositEventParams = Pick<
+  RefundReceiptParams,
+  "escrowAddress" | "payer" | "merchantPayout" | "amount"
+>;
+
+/**
+ * Log fields of a viem transaction receipt
+ */
+interface ReceiptLog {
+  address: string;
+  topics: [Hex, ...Hex[]];
+  data: Hex;
+}
+
+/**
+ * Reads the refund receipt for a confirmed deposit.
+ *
+ * Uses `params.depositNonce` when given, or else finds the escrow's DepositNoted event for
+ * the payer, merchant and amount in the transaction receipt, then reads the recorded deposit
+ * for its timestamp. The settlement already succeeded, so a receipt that cannot be
+ * read (signer receipts without logs, RPC errors) is left out rather than thrown.
+ *
+ * @param signer - The EVM signer (its receipts must include logs, as viem's do)
+ * @param params - The deposit to read the receipt for
+ * @param retryPolicy - Backoff for the deposit read
+ * @returns The refund receipt, or undefined if the deposit event was not found
+ */
+export async function readRefundReceipt(
+  signer: FacilitatorEvmSigner,
+  params: RefundReceiptParams,
+  retryPolicy?: Partial<RefundRetryPolicy>,
+): Promise<RefundReceipt | undefined> {
+  try {
+    const depositNonce =
+      params.depositNonce ??
+      findDepositNonce(
+        params.receipt ??
+          (await signer.waitForTransactionReceipt({ hash: params.transaction as `0x${string}` })),
+        params,
+      );
+    if (depositNonce === undefined) {
+      return undefined;
+    }
+
+    const [principal, timestamp, , merchantPayout] = await readContractWithRetry<
+      readonly [bigint, bigint, bigint, string]
+    >(
+      signer,
+      {
+        address: getAddress(params.escrowAddress),
+        abi: ESCROW_ABI,
+        functionName: "deposits",
+        args: [getAddress(params.payer), depositNonce],
+      },
+      retryPolicy,
+    );
+
+    return {
+      network: params.network,
+      escrow: getAddress(params.escrowAddress),
+      depositNonce: depositNonce.toString(),
+      payer: getAddress(params.payer),
+      merchantPayout: getAddress(merchantPayout),
+      amount: principal.toString(),
+      timestamp: Number(timestamp),
+      transaction: params.transaction,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds the escrow deposit nonce of a deposit in a transaction receipt's DepositNoted events.
+ * With several identical deposits in the receipt, this is the first one's: use
+ * `findDepositNonces()` for all deposits of a batch.
+ *
+ * @param receipt - The transaction receipt (viem receipts include logs)
+ * @param params - The escrow, payer, merchant payout and amount of the deposit
+ * @returns The deposit nonce, or undefined if the receipt has no matching event (or no logs)
+ */
+export function findDepositNonce(receipt: unknown, params: DepositEventParams): bigint | undefined {
+  return findDepositNonces(receipt, [params])[0];
+}
+
+/**
+ * Matches deposits to a transaction receipt's DepositNoted events one to one. Each event is
+ * used once, in log order, so identical deposits of a batch (given in call order) each get
+ * their own deposit nonce.
+ *
+ * @param receipt - The transaction receipt (viem receipts include logs)
+ * @param deposits - The escrow, payer, merchant payout and amount of each deposit
+ * @returns The deposit nonce of each deposit, or undefined where no event is left to match
+ */
+export function findDepositNonces(
+  receipt: unknown,
+  deposits: DepositEventParams[],
+): (bigint | undefined)[] {
+  const events = getDepositNotedEvents(receipt);
+  return deposits.map(deposit => {
+    const index = events.findIndex(
+      event =>
+        isAddressEqual(event.escrow, getAddress(deposit.escrowAddress)) &&
+        isAddressEqual(event.user, getAddress(deposit.payer)) &&
+        isAddressEqual(event.merchantPayout, getAddress(deposit.merchantPayout)) &&
+        event.amount === BigInt(deposit.amount),
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const [event] = events.splice(index, 1);
+    return event.depositNonce;
+  });
+}
+
+/**
+ * Decodes the DepositNoted events of a transaction receipt, in log order.
+ *
+ * @param receipt - The transaction receipt
+ * @returns The escrow and arguments of each event
+ */
+function getDepositNotedEvents(receipt: unknown) {
+  const logs = (receipt as { logs?: ReceiptLog[] }).logs ?? [];
+  return logs.flatMap(log => {
+    try {
+      const event = decodeEventLog({
+        abi: ESCROW_ABI,
+        eventName: "DepositNoted",
+        topics: log.topics,
+        data: log.data,
+      });
+      return [{ escrow: getAddress(log.address), ...event.args }];
+    } catch {
+      // Another event
+      return [];
+    }
+  });
+}
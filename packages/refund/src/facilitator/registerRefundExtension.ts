@@ -0,0 +1,212 @@
+/**
+ * One-call facilitator integration for the Refund Helper Extension
+ *
+ * Registers the exact EVM scheme wrapped with refund handling, so refund payments
+ * are verified and settled through X402DepositRelayProxy and the facilitator returns
+ * real VerifyResponses and SettleResponses, with its own hooks still running.
+ */
+
+import type { x402Facilitator } from "@x402/core/facilitator";
+import type {
+  Network,
+  PaymentPayload,
+  PaymentRequirements,
+  SchemeNetworkFacilitator,
+  SettleResponse,
+  VerifyResponse,
+} from "@x402/core/types";
+import { ExactEvmScheme } from "@x402/evm/exact/facilitator";
+import { ExactEvmSchemeV1 } from "@x402/evm/exact/v1/facilitator";
+import { NETWORKS } from "@x402/evm/v1";
+import { REFUND_EXTENSION_KEY, type RefundFacilitatorSigner } from "../types";
+import { RefundSettlementError } from "../errors";
+import {
+  settleWithRefundHelper,
+  verifyWithRefundHelper,
+  type SettleWithRefundOptions,
+} from "../facilitator";
+
+/**
+ * Configuration for `registerRefundExtension()`
+ */
+export interface RefundExtensionConfig extends SettleWithRefundOptions {
+  /** The EVM signer for facilitator operations (verify, deploy and deposit) */
+  signer: RefundFacilitatorSigner;
+  /** Networks to register (single network or array of networks) */
+  networks: Network | Network[];
+  /**
+   * If enabled, the exact scheme deploys ERC-4337 smart wallets via EIP-6492
+   * when encountering undeployed contract signatures.
+   *
+   * @default false
+   */
+  deployERC4337WithEIP6492?: boolean;
+}
+
+/**
+ * Scheme facilitator that routes refund payments through the refund helpers
+ * and delegates every other payment to the wrapped scheme.
+ *
+ * @example
+ * ```typescript
+ * facilitator.register(
+ *   "eip155:84532",
+ *   new RefundSchemeFacilitator(new ExactEvmScheme(signer), signer, { trustPolicy }),
+ * );
+ * ```
+ */
+export class RefundSchemeFacilitator implements SchemeNetworkFacilitator {
+  readonly scheme: string;
+  readonly caipFamily: string;
+
+  /**
+   * Creates a RefundSchemeFacilitator.
+   *
+   * @param inner - The scheme facilitator used for non-refund payments (e.g. ExactEvmScheme)
+   * @param signer - The EVM signer for refund verification and settlement
+   * @param options - Refund settlement options (network registry, trust policy)
+   */
+  constructor(
+    private readonly inner: SchemeNetworkFacilitator,
+    private readonly signer: RefundFacilitatorSigner,
+    private readonly options: SettleWithRefundOptions = {},
+  ) {
+    this.scheme = inner.scheme;
+    this.caipFamily = inner.caipFamily;
+  }
+
+  /**
+   * Gets mechanism-specific extra data from the wrapped scheme.
+   *
+   * @param network - The network identifier
+   * @returns The wrapped scheme's extra data
+   */
+  getExtra(network: Network): Record<string, unknown> | undefined {
+    return this.inner.getExtra(network);
+  }
+
+  /**
+   * Gets the signer addresses from the wrapped scheme.
+   *
+   * @param network - The network identifier
+   * @returns Array of facilitator wallet addresses
+   */
+  getSigners(network: Network): string[] {
+    return this.inner.getSigners(network);
+  }
+
+  /**
+   * Verifies a payment. Refund payments must pass the refund checks
+   * (including the simulated deposit) and the wrapped scheme's verification.
+   *
+   * @param payload - The payment payload to verify
+   * @param requirements - The payment requirements
+   * @returns The verification response
+   */
+  async verify(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<VerifyResponse> {
+    const refundResult = await verifyWithRefundHelper(
+      payload,
+      requirements,
+      this.signer,
+      this.options,
+    );
+    if (refundResult && !refundResult.isValid) {
+      return refundResult;
+    }
+
+    // Balance, signature and payTo checks from the wrapped scheme still apply
+    return this.inner.verify(payload, requirements);
+  }
+
+  /**
+   * Settles a payment. Refund payments are deposited into escrow via the relay;
+   * other payments are settled by the wrapped scheme.
+   *
+   * @param payload - The payment payload to settle
+   * @param requirements - The payment requirements
+   * @returns The settlement response
+   */
+  async settle(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
+  ): Promise<SettleResponse> {
+    try {
+      const refundResult = await settleWithRefundHelper(
+        payload,
+        requirements,
+        this.signer,
+        this.options,
+      );
+      if (refundResult) {
+        return refundResult;
+      }
+    } catch (error) {
+      if (error instanceof RefundSettlementError) {
+        const payer = (payload.payload as { authorization?: { from?: string } }).authorization
+          ?.from;
+        return error.toSettleResponse(requirements.network, payer);
+      }
+      throw error;
+    }
+
+    return this.inner.settle(payload, requirements);
+  }
+}
+
+/**
+ * Registers refund handling on an x402Facilitator in one call.
+ *
+ * This function:
+ * - Registers the exact EVM scheme for the given networks, wrapped in a
+ *   RefundSchemeFacilitator (use it instead of `registerExactEvmScheme()`)
+ * - Registers the V1 exact EVM scheme, as `registerExactEvmScheme()` does
+ * - Advertises the "refund" extension in `getSupported()`
+ *
+ * Facilitator hooks (onBeforeSettle, onAfterSettle...) keep working and see the
+ * real refund SettleResponse.
+ *
+ * @param facilitator - The x402Facilitator instance to register on
+ * @param config - Signer, networks and refund settlement options
+ * @returns The facilitator instance for chaining
+ *
+ * @example
+ * ```typescript
+ * const facilitator = new x402Facilitator();
+ * registerRefundExtension(facilitator, {
+ *   signer: evmSigner,
+ *   networks: "eip155:84532",
+ *   trustPolicy: { "eip155:84532": { factories: ["0xFactory..."], escrows: ["0xEscrow..."] } },
+ * });
+ *
+ * // settle() now returns the refund SettleResponse directly
+ * const response = await facilitator.settle(paymentPayload, paymentRequirements);
+ * ```
+ */
+export function registerRefundExtension(
+  facilitator: x402Facilitator,
+  config: RefundExtensionConfig,
+): x402Facilitator {
+  const { signer, networks, deployERC4337WithEIP6492, ...options } = config;
+
+  facilitator.register(
+    networks,
+    new RefundSchemeFacilitator(
+      new ExactEvmScheme(signer, { deployERC4337WithEIP6492 }),
+      signer,
+      options,
+    ),
+  );
+  facilitator.registerV1(
+    NETWORKS as Network[],
+    new ExactEvmSchemeV1(signer, { deployERC4337WithEIP6492 }),
+  );
+
+  if (!facilitator.getExtensions().includes(REFUND_EXTENSION_KEY)) {
+    facilitator.registerExtension(REFUND_EXTENSION_KEY);
+  }
+
+  return facilitator;
+}
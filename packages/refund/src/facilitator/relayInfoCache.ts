@@ -0,0 +1,144 @@
+/**
+ * Relay info cache for refund settlements
+ *
+ * Caches on-chain facts the facilitator reads on every settlement: factory and relay
+ * deployment status, relay immutables (MERCHANT_PAYOUT, ESCROW, TOKEN), factory relay
+ * addresses and, for a limited time, merchant registration. Immutable facts are cached
+ * without expiry, so the steady-state settlement path reads only the authorization nonce.
+ */
+
+/**
+ * Immutables of a deployed X402DepositRelayProxy
+ */
+export interface RelayImmutables {
+  merchantPayout: string;
+  escrow: string;
+  token: string;
+}
+
+/**
+ * Key-value cache for relay info, shared by every settlement that uses it.
+ * Implement it to back the cache with Redis or similar across replicas.
+ */
+export interface RelayInfoCache {
+  /**
+   * Gets a cached value.
+   *
+   * @param key - The cache key
+   * @returns The value, or undefined if missing or expired
+   */
+  get<T>(key: string): Promise<T | undefined>;
+
+  /**
+   * Caches a value.
+   *
+   * @param key - The cache key
+   * @param value - The value to cache
+   * @param ttlMs - Time to live in milliseconds (no expiry when unset)
+   */
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+
+  /**
+   * Removes a cached value.
+   *
+   * @param key - The cache key
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory LRU relay info cache. Evicts the least recently used entry once full.
+ *
+ * @example
+ * ```typescript
+ * await settleWithRefundHelper(paymentPayload, paymentRequirements, signer, {
+ *   relayInfoCache: new LruRelayInfoCache(10_000),
+ * });
+ * ```
+ */
+export class LruRelayInfoCache implements RelayInfoCache {
+  private readonly entries = new Map<string, { value: unknown; expiresAt?: number }>();
+
+  /**
+   * Creates an LruRelayInfoCache.
+   *
+   * @param maxEntries - Maximum number of cached entries (0 disables caching)
+   */
+  constructor(private readonly maxEntries = 1000) {}
+
+  /**
+   * Gets a cached value and marks it as recently used.
+   *
+   * @param key - The cache key
+   * @returns The value, or undefined if missing or expired
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so iteration order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  /**
+   * Caches a value, evicting the least recently used entry if full.
+   *
+   * @param key - The cache key
+   * @param value - The value to cache
+   * @param ttlMs - Time to live in milliseconds (no expiry when unset)
+   */
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Removes a cached value.
+   *
+   * @param key - The cache key
+   */
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Default cache shared by `verifyWithRefundHelper()` and `settleWithRefundHelper()`
+ */
+export const defaultRelayInfoCache = new LruRelayInfoCache();
+
+/**
+ * Builds a relay info cache key (addresses are lowercased).
+ *
+ * @param kind - What is cached (e.g. "relay", "registered")
+ * @param network - The payment network
+ * @param addresses - The addresses identifying the entry
+ * @returns The cache key
+ */
+export function getRelayInfoCacheKey(
+  kind: string,
+  network: string,
+  ...addresses: string[]
+): string {
+  return [kind, network, ...addresses.map(address => address.toLowerCase())].join(":");
+}
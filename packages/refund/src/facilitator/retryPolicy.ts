@@ -0,0 +1,186 @@
+/**
+ * Retry policy for refund settlement RPC calls and transactions
+ *
+ * Controls the exponential backoff used for contract reads and executeDeposit
+ * resubmissions, and sorts errors into the ones worth retrying and the ones that
+ * are not (a deterministic revert fails the same way every time).
+ */
+
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { decodeRefundRevert } from "./decodeRevert";
+
+/**
+ * Backoff settings for retried RPC calls and executeDeposit submissions
+ */
+export interface RefundRetryPolicy {
+  /** Retries after the first attempt (0 disables retries) */
+  maxRetries: number;
+  /** Delay before the first retry, in milliseconds */
+  initialDelayMs: number;
+  /** Upper bound for any single delay, in milliseconds */
+  maxDelayMs: number;
+  /** Factor the delay grows by after each retry */
+  backoffMultiplier: number;
+}
+
+/**
+ * Default retry policy: up to 5 retries after 1s, 2s, 4s, 8s and 16s
+ */
+export const DEFAULT_REFUND_RETRY_POLICY: RefundRetryPolicy = {
+  maxRetries: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 16_000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * How an executeDeposit submission failed
+ *
+ * - transient: the RPC rejected or dropped the request before broadcasting (rate limit, 5xx,
+ *   connection error); resubmitting is safe
+ * - broadcast_unknown: the transaction may have been broadcast but its result is unknown
+ *   (request timeout, receipt never arrived); it must be checked before resubmitting
+ * - deterministic: the call reverted or was rejected for a reason a retry cannot fix
+ */
+export type RefundDepositErrorKind = "transient" | "broadcast_unknown" | "deterministic";
+
+/**
+ * Fills unset fields of a partial retry policy with the defaults.
+ *
+ * @param policy - The partial policy from settlement options
+ * @returns The complete retry policy
+ */
+export function resolveRetryPolicy(policy: Partial<RefundRetryPolicy> = {}): RefundRetryPolicy {
+  return { ...DEFAULT_REFUND_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Gets the delay before a retry.
+ *
+ * @param policy - The retry policy
+ * @param retry - Zero-based retry index
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(policy: RefundRetryPolicy, retry: number): number {
+  return Math.min(
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry),
+    policy.maxDelayMs,
+  );
+}
+
+/**
+ * Checks if an error is a transient RPC error (rate limit, server error or connection failure)
+ * that was rejected before reaching the chain.
+ *
+ * @param error - The error thrown by an RPC call
+ * @returns True if retrying the same call may succeed
+ */
+export function isTransientRpcError(error: unknown): boolean {
+  if (error && typeof error === "object") {
+    // Check for viem error structure
+    const err = error as { status?: number; message?: string; details?: string; cause?: unknown };
+    if (err.status === 429 || (err.status !== undefined && err.status >= 500)) {
+      return true;
+    }
+    const message = `${err.message ?? ""} ${err.details ?? ""}`.toLowerCase();
+    if (
+      message.includes("rate limit") ||
+      message.includes("too many requests") ||
+      message.includes("fetch failed") ||
+      message.includes("econnreset") ||
+      message.includes("econnrefused") ||
+      message.includes("socket hang up")
+    ) {
+      return true;
+    }
+    // Check nested cause
+    if (err.cause && isTransientRpcError(err.cause)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Classifies an error thrown while submitting executeDeposit.
+ *
+ * @param error - The error thrown by writeContract
+ * @returns How the submission failed
+ */
+export function classifyDepositError(error: unknown): RefundDepositErrorKind {
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+
+  if (decodeRefundRevert(error) || message.includes("execution reverted")) {
+    return "deterministic";
+  }
+
+  // The node may have accepted the transaction before the request failed
+  if (
+    (error instanceof Error && error.name === "TimeoutError") ||
+    message.includes("timed out") ||
+    message.includes("already known") ||
+    message.includes("nonce too low")
+  ) {
+    return "broadcast_unknown";
+  }
+
+  if (isTransientRpcError(error)) {
+    return "transient";
+  }
+
+  return "deterministic";
+}
+
+/**
+ * Wraps readContract calls with retry logic for transient RPC errors (rate limits,
+ * server and connection errors), backing off as the retry policy configures
+ */
+export async function readContractWithRetry<T>(
+  signer: FacilitatorEvmSigner,
+  args: {
+    address: `0x${string}`;
+    abi: readonly unknown[];
+    functionName: string;
+    args?: readonly unknown[];
+  },
+  retryPolicy?: Partial<RefundRetryPolicy>,
+): Promise<T> {
+  return withRpcRetry(async () => (await signer.readContract(args)) as T, retryPolicy);
+}
+
+/**
+ * Runs a read-only RPC call, retrying transient RPC errors with the retry policy's backoff.
+ *
+ * @param call - The RPC call
+ * @param retryPolicy - The retry policy (unset fields use the defaults)
+ * @returns The call's result
+ */
+export async function withRpcRetry<T>(
+  call: () => Promise<T>,
+  retryPolicy?: Partial<RefundRetryPolicy>,
+): Promise<T> {
+  const policy = resolveRetryPolicy(retryPolicy);
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      lastError = error;
+
+      // Only retry on transient RPC errors
+      if (!isTransientRpcError(error)) {
+        throw error;
+      }
+
+      // Don't retry on last attempt
+      if (attempt >= policy.maxRetries) {
+        break;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, getRetryDelay(policy, attempt)));
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,136 @@
+/**
+ * Settlement status tracking for refund settlements
+ *
+ * With `returnOnBroadcast`, `settleWithRefundHelper()` returns a pending SettleResponse as
+ * soon as executeDeposit is broadcast and finishes the settlement in the background. The
+ * tracker records where each settlement stands, by transaction hash and authorization nonce.
+ */
+
+import type { SettleResponse } from "@x402/core/types";
+import type { RefundReceipt } from "../types";
+
+/**
+ * Where a refund settlement stands
+ *
+ * - pending: executeDeposit was broadcast and is not confirmed yet
+ * - confirmed: the deposit is confirmed
+ * - failed: the settlement failed after the pending response was returned
+ * - reverted: the deposit was confirmed, then reorged out within the confirmation window
+ */
+export type RefundSettlementState = "pending" | "confirmed" | "failed" | "reverted";
+
+/**
+ * Refund info returned in `SettleResponse.extensions.refund`
+ */
+export interface RefundSettleResponseInfo {
+  /** "pending" when the response was returned before the deposit was confirmed */
+  status: "pending" | "confirmed";
+  /** The escrow deposit, once confirmed (unset if its deposit event could not be read) */
+  receipt?: RefundReceipt;
+}
+
+/**
+ * SettleResponse returned for refund payments
+ */
+export type RefundSettleResponse = SettleResponse & {
+  extensions?: { refund?: RefundSettleResponseInfo };
+};
+
+/**
+ * Status of a refund settlement
+ */
+export interface RefundSettlementStatus {
+  /** The settlement key (network:from:nonce) */
+  key: string;
+  state: RefundSettlementState;
+  network: string;
+  payer: string;
+  /** The authorization nonce */
+  nonce: string;
+  /** The latest executeDeposit transaction hash */
+  transaction: string;
+  /** The final SettleResponse, once confirmed (or failed with an errorReason) */
+  response?: SettleResponse;
+  /** The error the settlement failed with */
+  error?: unknown;
+  /** Unix time (ms) of the last update */
+  updatedAt: number;
+}
+
+/**
+ * In-memory tracker of settlements returned before confirmation.
+ * Oldest statuses are dropped once `maxEntries` is reached.
+ */
+export class RefundSettlementStatusTracker {
+  private readonly statuses = new Map<string, RefundSettlementStatus>();
+  private readonly keysById = new Map<string, string>();
+
+  /**
+   * Creates a RefundSettlementStatusTracker.
+   *
+   * @param maxEntries - Maximum number of tracked settlements
+   */
+  constructor(private readonly maxEntries = 10_000) {}
+
+  /**
+   * Gets a settlement's status.
+   *
+   * @param id - An executeDeposit transaction hash or the authorization nonce
+   * @returns The status, or undefined if not tracked
+   */
+  get(id: string): RefundSettlementStatus | undefined {
+    const key = this.keysById.get(id.toLowerCase());
+    return key ? this.statuses.get(key) : undefined;
+  }
+
+  /**
+   * Records a settlement's status, indexed by its nonce and transaction hash.
+   *
+   * @param status - The settlement status
+   */
+  set(status: RefundSettlementStatus): void {
+    this.statuses.delete(status.key);
+    this.statuses.set(status.key, status);
+    this.keysById.set(status.nonce.toLowerCase(), status.key);
+    if (status.transaction) {
+      this.keysById.set(status.transaction.toLowerCase(), status.key);
+    }
+
+    while (this.statuses.size > this.maxEntries) {
+      const oldest = this.statuses.keys().next().value as string;
+      this.statuses.delete(oldest);
+      for (const [id, key] of this.keysById) {
+        if (key === oldest) {
+          this.keysById.delete(id);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Default tracker used by `settleWithRefundHelper()` and `getRefundSettlementStatus()`
+ */
+export const defaultRefundSettlementStatusTracker = new RefundSettlementStatusTracker();
+
+/**
+ * Gets the status of a settlement returned before confirmation (`returnOnBroadcast`).
+ *
+ * @param id - An executeDeposit transaction hash or the authorization nonce
+ * @param tracker - The tracker the settlement was recorded in
+ * @returns The status, or undefined if this process did not track the settlement
+ *
+ * @example
+ * ```typescript
+ * const status = getRefundSettlementStatus(response.transaction);
+ * if (status?.state === "confirmed") {
+ *   // Deposit is in escrow
+ * }
+ * ```
+ */
+export function getRefundSettlementStatus(
+  id: string,
+  tracker: RefundSettlementStatusTracker = defaultRefundSettlementStatusTracker,
+): RefundSettlementStatus | undefined {
+  return tracker.get(id);
+}
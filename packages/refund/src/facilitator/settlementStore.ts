@@ -0,0 +1,629 @@
+/**
+ * Settlement store for refund settlements
+ *
+ * Records refund settlements by ERC-3009 authorization (network, from, nonce) so a
+ * retried /settle, a restart or a second replica returns the stored result instead
+ * of sending a second executeDeposit. While a settlement is pending, the store also
+ * journals its transactions so `reconcilePendingSettlements()` can recover after a crash.
+ * Settled records are kept for a TTL (default 24 hours) and then pruned.
+ */
+
+import type { SettleResponse } from "@x402/core/types";
+
+/**
+ * A transaction journaled for a pending settlement
+ */
+export interface RefundJournaledTransaction {
+  /** The contract call that was submitted (batchDeposit: executeDeposit in a Multicall3 batch) */
+  kind: "deployRelay" | "executeDeposit" | "batchDeposit";
+  /** The transaction hash (unset if the process died before writeContract returned) */
+  hash?: string;
+  /** Unix time (ms) the transaction was journaled, before submission */
+  submittedAt: number;
+}
+
+/**
+ * The authorization a pending settlement is depositing
+ */
+export interface RefundJournaledAuthorization {
+  network: string;
+  /** The ERC-3009 token (payment asset) */
+  asset: string;
+  from: string;
+  nonce: string;
+  validBefore: string;
+}
+
+/**
+ * A refund settlement recorded in a store
+ */
+export interface RefundSettlementRecord {
+  /** Settlement key from `getRefundSettlementKey()` */
+  key: string;
+  /** "pending" while a facilitator is settling, "settled" once the deposit succeeded */
+  status: "pending" | "settled";
+  /** The successful SettleResponse (set once settled) */
+  response?: SettleResponse;
+  /** Unix time (ms) the record was last written */
+  updatedAt: number;
+  /** The authorization being settled (journaled while pending) */
+  authorization?: RefundJournaledAuthorization;
+  /** Transactions submitted for this settlement, journaled before submission */
+  transactions?: RefundJournaledTransaction[];
+}
+
+/**
+ * Storage for refund settlements, shared by every facilitator instance that
+ * settles the same payments (e.g. a file on a shared volume or a database table).
+ */
+export interface RefundSettlementStore {
+  /**
+   * Gets the record for a settlement key.
+   *
+   * @param key - The settlement key
+   * @returns The record, or undefined if none exists
+   */
+  get(key: string): Promise<RefundSettlementRecord | undefined>;
+
+  /**
+   * Atomically creates a pending record for a key if no record exists.
+   *
+   * @param key - The settlement key
+   * @returns True if the key was claimed, false if a record already exists
+   */
+  claim(key: string): Promise<boolean>;
+
+  /**
+   * Writes a record, replacing any existing record for its key.
+   *
+   * @param record - The record to write
+   */
+  put(record: RefundSettlementRecord): Promise<void>;
+
+  /**
+   * Deletes the record for a key (e.g. when a settlement fails and may be retried).
+   *
+   * @param key - The settlement key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Lists every record (used to find pending settlements after a restart).
+   *
+   * @returns All records
+   */
+  list(): Promise<RefundSettlementRecord[]>;
+}
+
+/**
+ * Options shared by the bundled settlement stores
+ */
+export interface RefundSettlementStoreOptions {
+  /**
+   * How long (ms) settled records are kept before they are pruned (default 24 hours).
+   * A retry of a pruned settlement is settled again and fails on-chain with the used nonce,
+   * so keep records at least as long as clients may retry (e.g. past `validBefore`).
+   */
+  settledTtlMs?: number;
+}
+
+/**
+ * Default time settled records are kept
+ */
+const DEFAULT_SETTLED_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minimum time between automatic prunes (run from `claim()`)
+ */
+const PRUNE_INTERVAL_MS = 60_000;
+
+/**
+ * Builds the settlement key for an ERC-3009 authorization.
+ *
+ * @param network - The payment network
+ * @param from - The authorizer (payer)
+ * @param nonce - The authorization nonce
+ * @returns The settlement key
+ */
+export function getRefundSettlementKey(network: string, from: string, nonce: string): string {
+  return `${network}:${from.toLowerCase()}:${nonce.toLowerCase()}`;
+}
+
+/**
+ * In-memory settlement store. Survives client retries, not restarts or extra replicas.
+ */
+export class InMemoryRefundSettlementStore implements RefundSettlementStore {
+  private readonly records = new Map<string, RefundSettlementRecord>();
+  private readonly settledTtlMs: number;
+  private lastPrunedAt = 0;
+
+  /**
+   * Creates an InMemoryRefundSettlementStore.
+   *
+   * @param options - How long settled records are kept
+   */
+  constructor(options: RefundSettlementStoreOptions = {}) {
+    this.settledTtlMs = options.settledTtlMs ?? DEFAULT_SETTLED_TTL_MS;
+  }
+
+  /**
+   * Gets the record for a settlement key.
+   *
+   * @param key - The settlement key
+   * @returns The record, or undefined if none exists
+   */
+  async get(key: string): Promise<RefundSettlementRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  /**
+   * Creates a pending record for a key if no record exists.
+   *
+   * @param key - The settlement key
+   * @returns True if the key was claimed
+   */
+  async claim(key: string): Promise<boolean> {
+    const now = Date.now();
+    if (now - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      await this.prune(now);
+    }
+    if (this.records.has(key)) {
+      return false;
+    }
+    this.records.set(key, { key, status: "pending", updatedAt: now });
+    return true;
+  }
+
+  /**
+   * Writes a record.
+   *
+   * @param record - The record to write
+   */
+  async put(record: RefundSettlementRecord): Promise<void> {
+    this.records.set(record.key, record);
+  }
+
+  /**
+   * Deletes the record for a key.
+   *
+   * @param key - The settlement key
+   */
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  /**
+   * Lists every record.
+   *
+   * @returns All records
+   */
+  async list(): Promise<RefundSettlementRecord[]> {
+    return [...this.records.values()];
+  }
+
+  /**
+   * Deletes settled records older than the TTL. Runs automatically from `claim()`.
+   *
+   * @param now - Current unix time in ms
+   * @returns The number of records deleted
+   */
+  async prune(now = Date.now()): Promise<number> {
+    this.lastPrunedAt = now;
+    let pruned = 0;
+    for (const record of this.records.values()) {
+      if (isExpired(record, this.settledTtlMs, now)) {
+        this.records.delete(record.key);
+        pruned++;
+      }
+    }
+    return pruned;
+  }
+}
+
+/**
+ * A line of a FileRefundSettlementStore log
+ */
+type RefundSettlementLogEntry = { put: RefundSettlementRecord } | { delete: string };
+
+/**
+ * JSON Lines file settlement store (Node.js only). Survives restarts.
+ *
+ * Records are indexed in memory; each write appends one line to the file instead of
+ * rewriting it. The file is read once, then compacted (rewritten atomically with write +
+ * rename) when pruning removes records or stale lines outnumber live records. Because the
+ * index is not re-read, only one process may use a file at a time: replicas sharing
+ * settlements need `SqliteRefundSettlementStore` or another store with a unique key.
+ *
+ * @example
+ * ```typescript
+ * const store = new FileRefundSettlementStore("./refund-settlements.jsonl");
+ * await settleWithRefundHelper(paymentPayload, paymentRequirements, signer, { store });
+ * ```
+ */
+export class FileRefundSettlementStore implements RefundSettlementStore {
+  private queue: Promise<unknown> = Promise.resolve();
+  private records?: Map<string, RefundSettlementRecord>;
+  private lineCount = 0;
+  private readonly settledTtlMs: number;
+  private lastPrunedAt = 0;
+
+  /**
+   * Creates a FileRefundSettlementStore.
+   *
+   * @param filePath - Path of the JSON Lines file (created on first write)
+   * @param options - How long settled records are kept
+   */
+  constructor(
+    private readonly filePath: string,
+    options: RefundSettlementStoreOptions = {},
+  ) {
+    this.settledTtlMs = options.settledTtlMs ?? DEFAULT_SETTLED_TTL_MS;
+  }
+
+  /**
+   * Gets the record for a settlement key.
+   *
+   * @param key - The settlement key
+   * @returns The record, or undefined if none exists
+   */
+  async get(key: string): Promise<RefundSettlementRecord | undefined> {
+    return this.enqueue(async () => (await this.load()).get(key));
+  }
+
+  /**
+   * Creates a pending record for a key if no record exists.
+   *
+   * @param key - The settlement key
+   * @returns True if the key was claimed
+   */
+  async claim(key: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const records = await this.load();
+      const now = Date.now();
+      if (now - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+        await this.pruneRecords(records, now);
+      }
+      if (records.has(key)) {
+        return false;
+      }
+      await this.append(records, { put: { key, status: "pending", updatedAt: now } });
+      return true;
+    });
+  }
+
+  /**
+   * Writes a record.
+   *
+   * @param record - The record to write
+   */
+  async put(record: RefundSettlementRecord): Promise<void> {
+    return this.enqueue(async () => this.append(await this.load(), { put: record }));
+  }
+
+  /**
+   * Deletes the record for a key.
+   *
+   * @param key - The settlement key
+   */
+  async delete(key: string): Promise<void> {
+    return this.enqueue(async () => {
+      const records = await this.load();
+      if (records.has(key)) {
+        await this.append(records, { delete: key });
+      }
+    });
+  }
+
+  /**
+   * Lists every record.
+   *
+   * @returns All records
+   */
+  async list(): Promise<RefundSettlementRecord[]> {
+    return this.enqueue(async () => [...(await this.load()).values()]);
+  }
+
+  /**
+   * Deletes settled records older than the TTL and compacts the file.
+   * Runs automatically from `claim()`.
+   *
+   * @param now - Current unix time in ms
+   * @returns The number of records deleted
+   */
+  async prune(now = Date.now()): Promise<number> {
+    return this.enqueue(async () => this.pruneRecords(await this.load(), now));
+  }
+
+  /**
+   * Runs an operation after every previously queued one.
+   *
+   * @param operation - The operation to run
+   * @returns The operation's result
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Reads the file into the in-memory index on first use.
+   *
+   * @returns Records by key (empty if the file does not exist yet)
+   */
+  private async load(): Promise<Map<string, RefundSettlementRecord>> {
+    if (this.records) {
+      return this.records;
+    }
+
+    // Loaded lazily so the package stays importable outside Node.js
+    const { readFile } = await import("node:fs/promises");
+    let content = "";
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as { code?: string }).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    const records = new Map<string, RefundSettlementRecord>();
+    const lines = content.split("\n").filter(line => line.trim());
+    for (const [index, line] of lines.entries()) {
+      let entry: RefundSettlementLogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        // A crash mid-append leaves a torn last line; anything else is corruption
+        if (index === lines.length - 1) {
+          break;
+        }
+        throw error;
+      }
+      if ("put" in entry) {
+        records.set(entry.put.key, entry.put);
+      } else {
+        records.delete(entry.delete);
+      }
+    }
+    this.records = records;
+    this.lineCount = lines.length;
+
+    // Rewrite a torn tail so the next append starts on a line of its own
+    if (content && !content.endsWith("\n")) {
+      await this.compact(records);
+    }
+    return records;
+  }
+
+  /**
+   * Applies an entry to the index and appends it to the file, compacting the file once
+   * stale lines outnumber live records.
+   *
+   * @param records - The in-memory index
+   * @param entry - The entry to write
+   */
+  private async append(
+    records: Map<string, RefundSettlementRecord>,
+    entry: RefundSettlementLogEntry,
+  ): Promise<void> {
+    if ("put" in entry) {
+      records.set(entry.put.key, entry.put);
+    } else {
+      records.delete(entry.delete);
+    }
+
+    if (this.lineCount >= 1000 && this.lineCount >= 2 * records.size) {
+      await this.compact(records);
+      return;
+    }
+    const { appendFile } = await import("node:fs/promises");
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+    this.lineCount++;
+  }
+
+  /**
+   * Deletes expired settled records from the index and compacts the file if any were found.
+   *
+   * @param records - The in-memory index
+   * @param now - Current unix time in ms
+   * @returns The number of records deleted
+   */
+  private async pruneRecords(
+    records: Map<string, RefundSettlementRecord>,
+    now: number,
+  ): Promise<number> {
+    this.lastPrunedAt = now;
+    let pruned = 0;
+    for (const record of records.values()) {
+      if (isExpired(record, this.settledTtlMs, now)) {
+        records.delete(record.key);
+        pruned++;
+      }
+    }
+    if (pruned > 0) {
+      await this.compact(records);
+    }
+    return pruned;
+  }
+
+  /**
+   * Replaces the file with one line per live record.
+   *
+   * @param records - The in-memory index
+   */
+  private async compact(records: Map<string, RefundSettlementRecord>): Promise<void> {
+    const { rename, writeFile } = await import("node:fs/promises");
+    const tempPath = `${this.filePath}.tmp`;
+    const lines = [...records.values()].map(record => `${JSON.stringify({ put: record })}\n`);
+    await writeFile(tempPath, lines.join(""));
+    await rename(tempPath, this.filePath);
+    this.lineCount = lines.length;
+  }
+}
+
+/**
+ * A prepared statement of a synchronous SQLite driver
+ */
+export interface RefundSqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * The subset of a synchronous SQLite database used by `SqliteRefundSettlementStore`.
+ * `better-sqlite3` databases and Node.js `node:sqlite` DatabaseSync both match it.
+ */
+export interface RefundSqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): RefundSqliteStatement;
+}
+
+/**
+ * A row of the settlement table (the record is stored as JSON)
+ */
+interface SettlementRow {
+  record: string;
+}
+
+/**
+ * SQLite settlement store. Survives restarts and is shared by every process that opens the
+ * same database file: `claim()` is an `INSERT ... ON CONFLICT DO NOTHING` on the primary key,
+ * so only one replica settles each authorization.
+ *
+ * Bring your own driver; the package does not depend on one.
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const store = new SqliteRefundSettlementStore(new Database("./refund-settlements.db"));
+ * await settleWithRefundHelper(paymentPayload, paymentRequirements, signer, { store });
+ * ```
+ */
+export class SqliteRefundSettlementStore implements RefundSettlementStore {
+  private readonly settledTtlMs: number;
+  private readonly table: string;
+  private lastPrunedAt = 0;
+
+  /**
+   * Creates a SqliteRefundSettlementStore and its table if it does not exist.
+   *
+   * @param db - An open SQLite database
+   * @param options - How long settled records are kept, and the table name
+   */
+  constructor(
+    private readonly db: RefundSqliteDatabase,
+    options: RefundSettlementStoreOptions & {
+      /** Table name (default "refund_settlements") */
+      table?: string;
+    } = {},
+  ) {
+    this.settledTtlMs = options.settledTtlMs ?? DEFAULT_SETTLED_TTL_MS;
+    this.table = options.table ?? "refund_settlements";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+      throw new Error(`Invalid settlement table name: ${this.table}`);
+    }
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (` +
+        "key TEXT PRIMARY KEY, status TEXT NOT NULL, " +
+        "updated_at INTEGER NOT NULL, record TEXT NOT NULL);" +
+        `CREATE INDEX IF NOT EXISTS ${this.table}_status_updated_at ` +
+        `ON ${this.table} (status, updated_at);`,
+    );
+  }
+
+  /**
+   * Gets the record for a settlement key.
+   *
+   * @param key - The settlement key
+   * @returns The record, or undefined if none exists
+   */
+  async get(key: string): Promise<RefundSettlementRecord | undefined> {
+    const statement = this.db.prepare(`SELECT record FROM ${this.table} WHERE key = ?`);
+    const row = statement.get(key) as SettlementRow | undefined;
+    return row ? JSON.parse(row.record) : undefined;
+  }
+
+  /**
+   * Atomically creates a pending record for a key if no record exists.
+   *
+   * @param key - The settlement key
+   * @returns True if the key was claimed
+   */
+  async claim(key: string): Promise<boolean> {
+    const now = Date.now();
+    if (now - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      await this.prune(now);
+    }
+    const record: RefundSettlementRecord = { key, status: "pending", updatedAt: now };
+    const { changes } = this.db
+      .prepare(
+        `INSERT INTO ${this.table} (key, status, updated_at, record) VALUES (?, ?, ?, ?) ` +
+          "ON CONFLICT (key) DO NOTHING",
+      )
+      .run(key, record.status, now, JSON.stringify(record));
+    return Number(changes) === 1;
+  }
+
+  /**
+   * Writes a record.
+   *
+   * @param record - The record to write
+   */
+  async put(record: RefundSettlementRecord): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO ${this.table} (key, status, updated_at, record) VALUES (?, ?, ?, ?) ` +
+          "ON CONFLICT (key) DO UPDATE SET status = excluded.status, " +
+          "updated_at = excluded.updated_at, record = excluded.record",
+      )
+      .run(record.key, record.status, record.updatedAt, JSON.stringify(record));
+  }
+
+  /**
+   * Deletes the record for a key.
+   *
+   * @param key - The settlement key
+   */
+  async delete(key: string): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE key = ?`).run(key);
+  }
+
+  /**
+   * Lists every record.
+   *
+   * @returns All records
+   */
+  async list(): Promise<RefundSettlementRecord[]> {
+    const rows = this.db.prepare(`SELECT record FROM ${this.table}`).all() as SettlementRow[];
+    return rows.map(row => JSON.parse(row.record));
+  }
+
+  /**
+   * Deletes settled records older than the TTL. Runs automatically from `claim()`.
+   *
+   * @param now - Current unix time in ms
+   * @returns The number of records deleted
+   */
+  async prune(now = Date.now()): Promise<number> {
+    this.lastPrunedAt = now;
+    const { changes } = this.db
+      .prepare(`DELETE FROM ${this.table} WHERE status = 'settled' AND updated_at < ?`)
+      .run(now - this.settledTtlMs);
+    return Number(changes);
+  }
+}
+
+/**
+ * Checks whether a record is a settled record older than the TTL.
+ *
+ * @param record - The record
+ * @param settledTtlMs - How long settled records are kept
+ * @param now - Current unix time in ms
+ * @returns True if the record may be pruned
+ */
+function isExpired(record: RefundSettlementRecord, settledTtlMs: number, now: number): boolean {
+  return record.status === "settled" && record.updatedAt < now - settledTtlMs;
+}
@@ -0,0 +1,74 @@
+/**
+ * Facilitator trust policy for refund settlements
+ *
+ * Lists the factories and escrows a facilitator is willing to pay gas for, per network.
+ * Without a trust policy, any factory named in the payment's refund extension is used,
+ * which lets a client point the facilitator at its own contracts.
+ */
+
+import { UntrustedEscrowError, UntrustedFactoryError } from "../errors";
+import { includesAddress } from "../networks";
+
+/**
+ * Allowed refund contracts on a single network
+ */
+export interface RefundTrustedContracts {
+  /** X402DepositRelayFactory addresses allowed to deploy relays */
+  factories?: string[];
+  /** Escrow addresses relays are allowed to deposit into */
+  escrows?: string[];
+}
+
+/**
+ * Trust policy keyed by CAIP-2 network id (e.g. "eip155:84532").
+ *
+ * A network missing from the policy, or a missing list, trusts nothing:
+ * once a policy is configured, only listed contracts are used.
+ *
+ * @example
+ * ```typescript
+ * const trustPolicy: RefundTrustPolicy = {
+ *   "eip155:84532": {
+ *     factories: ["0xFactory123..."],
+ *     escrows: ["0xEscrow123..."],
+ *   },
+ * };
+ * ```
+ */
+export type RefundTrustPolicy = Record<string, RefundTrustedContracts>;
+
+/**
+ * Asserts that a factory is allowed by the trust policy.
+ *
+ * @param trustPolicy - The trust policy (undefined trusts every factory)
+ * @param network - The payment network
+ * @param factoryAddress - The factory address from the refund extension
+ * @throws UntrustedFactoryError if not allowed
+ */
+export function assertTrustedFactory(
+  trustPolicy: RefundTrustPolicy | undefined,
+  network: string,
+  factoryAddress: string,
+): void {
+  if (trustPolicy && !includesAddress(trustPolicy[network]?.factories, factoryAddress)) {
+    throw new UntrustedFactoryError(network, factoryAddress);
+  }
+}
+
+/**
+ * Asserts that an escrow is allowed by the trust policy.
+ *
+ * @param trustPolicy - The trust policy (undefined trusts every escrow)
+ * @param network - The payment network
+ * @param escrowAddress - The escrow address reported by the relay proxy
+ * @throws UntrustedEscrowError if not allowed
+ */
+export function assertTrustedEscrow(
+  trustPolicy: RefundTrustPolicy | undefined,
+  network: string,
+  escrowAddress: string,
+): void {
+  if (trustPolicy && !includesAddress(trustPolicy[network]?.escrows, escrowAddress)) {
+    throw new UntrustedEscrowError(network, escrowAddress);
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Local pre-settlement validation for refund payments
+ *
+ * Checks the ERC-3009 authorization in a refund payment against its PaymentRequirements
+ * before any transaction is sent, so doomed or underpaid deposits fail with a
+ * structured reason instead of costing the facilitator gas.
+ */
+
+import type { PaymentPayload, PaymentRequirements } from "@x402/core/types";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { getAddress, isAddress, isHex } from "viem";
+
+/**
+ * Minimum time (seconds) an authorization must remain valid for the deposit to be mined
+ */
+const VALID_BEFORE_BUFFER_SECONDS = 6;
+
+/**
+ * EIP-712 types for ERC-3009 TransferWithAuthorization
+ */
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+} as const;
+
+/**
+ * ERC-3009 authorization carried in a refund payment payload
+ */
+export interface RefundAuthorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+}
+
+/**
+ * Reasons a refund authorization can fail local validation. Like RefundSettlementError
+ * codes, they use the `refund_` prefix of the x402 errorReason/invalidReason they become.
+ */
+export type RefundAuthorizationInvalidReason =
+  | "refund_invalid_payload"
+  | "refund_network_mismatch"
+  | "refund_invalid_asset"
+  | "refund_invalid_recipient"
+  | "refund_invalid_authorization_value"
+  | "refund_invalid_authorization_valid_after"
+  | "refund_invalid_authorization_valid_before"
+  | "refund_missing_eip712_domain"
+  | "refund_invalid_signature";
+
+/**
+ * Result of `validateRefundAuthorization()`
+ */
+export type RefundAuthorizationValidationResult =
+  | {
+      isValid: true;
+      payer: string;
+      authorization: RefundAuthorization;
+      signature: `0x${string}`;
+    }
+  | {
+      isValid: false;
+      invalidReason: RefundAuthorizationInvalidReason;
+      message: string;
+      payer?: string;
+    };
+
+/**
+ * Context for `validateRefundAuthorization()`
+ */
+export interface RefundAuthorizationContext {
+  /** The relay proxy the authorization must pay (defaults to paymentRequirements.payTo) */
+  proxyAddress?: string;
+  /** The proxy's TOKEN immutable, when already read; checked against paymentRequirements.asset */
+  proxyToken?: string;
+  /** Current unix time in seconds (defaults to Date.now()) */
+  now?: number;
+}
+
+/**
+ * Validates a refund payment's ERC-3009 authorization against its PaymentRequirements.
+ *
+ * Checks, without sending any transaction:
+ * 1. The payload carries an authorization and signature
+ * 2. The accepted network and asset match the requirements (and the proxy TOKEN, if given)
+ * 3. authorization.to is the relay proxy
+ * 4. authorization.value equals the required amount
+ * 5. The validAfter/validBefore window is open now and long enough to mine the deposit
+ * 6. The EIP-712 TransferWithAuthorization signature recovers to authorization.from
+ *    for the token's domain (name/version from requirements.extra, chainId from network)
+ *
+ * @param paymentPayload - The payment payload containing authorization and signature
+ * @param paymentRequirements - The payment requirements the authorization must satisfy
+ * @param signer - The EVM signer used to verify the typed-data signature
+ * @param context - Optional proxy address, proxy TOKEN and current time
+ * @returns The validated authorization, or a structured failure reason
+ *
+ * @example
+ * ```typescript
+ * const validation = await validateRefundAuthorization(paymentPayload, paymentRequirements, signer);
+ * if (!validation.isValid) {
+ *   return { success: false, errorReason: validation.invalidReason, transaction: "", network };
+ * }
+ * ```
+ */
+export async function validateRefundAuthorization(
+  paymentPayload: PaymentPayload,
+  paymentRequirements: PaymentRequirements,
+  signer: FacilitatorEvmSigner,
+  context: RefundAuthorizationContext = {},
+): Promise<RefundAuthorizationValidationResult> {
+  const payload = paymentPayload.payload as {
+    authorization?: RefundAuthorization;
+    signature?: string;
+  };
+  const authorization = payload.authorization;
+  const signature = payload.signature;
+
+  if (
+    !authorization ||
+    !signature ||
+    !isHex(signature) ||
+    !isAddress(authorization.from) ||
+    !isAddress(authorization.to)
+  ) {
+    return invalid(
+      "refund_invalid_payload",
+      "Payment payload must contain an ERC-3009 authorization and signature",
+      authorization?.from,
+    );
+  }
+
+  const payer = authorization.from;
+
+  // Accepted requirements (v2 payloads) must describe the same network and asset
+  const accepted = paymentPayload.accepted as PaymentRequirements | undefined;
+  if (accepted?.network && accepted.network !== paymentRequirements.network) {
+    return invalid(
+      "refund_network_mismatch",
+      `Payment was signed for ${accepted.network} but requirements are for ${paymentRequirements.network}`,
+      payer,
+    );
+  }
+
+  if (!isAddress(paymentRequirements.asset, { strict: false })) {
+    return invalid(
+      "refund_invalid_asset",
+      `Required asset ${paymentRequirements.asset} is not an address`,
+      payer,
+    );
+  }
+  const asset = getAddress(paymentRequirements.asset);
+  if (
+    accepted?.asset &&
+    (!isAddress(accepted.asset, { strict: false }) || getAddress(accepted.asset) !== asset)
+  ) {
+    return invalid(
+      "refund_invalid_asset",
+      `Payment was signed for asset ${accepted.asset} but requirements require ${asset}`,
+      payer,
+    );
+  }
+
+  if (
+    context.proxyToken &&
+    (!isAddress(context.proxyToken, { strict: false }) || getAddress(context.proxyToken) !== asset)
+  ) {
+    return invalid(
+      "refund_invalid_asset",
+      `Relay proxy TOKEN ${context.proxyToken} does not match required asset ${asset}`,
+      payer,
+    );
+  }
+
+  const proxy = context.proxyAddress ?? paymentRequirements.payTo;
+  if (!isAddress(proxy, { strict: false })) {
+    return invalid("refund_invalid_recipient", `Relay proxy ${proxy} is not an address`, payer);
+  }
+  const proxyAddress = getAddress(proxy);
+  if (getAddress(authorization.to) !== proxyAddress) {
+    return invalid(
+      "refund_invalid_recipient",
+      `Authorization 'to' address (${getAddress(authorization.to)}) does not match proxy address (${proxyAddress})`,
+      payer,
+    );
+  }
+
+  let value: bigint;
+  let validAfter: bigint;
+  let validBefore: bigint;
+  try {
+    value = BigInt(authorization.value);
+    validAfter = BigInt(authorization.validAfter);
+    validBefore = BigInt(authorization.validBefore);
+  } catch {
+    return invalid(
+      "refund_invalid_payload",
+      "Authorization value, validAfter and validBefore must be integers",
+      payer,
+    );
+  }
+
+  if (value !== BigInt(paymentRequirements.amount)) {
+    return invalid(
+      "refund_invalid_authorization_value",
+      `Authorization value ${value} does not match required amount ${paymentRequirements.amount}`,
+      payer,
+    );
+  }
+
+  const now = BigInt(context.now ?? Math.floor(Date.now() / 1000));
+  if (validAfter > now) {
+    return invalid(
+      "refund_invalid_authorization_valid_after",
+      `Authorization is not valid until ${validAfter} (now ${now})`,
+      payer,
+    );
+  }
+
+  if (validBefore < now + BigInt(VALID_BEFORE_BUFFER_SECONDS)) {
+    return invalid(
+      "refund_invalid_authorization_valid_before",
+      `Authorization expired or expires too soon to settle (validBefore ${validBefore}, now ${now})`,
+      payer,
+    );
+  }
+
+  // Verify the EIP-712 signature against the token's domain
+  const name = paymentRequirements.extra?.name;
+  const version = paymentRequirements.extra?.version;
+  if (typeof name !== "string" || typeof version !== "string") {
+    return invalid(
+      "refund_missing_eip712_domain",
+      "Payment requirements extra must include the token's EIP-712 name and version",
+      payer,
+    );
+  }
+
+  let signatureValid: boolean;
+  try {
+    signatureValid = await signer.verifyTypedData({
+      address: getAddress(authorization.from),
+      domain: {
+        name,
+        version,
+        chainId: parseInt(paymentRequirements.network.split(":")[1]),
+        verifyingContract: asset,
+      },
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: "TransferWithAuthorization",
+      message: {
+        from: getAddress(authorization.from),
+        to: getAddress(authorization.to),
+        value,
+        validAfter,
+        validBefore,
+        nonce: authorization.nonce,
+      },
+      signature,
+    });
+  } catch {
+    signatureValid = false;
+  }
+
+  if (!signatureValid) {
+    return invalid(
+      "refund_invalid_signature",
+      `TransferWithAuthorization signature does not recover to ${authorization.from} for token ${asset}`,
+      payer,
+    );
+  }
+
+  return { isValid: true, payer, authorization, signature };
+}
+
+/**
+ * Builds a failed validation result.
+ *
+ * @param invalidReason - The machine-readable failure reason
+ * @param message - Human-readable detail
+ * @param payer - The payer address, if known
+ * @returns The failed validation result
+ */
+function invalid(
+  invalidReason: RefundAuthorizationInvalidReason,
+  message: string,
+  payer?: string,
+): RefundAuthorizationValidationResult {
+  return { isValid: false, invalidReason, message, payer };
+}
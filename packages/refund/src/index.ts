@@ -52,7 +52,7 @@
  * // Process routes to route refundable payments to DepositRelay
  * // Uses CREATE3 - no bytecode needed! Works with any CREATE3-compatible factory.
  * // Version is optional - defaults to config file value
- * // CreateX address is optional - uses standard address for network if not provided
+ * // CreateX address is optional - uses the registry's address for network if not provided
  * const processedRoutes = withRefund(routes, FACTORY_ADDRESS);
  *
  * // Use processedRoutes with paymentMiddleware
@@ -106,14 +106,203 @@
 export {
   REFUND_EXTENSION_KEY,
   REFUND_MARKER_KEY,
+  REFUND_POLICY_KEY,
+  getMerchantPayout,
   isRefundableOption,
   type RefundExtension,
   type RefundExtensionInfo,
+  type RefundFacilitatorSigner,
+  type RefundNetworkInfo,
+  type RefundPolicy,
+  type RefundReceipt,
+  type VerifyWithRefundOptions,
 } from "./types";
 
+// Export network registry
+export {
+  DEFAULT_REFUND_NETWORKS,
+  RefundNetworkRegistry,
+  defaultRefundNetworkRegistry,
+  type RefundNetworkDeployment,
+} from "./networks";
+
+// Export settlement errors
+export {
+  RefundSettlementError,
+  ArbiterDisputeError,
+  AuthorizationExpiredError,
+  DepositFailedError,
+  DepositReorgedError,
+  DepositSimulationFailedError,
+  DepositUnconfirmedError,
+  EscrowCallError,
+  EscrowMismatchError,
+  FactoryNotFoundError,
+  InsufficientGasFundsError,
+  MerchantNotRegisteredError,
+  NonceUsedError,
+  RefundRpcError,
+  RelayAddressMismatchError,
+  RelayDeployFailedError,
+  RelayDeploySimulationFailedError,
+  SettlementInProgressError,
+  TokenMismatchError,
+  UnknownEscrowError,
+  UnsupportedTokenError,
+  UntrustedEscrowError,
+  UntrustedFactoryError,
+  UntrustedRefundContractError,
+  type ArbiterDisputeErrorCode,
+  type RefundSettlementErrorCode,
+} from "./errors";
+
 // Export server-side helpers
-export { declareRefundExtension, refundable, withRefund } from "./server";
+export {
+  declareRefundExtension,
+  refundable,
+  refundResourceServerExtension,
+  withRefund,
+} from "./server";
 export { computeRelayAddress } from "./server/computeRelayAddress";
+export {
+  MerchantEscrowClient,
+  type MerchantEscrowClientConfig,
+} from "./server/merchantEscrowClient";
+
+// Export client-side helpers
+export {
+  BuyerRefundClient,
+  type BuyerDepositStatus,
+  type BuyerRefundClientConfig,
+  type RefundDepositReference,
+  type RefundRequestOptions,
+} from "./client/buyerRefundClient";
+export {
+  registerRefundIntegrityCheck,
+  verifyRefundOption,
+  verifyRefundableOptions,
+  type RefundIntegrityIssue,
+  type RefundIntegrityIssueCode,
+  type RefundIntegrityOptions,
+  type RefundIntegrityReport,
+  type RefundIntegrityStatus,
+  type RefundOptionCheck,
+  type RefundPayoutEntryCheck,
+} from "./client/verifyRefundOptions";
+
+// Export arbiter-side helpers
+export { ArbiterClient, type ArbiterClientConfig } from "./arbiter/arbiterClient";
+export {
+  FileArbiterDisputeStore,
+  InMemoryArbiterDisputeStore,
+  getArbiterDisputeId,
+  type ArbiterDecision,
+  type ArbiterDecisionOutcome,
+  type ArbiterDispute,
+  type ArbiterDisputeStatus,
+  type ArbiterDisputeStore,
+} from "./arbiter/disputeStore";
+export {
+  createArbiterRequestHandler,
+  type ArbiterRequestHandlerOptions,
+} from "./arbiter/arbiterService";
+
+// Export escrow helpers
+export {
+  getEscrowDepositEvents,
+  listEscrowDeposits,
+  readEscrowDeposit,
+  type EscrowDeposit,
+  type EscrowDepositEvent,
+  type EscrowDepositFilter,
+  type EscrowTransactionResult,
+} from "./escrow/escrowContract";
+export {
+  REFUND_EVIDENCE_TYPES,
+  REFUND_REQUEST_TYPES,
+  getRefundRequestDomain,
+  signRefundEvidence,
+  signRefundRequest,
+  verifyRefundEvidence,
+  verifyRefundRequest,
+  type RefundRequest,
+  type SignedRefundRequest,
+} from "./escrow/refundRequest";
 
 // Export facilitator-side helpers
-export { extractRefundInfo, settleWithRefundHelper } from "./facilitator";
+export { type RefundTrustPolicy, type RefundTrustedContracts } from "./facilitator/trustPolicy";
+export {
+  validateRefundAuthorization,
+  type RefundAuthorization,
+  type RefundAuthorizationContext,
+  type RefundAuthorizationInvalidReason,
+  type RefundAuthorizationValidationResult,
+} from "./facilitator/validateAuthorization";
+export { decodeRefundRevert, type DecodedRefundRevert } from "./facilitator/decodeRevert";
+export {
+  DEFAULT_REFUND_RETRY_POLICY,
+  classifyDepositError,
+  type RefundDepositErrorKind,
+  type RefundRetryPolicy,
+} from "./facilitator/retryPolicy";
+export {
+  extractRefundInfo,
+  preflightRefundSettlement,
+  settleWithRefundHelper,
+  verifyWithRefundHelper,
+  type RefundPreflightResult,
+  type SettleWithRefundOptions,
+} from "./facilitator";
+export {
+  MULTICALL3_ADDRESS,
+  readRefundPreflightState,
+  type RefundPreflightParams,
+  type RefundPreflightRead,
+  type RefundPreflightState,
+} from "./facilitator/preflightState";
+export {
+  RefundSettlementStatusTracker,
+  defaultRefundSettlementStatusTracker,
+  getRefundSettlementStatus,
+  type RefundSettleResponse,
+  type RefundSettleResponseInfo,
+  type RefundSettlementState,
+  type RefundSettlementStatus,
+} from "./facilitator/settlementStatus";
+export { readRefundReceipt, type RefundReceiptParams } from "./facilitator/refundReceipt";
+export {
+  RefundDepositBatcher,
+  type RefundBatchedDeposit,
+  type RefundBatchedDepositResult,
+  type RefundDepositBatcherOptions,
+} from "./facilitator/depositBatcher";
+export {
+  LruRelayInfoCache,
+  defaultRelayInfoCache,
+  type RelayImmutables,
+  type RelayInfoCache,
+} from "./facilitator/relayInfoCache";
+export {
+  FileRefundSettlementStore,
+  InMemoryRefundSettlementStore,
+  SqliteRefundSettlementStore,
+  getRefundSettlementKey,
+  type RefundJournaledAuthorization,
+  type RefundJournaledTransaction,
+  type RefundSettlementRecord,
+  type RefundSettlementStore,
+  type RefundSettlementStoreOptions,
+  type RefundSqliteDatabase,
+  type RefundSqliteStatement,
+} from "./facilitator/settlementStore";
+export {
+  reconcilePendingSettlements,
+  type ReconcileOptions,
+  type RefundReconciliationOutcome,
+  type RefundReconciliationResult,
+} from "./facilitator/reconcile";
+export {
+  registerRefundExtension,
+  RefundSchemeFacilitator,
+  type RefundExtensionConfig,
+} from "./facilitator/registerRefundExtension";
@@ -0,0 +1,229 @@
+/**
+ * Network registry for the Refund Helper Extension
+ *
+ * Holds the per-chain contract addresses used by both the server-side and
+ * facilitator-side helpers, keyed by CAIP-2 network id (e.g. "eip155:84532").
+ * Operators add a chain once here instead of threading addresses through every call.
+ */
+
+/**
+ * Refund contract deployments on a single network
+ */
+export interface RefundNetworkDeployment {
+  /** CreateX contract used by the factory for CREATE3 deployments */
+  createxAddress?: string;
+  /** X402DepositRelayFactory contract address */
+  factoryAddress?: string;
+  /** Known escrow contracts that relays on this network deposit into */
+  escrowAddresses?: string[];
+  /** Tokens (ERC-3009) that relays on this network accept */
+  tokenAddresses?: string[];
+  /** Blocks a deposit must be confirmed by before its settlement counts as done (default 1) */
+  confirmations?: number;
+  /** Block the earliest escrow was deployed at, where deposit listings start searching */
+  escrowDeploymentBlock?: bigint;
+}
+
+/**
+ * Known refund deployments per network.
+ *
+ * CreateX addresses are the official deployments from https://github.com/pcaversaccio/createx#createx-deployments
+ * No token lists are set, so every ERC-3009 token is accepted until an operator registers
+ * `tokenAddresses` for a network.
+ *
+ * Note: If a network is not listed here, CreateX may need to be deployed separately.
+ * The factory stores the CreateX address and can be queried via factory.getCreateX().
+ */
+export const DEFAULT_REFUND_NETWORKS: Record<string, RefundNetworkDeployment> = {
+  // Ethereum Mainnet
+  "eip155:1": {
+    createxAddress: "0xba5Ed099633D3B313e4D5F7bdc1305d3c32ba066",
+  },
+  // Base Mainnet
+  "eip155:8453": {
+    createxAddress: "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed",
+  },
+  // Base Sepolia
+  "eip155:84532": {
+    createxAddress: "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed",
+  },
+  // Add more networks as deployments become available
+};
+
+/**
+ * Registry of refund contract deployments keyed by CAIP-2 network id.
+ *
+ * @example
+ * ```typescript
+ * // Add a chain once, for every helper that uses the default registry
+ * defaultRefundNetworkRegistry.register("eip155:84532", {
+ *   factoryAddress: "0xFactory123...",
+ *   escrowAddresses: ["0xEscrow123..."],
+ * });
+ *
+ * // Or build an isolated registry
+ * const registry = new RefundNetworkRegistry().register("eip155:10", {
+ *   createxAddress: "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed",
+ *   factoryAddress: "0xFactory456...",
+ * });
+ * ```
+ */
+export class RefundNetworkRegistry {
+  private readonly deployments = new Map<string, RefundNetworkDeployment>();
+
+  /**
+   * Creates a registry pre-populated with the given deployments.
+   *
+   * @param deployments - Map of network id to deployment (defaults to none)
+   */
+  constructor(deployments: Record<string, RefundNetworkDeployment> = {}) {
+    for (const [network, deployment] of Object.entries(deployments)) {
+      this.register(network, deployment);
+    }
+  }
+
+  /**
+   * Registers (or extends) the deployment for a network.
+   * Fields provided here override existing ones; address lists are merged.
+   *
+   * @param network - The CAIP-2 network id (e.g., "eip155:84532")
+   * @param deployment - The contract addresses deployed on that network
+   * @returns The registry instance for chaining
+   */
+  register(network: string, deployment: RefundNetworkDeployment): RefundNetworkRegistry {
+    const existing = this.deployments.get(network) ?? {};
+    this.deployments.set(network, {
+      ...existing,
+      ...deployment,
+      escrowAddresses: mergeAddresses(existing.escrowAddresses, deployment.escrowAddresses),
+      tokenAddresses: mergeAddresses(existing.tokenAddresses, deployment.tokenAddresses),
+    });
+    return this;
+  }
+
+  /**
+   * Gets the deployment registered for a network.
+   *
+   * @param network - The CAIP-2 network id
+   * @returns The deployment, or undefined if the network is unknown
+   */
+  get(network: string): RefundNetworkDeployment | undefined {
+    return this.deployments.get(network);
+  }
+
+  /**
+   * Gets all registered network ids.
+   *
+   * @returns Array of CAIP-2 network ids
+   */
+  getNetworks(): string[] {
+    return [...this.deployments.keys()];
+  }
+
+  /**
+   * Gets the CreateX address for a network.
+   *
+   * @param network - The CAIP-2 network id
+   * @returns The CreateX address, or undefined if not registered
+   */
+  getCreateXAddress(network: string): string | undefined {
+    return this.deployments.get(network)?.createxAddress;
+  }
+
+  /**
+   * Gets the X402DepositRelayFactory address for a network.
+   *
+   * @param network - The CAIP-2 network id
+   * @returns The factory address, or undefined if not registered
+   */
+  getFactoryAddress(network: string): string | undefined {
+    return this.deployments.get(network)?.factoryAddress;
+  }
+
+  /**
+   * Gets the confirmation depth for deposits on a network.
+   *
+   * @param network - The CAIP-2 network id
+   * @returns The number of confirmations (1 if not registered)
+   */
+  getConfirmations(network: string): number {
+    return this.deployments.get(network)?.confirmations ?? 1;
+  }
+
+  /**
+   * Gets the block the earliest escrow on a network was deployed at.
+   *
+   * @param network - The CAIP-2 network id
+   * @returns The deployment block, or undefined if not registered
+   */
+  getEscrowDeploymentBlock(network: string): bigint | undefined {
+    return this.deployments.get(network)?.escrowDeploymentBlock;
+  }
+
+  /**
+   * Checks whether an escrow is known for a network.
+   * Returns true when no escrows are registered for the network (nothing to check against).
+   *
+   * @param network - The CAIP-2 network id
+   * @param escrowAddress - The escrow address to check
+   * @returns True if the escrow is registered or no escrows are registered
+   */
+  isKnownEscrow(network: string, escrowAddress: string): boolean {
+    const escrowAddresses = this.deployments.get(network)?.escrowAddresses;
+    return !escrowAddresses?.length || includesAddress(escrowAddresses, escrowAddress);
+  }
+
+  /**
+   * Checks whether a token is supported for a network.
+   * Returns true when no tokens are registered for the network (nothing to check against).
+   *
+   * @param network - The CAIP-2 network id
+   * @param tokenAddress - The token address to check
+   * @returns True if the token is registered or no tokens are registered
+   */
+  isSupportedToken(network: string, tokenAddress: string): boolean {
+    const tokenAddresses = this.deployments.get(network)?.tokenAddresses;
+    return !tokenAddresses?.length || includesAddress(tokenAddresses, tokenAddress);
+  }
+}
+
+/**
+ * Default registry shared by `withRefund()` and `settleWithRefundHelper()`,
+ * pre-populated with the known deployments.
+ */
+export const defaultRefundNetworkRegistry = new RefundNetworkRegistry(DEFAULT_REFUND_NETWORKS);
+
+/**
+ * Merges two address lists, dropping case-insensitive duplicates.
+ *
+ * @param existing - The addresses already registered
+ * @param added - The addresses being registered
+ * @returns The merged list, or undefined if both are undefined
+ */
+function mergeAddresses(existing?: string[], added?: string[]): string[] | undefined {
+  if (!existing && !added) {
+    return undefined;
+  }
+
+  const merged = [...(existing ?? [])];
+  for (const address of added ?? []) {
+    if (!merged.some(known => known.toLowerCase() === address.toLowerCase())) {
+      merged.push(address);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Checks whether a list contains an address (case-insensitive).
+ *
+ * A missing or empty list contains nothing, so this returns false for it. Callers that
+ * treat an empty list as unrestricted (like the registry) must check for that themselves.
+ *
+ * @param addresses - The listed addresses
+ * @param address - The address to look up
+ * @returns True if the list contains the address
+ */
+export function includesAddress(addresses: string[] | undefined, address: string): boolean {
+  return (addresses ?? []).some(known => known.toLowerCase() === address.toLowerCase());
+}
@@ -6,19 +6,64 @@
  */
 
 import type { PaymentOption, RouteConfig, RoutesConfig } from "@x402/core/http";
+import type { x402ResourceServer } from "@x402/core/server";
+import type { ResourceServerExtension } from "@x402/core/types";
+import { isAddress } from "viem";
 import {
   REFUND_MARKER_KEY,
+  REFUND_POLICY_KEY,
   isRefundableOption,
   REFUND_EXTENSION_KEY,
   type RefundExtension,
+  type RefundNetworkInfo,
+  type RefundPolicy,
 } from "./types";
 import { computeRelayAddress } from "./server/computeRelayAddress";
+import { defaultRefundNetworkRegistry, type RefundNetworkRegistry } from "./networks";
+
+/**
+ * Where `withRefund()` resolves per-network contract addresses from.
+ * Explicit addresses take precedence over the registry.
+ */
+interface RefundAddressSources {
+  factoryAddress?: string | Record<string, string>;
+  createxAddress?: string | Record<string, string>;
+  registry: RefundNetworkRegistry;
+}
+
+/**
+ * Maps published in a route's refund extension, filled in while processing its options.
+ */
+interface RefundExtensionMaps {
+  merchantPayouts: Record<string, string>; // proxyAddress -> merchantPayout
+  networks: Record<string, RefundNetworkInfo>; // network -> RefundNetworkInfo
+  policies: Record<string, RefundPolicy>; // proxyAddress -> RefundPolicy
+}
+
+/**
+ * A relay resolved by a dynamic `payTo` for one request
+ */
+interface ResolvedRefundEntry {
+  network: string;
+  proxyAddress: string; // lowercase
+  merchantPayout: string;
+  policy?: RefundPolicy;
+}
+
+/**
+ * Relays resolved by dynamic `payTo` functions, by request context. Entries are only
+ * published in that request's refund extension, so route config is never mutated and
+ * each 402 response names only its own merchant payouts.
+ */
+const resolvedEntriesByRequest = new WeakMap<object, ResolvedRefundEntry[]>();
 
 /**
  * Declares a refund extension with factory address and merchantPayouts map
  *
  * @param factoryAddress - The X402DepositRelayFactory contract address
  * @param merchantPayouts - Map of proxy address to merchant payout address
+ * @param networks - Optional map of network to its factory address and merchantPayouts map
+ * @param policies - Optional map of proxy address to refund policy terms
  * @returns Refund extension object with info and schema
  *
  * @example
@@ -32,12 +77,16 @@ import { computeRelayAddress } from "./server/computeRelayAddress";
 export function declareRefundExtension(
   factoryAddress: string,
   merchantPayouts: Record<string, string>,
+  networks?: Record<string, RefundNetworkInfo>,
+  policies?: Record<string, RefundPolicy>,
 ): Record<string, RefundExtension> {
   return {
     [REFUND_EXTENSION_KEY]: {
       info: {
         factoryAddress,
         merchantPayouts,
+        ...(networks ? { networks } : {}),
+        ...(policies ? { policies } : {}),
       },
       schema: {
         $schema: "https://json-schema.org/draft/2020-12/schema",
@@ -56,6 +105,60 @@ export function declareRefundExtension(
             },
             description: "Map of proxy address to merchant payout address",
           },
+          networks: {
+            type: "object",
+            additionalProperties: {
+              type: "object",
+              properties: {
+                factoryAddress: {
+                  type: "string",
+                  pattern: "^0x[a-fA-F0-9]{40}$",
+                },
+                merchantPayouts: {
+                  type: "object",
+                  additionalProperties: {
+                    type: "string",
+                    pattern: "^0x[a-fA-F0-9]{40}$",
+                  },
+                },
+              },
+              required: ["factoryAddress", "merchantPayouts"],
+            },
+            description: "Map of network to its factory address and proxy to merchant payout map",
+          },
+          policies: {
+            type: "object",
+            additionalProperties: {
+              type: "object",
+              properties: {
+                refundWindowSeconds: {
+                  type: "integer",
+                  minimum: 0,
+                  description: "How long after payment the buyer can request a refund, in seconds",
+                },
+                allowPartialRefunds: {
+                  type: "boolean",
+                  description: "Whether the arbiter may refund part of the payment",
+                },
+                arbiter: {
+                  type: "string",
+                  pattern: "^0x[a-fA-F0-9]{40}$",
+                  description: "Address of the arbiter that resolves disputes",
+                },
+                termsUrl: {
+                  type: "string",
+                  format: "uri",
+                  description: "URL of the full refund and dispute terms",
+                },
+                disputeRules: {
+                  type: "string",
+                  description: "Short human-readable summary of the dispute rules",
+                },
+              },
+              additionalProperties: false,
+            },
+            description: "Map of proxy address to refund policy terms",
+          },
         },
         required: ["factoryAddress", "merchantPayouts"],
         additionalProperties: false,
@@ -69,22 +172,33 @@ export function declareRefundExtension(
  *
  * This function marks the option as refundable so it can be processed by `withRefund()`.
  * The merchantPayout is read directly from the option's `payTo` field when processing.
+ * An optional refund policy is published in the refund extension so buyers can see
+ * the refund window, arbiter and dispute terms before paying.
  *
  * @param option - The payment option to mark as refundable
+ * @param policy - Optional refund policy terms (refund window, partial refunds, arbiter, terms URL)
  * @returns A new PaymentOption marked as refundable (does not mutate original)
+ * @throws Error if the policy has an invalid arbiter address or refund window
  *
  * @example
  * ```typescript
- * const refundableOption = refundable({
- *   scheme: "exact",
- *   payTo: "0xmerchant123...",
- *   price: "$0.01",
- *   network: "eip155:84532",
- * });
+ * const refundableOption = refundable(
+ *   {
+ *     scheme: "exact",
+ *     payTo: "0xmerchant123...",
+ *     price: "$0.01",
+ *     network: "eip155:84532",
+ *   },
+ *   {
+ *     refundWindowSeconds: 7 * 24 * 60 * 60, // 7 days
+ *     arbiter: "0xArbiter123...",
+ *     termsUrl: "https://example.com/refunds",
+ *   },
+ * );
  * // refundableOption.extra._x402_refund = true
  * ```
  */
-export function refundable(option: PaymentOption): PaymentOption {
+export function refundable(option: PaymentOption, policy?: RefundPolicy): PaymentOption {
   // Deep clone the option to avoid mutation
   const clonedOption: PaymentOption = {
     ...option,
@@ -100,25 +214,34 @@ export function refundable(option: PaymentOption): PaymentOption {
 
   clonedOption.extra[REFUND_MARKER_KEY] = true;
 
+  if (policy) {
+    validateRefundPolicy(policy);
+    clonedOption.extra[REFUND_POLICY_KEY] = { ...policy };
+  }
+
   return clonedOption;
 }
 
 /**
- * Standard CreateX contract addresses per network.
- * These are the official CreateX deployments from https://github.com/pcaversaccio/createx#createx-deployments
+ * Validates refund policy terms before they are published.
  *
- * Note: If a network is not listed here, CreateX may need to be deployed separately.
- * The factory stores the CreateX address and can be queried via factory.getCreateX().
+ * @param policy - The refund policy to validate
+ * @throws Error if the arbiter is not an address or the refund window is not a non-negative integer
  */
-const STANDARD_CREATEX_ADDRESSES: Record<string, string> = {
-  // Ethereum Mainnet
-  "eip155:1": "0xba5Ed099633D3B313e4D5F7bdc1305d3c32ba066",
-  // Base Mainnet
-  "eip155:8453": "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed",
-  // Base Sepolia
-  "eip155:84532": "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed",
-  // Add more networks as CreateX deployments become available
-};
+function validateRefundPolicy(policy: RefundPolicy): void {
+  if (policy.arbiter !== undefined && !isAddress(policy.arbiter)) {
+    throw new Error(`Refund policy arbiter must be an address, got ${policy.arbiter}`);
+  }
+
+  if (
+    policy.refundWindowSeconds !== undefined &&
+    (!Number.isInteger(policy.refundWindowSeconds) || policy.refundWindowSeconds < 0)
+  ) {
+    throw new Error(
+      `Refund policy refundWindowSeconds must be a non-negative integer, got ${policy.refundWindowSeconds}`,
+    );
+  }
+}
 
 /**
  * Processes route configuration to handle refundable payment options.
@@ -128,10 +251,17 @@ const STANDARD_CREATEX_ADDRESSES: Record<string, string> = {
  * 2. Sets `payTo` to the proxy address
  * 3. Adds the refund extension with factory address
  *
+ * CreateX and factory addresses are resolved per payment option from the option's network,
+ * so a single route can offer refundable options on several chains. Addresses not passed
+ * explicitly are looked up in the network registry.
+ *
  * @param routes - Route configuration (single RouteConfig or Record<string, RouteConfig>)
- * @param factoryAddress - The X402DepositRelayFactory contract address (required)
- * @param createxAddress - The CreateX contract address (optional, will use standard address for network if not provided)
+ * @param factoryAddress - The X402DepositRelayFactory contract address, or a map of network -> factory address (optional, will use the registry's factory for the network if not provided)
+ * @param createxAddress - The CreateX contract address, or a map of network -> CreateX address (optional, will use the registry's CreateX for the network if not provided)
+ * @param registry - The network registry to fall back to (optional, defaults to `defaultRefundNetworkRegistry`)
+ * @param server - The resource server the routes are served by. Required when a refundable option has a dynamic `payTo`: `refundResourceServerExtension` is registered on it to publish each request's relay
  * @returns A new RoutesConfig with refundable options routed to proxy (deep cloned, does not mutate original)
+ * @throws Error if a refundable option has a dynamic `payTo` and no server is given
  *
  * @example
  * ```typescript
@@ -151,13 +281,43 @@ const STANDARD_CREATEX_ADDRESSES: Record<string, string> = {
  * const processedRoutes = withRefund(routes, "0xFactory123...");
  * // processedRoutes["/api"].accepts.payTo = computed proxy address
  * // processedRoutes["/api"].extensions.refund = { info: { factoryAddress: "0xFactory123..." }, schema: {...} }
+ *
+ * // Different factories per network
+ * const multiChainRoutes = withRefund(routes, {
+ *   "eip155:8453": "0xBaseFactory...",
+ *   "eip155:84532": "0xBaseSepoliaFactory...",
+ * });
+ *
+ * // Factories registered once in the network registry
+ * defaultRefundNetworkRegistry.register("eip155:84532", { factoryAddress: "0xFactory123..." });
+ * const registryRoutes = withRefund(routes);
+ *
+ * // A dynamic payTo needs the resource server, to publish each request's relay
+ * const server = new x402ResourceServer(facilitatorClient);
+ * const sellerRoutes = withRefund(dynamicPayToRoutes, undefined, undefined, undefined, server);
  * ```
  */
 export function withRefund(
   routes: RoutesConfig,
-  factoryAddress: string,
-  createxAddress?: string,
+  factoryAddress?: string | Record<string, string>,
+  createxAddress?: string | Record<string, string>,
+  registry: RefundNetworkRegistry = defaultRefundNetworkRegistry,
+  server?: x402ResourceServer,
 ): RoutesConfig {
+  const sources: RefundAddressSources = { factoryAddress, createxAddress, registry };
+
+  // Without the extension, a dynamic payTo's relay is left out of the 402 response and the
+  // payment settles as a plain transfer to the relay
+  if (hasDynamicRefundPayTo(routes)) {
+    if (!server) {
+      throw new Error(
+        "Refundable options with a dynamic payTo need the resource server: pass it to withRefund() " +
+          "so refundResourceServerExtension can publish each request's relay",
+      );
+    }
+    server.registerExtension(refundResourceServerExtension);
+  }
+
   // Deep clone to avoid mutation
   if (typeof routes === "object" && routes !== null && !("accepts" in routes)) {
     // Nested RoutesConfig: Record<string, RouteConfig>
@@ -165,93 +325,118 @@ export function withRefund(
     const processedRoutes: Record<string, RouteConfig> = {};
 
     for (const [pattern, config] of Object.entries(nestedRoutes)) {
-      processedRoutes[pattern] = processRouteConfig(config, factoryAddress, createxAddress);
+      processedRoutes[pattern] = processRouteConfig(config, sources);
     }
 
     return processedRoutes;
   } else {
     // Single RouteConfig
-    return processRouteConfig(routes as RouteConfig, factoryAddress, createxAddress);
+    return processRouteConfig(routes as RouteConfig, sources);
   }
 }
 
+/**
+ * Checks whether any refundable option of the routes has a dynamic `payTo`.
+ *
+ * @param routes - Route configuration (single RouteConfig or Record<string, RouteConfig>)
+ * @returns True if a refundable option resolves its payTo per request
+ */
+function hasDynamicRefundPayTo(routes: RoutesConfig): boolean {
+  const configs =
+    typeof routes === "object" && routes !== null && !("accepts" in routes)
+      ? Object.values(routes as Record<string, RouteConfig>)
+      : [routes as RouteConfig];
+  return configs.some(config =>
+    (Array.isArray(config.accepts) ? config.accepts : [config.accepts]).some(
+      option => isRefundableOption(option) && typeof option.payTo === "function",
+    ),
+  );
+}
+
 /**
  * Gets the CreateX address for a given network.
- * First checks if provided explicitly, then falls back to standard addresses.
+ * First checks if provided explicitly, then falls back to the network registry.
  *
  * @param network - The network identifier (e.g., "eip155:84532")
- * @param providedAddress - Optional CreateX address provided by user
+ * @param sources - Explicit addresses and the registry to fall back to
  * @returns The CreateX address to use
  * @throws Error if no CreateX address can be determined
  */
-function getCreateXAddress(network: string, providedAddress?: string): string {
-  if (providedAddress) {
-    return providedAddress;
+function getCreateXAddress(network: string, sources: RefundAddressSources): string {
+  const { createxAddress, registry } = sources;
+  const explicitAddress =
+    typeof createxAddress === "string" ? createxAddress : createxAddress?.[network];
+  if (explicitAddress) {
+    return explicitAddress;
   }
 
-  const standardAddress = STANDARD_CREATEX_ADDRESSES[network];
-  if (standardAddress) {
-    return standardAddress;
+  const registeredAddress = registry.getCreateXAddress(network);
+  if (registeredAddress) {
+    return registeredAddress;
   }
 
   throw new Error(
-    `CreateX address not provided and no standard address found for network ${network}. ` +
-      `Please provide createxAddress parameter or check if CreateX is deployed on this network. ` +
+    `CreateX address not provided and no registered address found for network ${network}. ` +
+      `Please provide createxAddress parameter or register the network in the RefundNetworkRegistry. ` +
       `See https://github.com/pcaversaccio/createx#createx-deployments for standard deployments.`,
   );
 }
 
+/**
+ * Gets the factory address for a given network.
+ * First checks if provided explicitly, then falls back to the network registry.
+ *
+ * @param network - The network identifier (e.g., "eip155:84532")
+ * @param sources - Explicit addresses and the registry to fall back to
+ * @returns The factory address to use
+ * @throws Error if no factory address can be determined
+ */
+function getFactoryAddress(network: string, sources: RefundAddressSources): string {
+  const { factoryAddress, registry } = sources;
+  const explicitAddress =
+    typeof factoryAddress === "string" ? factoryAddress : factoryAddress?.[network];
+  if (explicitAddress) {
+    return explicitAddress;
+  }
+
+  const registeredAddress = registry.getFactoryAddress(network);
+  if (registeredAddress) {
+    return registeredAddress;
+  }
+
+  throw new Error(
+    `No X402DepositRelayFactory address provided or registered for network ${network}. ` +
+      `Please provide factoryAddress parameter or register the network in the RefundNetworkRegistry.`,
+  );
+}
+
 /**
  * Processes a single RouteConfig to transform refundable payment options.
  *
  * @param config - The route configuration to process
- * @param factoryAddress - The X402DepositRelayFactory contract address
- * @param createxAddress - The CreateX contract address (optional)
+ * @param sources - Explicit addresses and the registry to resolve per-network addresses from
  * @returns A new RouteConfig with refundable options transformed
  */
-function processRouteConfig(
-  config: RouteConfig,
-  factoryAddress: string,
-  createxAddress?: string,
-): RouteConfig {
-  // Get the network from the first payment option to determine CreateX address
-  const firstOption = Array.isArray(config.accepts) ? config.accepts[0] : config.accepts;
-  const network = firstOption?.network;
-
-  if (!network) {
-    throw new Error("Payment option must have a network field to determine CreateX address");
-  }
+function processRouteConfig(config: RouteConfig, sources: RefundAddressSources): RouteConfig {
+  const options = Array.isArray(config.accepts) ? config.accepts : [config.accepts];
+  const refundableOptions = options.filter(isRefundableOption);
 
-  // Get CreateX address (from parameter or standard mapping)
-  const resolvedCreatexAddress = getCreateXAddress(network, createxAddress);
-
-  // Check if any option is refundable
-  const hasRefundable = Array.isArray(config.accepts)
-    ? config.accepts.some(isRefundableOption)
-    : isRefundableOption(config.accepts);
-
-  // Build map of proxyAddress -> merchantPayout BEFORE processing options
-  // This allows us to store all merchantPayouts even if there are multiple refundable options
-  const merchantPayoutsMap: Record<string, string> = {};
-
-  if (hasRefundable) {
-    const refundableOptions = Array.isArray(config.accepts)
-      ? config.accepts.filter(isRefundableOption)
-      : isRefundableOption(config.accepts)
-        ? [config.accepts]
-        : [];
-
-    // Collect merchantPayouts from original options before processing
-    for (const option of refundableOptions) {
-      if (typeof option.payTo === "string") {
-        const merchantPayout = option.payTo; // Original merchantPayout (before we overwrite it)
-        const proxyAddress = computeRelayAddress(
-          resolvedCreatexAddress,
-          factoryAddress,
-          merchantPayout,
-        );
-        merchantPayoutsMap[proxyAddress.toLowerCase()] = merchantPayout;
-      }
+  // Maps of proxyAddress -> merchantPayout (and policy), filled in while processing options
+  // This allows us to store all merchantPayouts even if there are multiple refundable options.
+  // Only static payTo options are recorded here; dynamic ones are added per request by
+  // `refundResourceServerExtension`.
+  const maps: RefundExtensionMaps = { merchantPayouts: {}, networks: {}, policies: {} };
+
+  for (const option of refundableOptions) {
+    if (!option.network) {
+      throw new Error("Payment option must have a network field to determine CreateX address");
+    }
+
+    if (!maps.networks[option.network]) {
+      maps.networks[option.network] = {
+        factoryAddress: getFactoryAddress(option.network, sources),
+        merchantPayouts: {},
+      };
     }
   }
 
@@ -259,25 +444,24 @@ function processRouteConfig(
   const processedConfig: RouteConfig = {
     ...config,
     accepts: Array.isArray(config.accepts)
-      ? config.accepts.map(option =>
-          processPaymentOption(option, factoryAddress, resolvedCreatexAddress),
-        )
-      : processPaymentOption(config.accepts, factoryAddress, resolvedCreatexAddress),
+      ? config.accepts.map(option => processPaymentOption(option, sources, maps))
+      : processPaymentOption(config.accepts, sources, maps),
     extensions: {
       ...config.extensions,
     },
   };
 
   // Add refund extension if any option is refundable
-  if (hasRefundable && Object.keys(merchantPayoutsMap).length > 0) {
+  if (refundableOptions.length > 0) {
     processedConfig.extensions = {
       ...processedConfig.extensions,
-      ...declareRefundExtension(factoryAddress, merchantPayoutsMap),
+      ...declareRefundExtension(
+        maps.networks[refundableOptions[0].network].factoryAddress,
+        maps.merchantPayouts,
+        maps.networks,
+        maps.policies,
+      ),
     };
-  } else if (hasRefundable) {
-    throw new Error(
-      "Refundable option must have a string payTo address. DynamicPayTo is not supported for refundable options.",
-    );
   }
 
   return processedConfig;
@@ -286,44 +470,75 @@ function processRouteConfig(
 /**
  * Processes a single PaymentOption to transform it if refundable.
  *
+ * CreateX and factory addresses are resolved from the option's own network.
+ * A static `payTo` is replaced with the proxy address directly and recorded in the route's
+ * refund extension maps. A DynamicPayTo is wrapped in a new resolver that calls the original,
+ * computes the proxy address for the returned merchantPayout and records it for the current
+ * request only (see `refundResourceServerExtension`) before returning the proxy address.
+ *
  * @param option - The payment option to process
- * @param factoryAddress - The X402DepositRelayFactory contract address
- * @param createxAddress - The CreateX contract address (required)
+ * @param sources - Explicit addresses and the registry to resolve per-network addresses from
+ * @param maps - The merchantPayouts, networks and policies maps published in the refund extension
  * @returns A new PaymentOption (transformed if refundable, unchanged otherwise)
  */
 function processPaymentOption(
   option: PaymentOption,
-  factoryAddress: string,
-  createxAddress: string,
+  sources: RefundAddressSources,
+  maps: RefundExtensionMaps,
 ): PaymentOption {
   // Check if option is refundable
   if (isRefundableOption(option)) {
     // Read merchantPayout directly from payTo field (before we overwrite it)
     const merchantPayout = option.payTo;
+    const policy = option.extra?.[REFUND_POLICY_KEY] as RefundPolicy | undefined;
 
-    // If it's a function (DynamicPayTo), we can't compute the address (would need to call it)
-    // For now, require it to be a string
-    if (typeof merchantPayout !== "string") {
-      throw new Error(
-        "DynamicPayTo is not supported for refundable options. Use a static address.",
-      );
-    }
+    // Resolve CreateX and factory for this option's network
+    const resolvedFactoryAddress = getFactoryAddress(option.network, sources);
+    const resolvedCreatexAddress = getCreateXAddress(option.network, sources);
 
     // Compute proxy address using CREATE3 (no bytecode needed!)
-    const proxyAddress = computeRelayAddress(createxAddress, factoryAddress, merchantPayout);
+    const toProxy = (payout: string): string =>
+      computeRelayAddress(resolvedCreatexAddress, resolvedFactoryAddress, payout);
+
+    let payTo: PaymentOption["payTo"];
+    if (typeof merchantPayout === "string") {
+      // Static payTo: record the proxy in the route's refund extension
+      payTo = toProxy(merchantPayout);
+      maps.merchantPayouts[payTo.toLowerCase()] = merchantPayout;
+      maps.networks[option.network].merchantPayouts[payTo.toLowerCase()] = merchantPayout;
+      if (policy) {
+        maps.policies[payTo.toLowerCase()] = policy;
+      }
+    } else {
+      // DynamicPayTo: resolve the merchantPayout per request and record it for that request
+      payTo = async context => {
+        const payout = await merchantPayout(context);
+        const proxyAddress = toProxy(payout);
+        const entries = resolvedEntriesByRequest.get(context) ?? [];
+        entries.push({
+          network: option.network,
+          proxyAddress: proxyAddress.toLowerCase(),
+          merchantPayout: payout,
+          policy,
+        });
+        resolvedEntriesByRequest.set(context, entries);
+        return proxyAddress;
+      };
+    }
 
     // Deep clone the option
     const processedOption: PaymentOption = {
       ...option,
-      payTo: proxyAddress, // Set payTo to proxy address
+      payTo, // Set payTo to proxy address (or proxy resolver)
       extra: {
         ...option.extra,
       },
     };
 
-    // Remove the marker since we've processed it
+    // Remove the markers since we've processed them
     if (processedOption.extra) {
       delete processedOption.extra[REFUND_MARKER_KEY];
+      delete processedOption.extra[REFUND_POLICY_KEY];
     }
 
     return processedOption;
@@ -332,3 +547,56 @@ function processPaymentOption(
   // Not refundable, return as-is (still clone to avoid mutation)
   return { ...option, extra: { ...option.extra } };
 }
+
+/**
+ * Resource server extension that publishes the relays resolved by dynamic `payTo` functions.
+ *
+ * `withRefund()` can only list static payouts in a route's refund extension. For an option
+ * with a dynamic `payTo`, the relay is computed per request, and this extension adds that
+ * request's `proxy -> merchantPayout` entries (and policies) to a copy of the route's
+ * declaration when the 402 response is built. `withRefund()` registers it on the resource server
+ * it is given, and requires one for routes with a dynamic `payTo`: without it, those options
+ * would be published without their relay and the facilitator would settle them as plain
+ * payments.
+ *
+ * @example
+ * ```typescript
+ * const server = new x402ResourceServer(facilitatorClient);
+ * const processedRoutes = withRefund(routes, undefined, undefined, undefined, server);
+ * ```
+ */
+export const refundResourceServerExtension: ResourceServerExtension = {
+  key: REFUND_EXTENSION_KEY,
+  enrichDeclaration: (declaration, transportContext) => {
+    const entries =
+      typeof transportContext === "object" && transportContext !== null
+        ? resolvedEntriesByRequest.get(transportContext)
+        : undefined;
+    const extension = declaration as RefundExtension | undefined;
+    if (!entries?.length || !extension?.info) {
+      return declaration;
+    }
+
+    // Copy every map the request's entries are added to; the route's declaration is shared
+    const info = {
+      ...extension.info,
+      merchantPayouts: { ...extension.info.merchantPayouts },
+      networks: { ...extension.info.networks },
+      policies: { ...extension.info.policies },
+    };
+    for (const { network, proxyAddress, merchantPayout, policy } of entries) {
+      const networkInfo = info.networks[network];
+      info.merchantPayouts[proxyAddress] = merchantPayout;
+      if (networkInfo) {
+        info.networks[network] = {
+          ...networkInfo,
+          merchantPayouts: { ...networkInfo.merchantPayouts, [proxyAddress]: merchantPayout },
+        };
+      }
+      if (policy) {
+        info.policies[proxyAddress] = policy;
+      }
+    }
+    return { ...extension, info };
+  },
+};
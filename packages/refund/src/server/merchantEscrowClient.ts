@@ -0,0 +1,201 @@
+/**
+ * Merchant-side escrow client
+ *
+ * Lets a merchant backend manage its escrow from code: register with an arbiter,
+ * list and read its deposits, release funds and send refunds.
+ */
+
+import { getAddress, type PublicClient, type WalletClient } from "viem";
+import { ESCROW_ABI } from "../abis";
+import { EscrowCallError } from "../errors";
+import {
+  listEscrowDeposits,
+  readEscrowDeposit,
+  resolveFromBlock,
+  writeEscrowContract,
+  type EscrowDeposit,
+  type EscrowDepositFilter,
+  type EscrowTransactionResult,
+  type EscrowWriteArgs,
+  type EscrowWriteFunction,
+} from "../escrow/escrowContract";
+
+/**
+ * Configuration for a MerchantEscrowClient
+ */
+export interface MerchantEscrowClientConfig {
+  /** viem public client for reads and receipts */
+  publicClient: PublicClient;
+  /** viem wallet client (with an account) that sends registerMerchant, release and refund */
+  walletClient?: WalletClient;
+  /** The escrow the merchant's relay deposits into */
+  escrowAddress: string;
+  /** The merchant payout address deposits are recorded for */
+  merchantPayout: string;
+  /** First block searched by listDeposits (e.g. the escrow deployment block) */
+  fromBlock?: bigint;
+}
+
+/**
+ * Escrow client for one merchant.
+ *
+ * @example
+ * ```typescript
+ * const merchant = new MerchantEscrowClient({
+ *   publicClient,
+ *   walletClient,
+ *   escrowAddress: "0xEscrow123...",
+ *   merchantPayout: "0xMerchant123...",
+ *   fromBlock: 12_345_678n, // the escrow deployment block
+ * });
+ *
+ * if (!(await merchant.isRegistered())) {
+ *   await merchant.register("0xArbiter123...");
+ * }
+ * for (const deposit of await merchant.listDeposits({ open: true })) {
+ *   await merchant.release(deposit.user, deposit.depositNonce);
+ * }
+ * ```
+ */
+export class MerchantEscrowClient {
+  readonly escrowAddress: `0x${string}`;
+  readonly merchantPayout: `0x${string}`;
+  private readonly publicClient: PublicClient;
+  private readonly walletClient?: WalletClient;
+  private readonly fromBlock?: bigint;
+
+  /**
+   * Creates a MerchantEscrowClient.
+   *
+   * @param config - viem clients, escrow, merchant payout address and first block to search
+   */
+  constructor(config: MerchantEscrowClientConfig) {
+    this.publicClient = config.publicClient;
+    this.walletClient = config.walletClient;
+    this.fromBlock = config.fromBlock;
+    this.escrowAddress = getAddress(config.escrowAddress);
+    this.merchantPayout = getAddress(config.merchantPayout);
+  }
+
+  /**
+   * Registers the merchant with the escrow. Deposits fail until the merchant is registered.
+   *
+   * @param arbiter - The arbiter that resolves the merchant's disputes
+   * @returns The confirmed registerMerchant transaction
+   * @throws EscrowCallError if the call reverts (e.g. MerchantAlreadyRegistered)
+   */
+  async register(arbiter: string): Promise<EscrowTransactionResult> {
+    return this.write("registerMerchant", [this.merchantPayout, getAddress(arbiter)]);
+  }
+
+  /**
+   * Checks whether the merchant is registered with the escrow.
+   *
+   * @returns True if registered
+   */
+  async isRegistered(): Promise<boolean> {
+    return this.publicClient.readContract({
+      address: this.escrowAddress,
+      abi: ESCROW_ABI,
+      functionName: "registeredMerchants",
+      args: [this.merchantPayout],
+    });
+  }
+
+  /**
+   * Gets the merchant's arbiter.
+   *
+   * @returns The arbiter address (zero address if not registered)
+   */
+  async getArbiter(): Promise<`0x${string}`> {
+    return this.publicClient.readContract({
+      address: this.escrowAddress,
+      abi: ESCROW_ABI,
+      functionName: "getArbiter",
+      args: [this.merchantPayout],
+    });
+  }
+
+  /**
+   * Reads one of the merchant's deposits.
+   *
+   * @param user - The buyer the deposit is recorded for
+   * @param depositNonce - The escrow deposit nonce
+   * @returns The deposit, or undefined if none is recorded for this merchant
+   */
+  async getDeposit(user: string, depositNonce: bigint): Promise<EscrowDeposit | undefined> {
+    const deposit = await readEscrowDeposit(
+      this.publicClient,
+      this.escrowAddress,
+      user,
+      depositNonce,
+    );
+    return deposit?.merchantPayout === this.merchantPayout ? deposit : undefined;
+  }
+
+  /**
+   * Lists the merchant's deposits from the escrow's DepositNoted events.
+   *
+   * @param filter - Buyer and block range (from the configured `fromBlock` by default), and
+   * `open` to list only deposits still held
+   * @returns The deposits with their current state, oldest first
+   * @throws Error if no `fromBlock` is given or configured
+   */
+  async listDeposits(
+    filter: Omit<Partial<EscrowDepositFilter>, "merchantPayout"> & { open?: boolean } = {},
+  ): Promise<EscrowDeposit[]> {
+    const deposits = await listEscrowDeposits(this.publicClient, this.escrowAddress, {
+      ...filter,
+      fromBlock: resolveFromBlock(filter.fromBlock, this.fromBlock),
+      merchantPayout: this.merchantPayout,
+    });
+    return filter.open ? deposits.filter(deposit => deposit.open) : deposits;
+  }
+
+  /**
+   * Releases a deposit to the merchant.
+   *
+   * @param user - The buyer the deposit is recorded for
+   * @param depositNonce - The escrow deposit nonce
+   * @returns The confirmed release transaction
+   * @throws EscrowCallError if the call reverts (e.g. DepositNotFound, NotMerchant)
+   */
+  async release(user: string, depositNonce: bigint): Promise<EscrowTransactionResult> {
+    return this.write("release", [getAddress(user), depositNonce]);
+  }
+
+  /**
+   * Refunds a deposit to the buyer.
+   *
+   * @param user - The buyer the deposit is recorded for
+   * @param depositNonce - The escrow deposit nonce
+   * @returns The confirmed refund transaction
+   * @throws EscrowCallError if the call reverts (e.g. DepositNotFound, NotMerchant)
+   */
+  async refund(user: string, depositNonce: bigint): Promise<EscrowTransactionResult> {
+    return this.write("refund", [getAddress(user), depositNonce]);
+  }
+
+  /**
+   * Sends an escrow write call with the wallet client.
+   *
+   * @param functionName - The escrow function
+   * @param args - The function arguments
+   * @returns The confirmed transaction
+   */
+  private async write(
+    functionName: EscrowWriteFunction,
+    args: EscrowWriteArgs,
+  ): Promise<EscrowTransactionResult> {
+    if (!this.walletClient) {
+      throw new EscrowCallError(this.escrowAddress, functionName, "no wallet client configured");
+    }
+    return writeEscrowContract(
+      this.publicClient,
+      this.walletClient,
+      this.escrowAddress,
+      functionName,
+      args,
+    );
+  }
+}
@@ -3,6 +3,11 @@
  */
 
 import type { PaymentOption } from "@x402/core/http";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import type { RefundNetworkRegistry } from "./networks";
+import type { RefundTrustPolicy } from "./facilitator/trustPolicy";
+import type { RefundRetryPolicy } from "./facilitator/retryPolicy";
+import type { RelayInfoCache } from "./facilitator/relayInfoCache";
 
 /**
  * Extension identifier constant for the refund extension
@@ -16,15 +21,56 @@ export const REFUND_EXTENSION_KEY = "refund";
  */
 export const REFUND_MARKER_KEY = "_x402_refund";
 
+/**
+ * Constant for the refund policy key (internal marker)
+ * Holds the RefundPolicy passed to refundable() until withRefund() publishes it
+ */
+export const REFUND_POLICY_KEY = "_x402_refund_policy";
+
+/**
+ * Refund policy terms published with a refundable option
+ *
+ * Tells buyers what "refundable" guarantees before they pay:
+ * how long they can dispute, who arbitrates and under which rules.
+ */
+export interface RefundPolicy {
+  refundWindowSeconds?: number; // How long after payment the buyer can request a refund
+  allowPartialRefunds?: boolean; // Whether the arbiter may refund part of the payment
+  arbiter?: string; // Address of the arbiter that resolves disputes
+  termsUrl?: string; // URL of the full refund and dispute terms
+  disputeRules?: string; // Short human-readable summary of the dispute rules
+}
+
+/**
+ * Per-network refund deployment info
+ *
+ * factoryAddress: The X402DepositRelayFactory deployed on this network
+ * merchantPayouts: Map of proxy address -> merchantPayout for options on this network
+ */
+export interface RefundNetworkInfo {
+  factoryAddress: string;
+  merchantPayouts: Record<string, string>; // proxyAddress -> merchantPayout
+}
+
 /**
  * Refund extension info structure
  *
  * merchantPayouts: Map of proxy address -> merchantPayout
  * This allows multiple refundable options with different merchantPayouts
+ *
+ * networks: Map of CAIP-2 network id -> per-network factory and merchantPayouts
+ * This allows one route to offer refundable options on several chains.
+ * factoryAddress and merchantPayouts stay at the top level for facilitators that
+ * only read a single factory (factoryAddress is the first refundable option's factory,
+ * merchantPayouts is the union across all networks).
+ *
+ * policies: Map of proxy address -> refund policy terms for that option
  */
 export interface RefundExtensionInfo {
   factoryAddress: string;
   merchantPayouts: Record<string, string>; // proxyAddress -> merchantPayout
+  networks?: Record<string, RefundNetworkInfo>; // network -> RefundNetworkInfo
+  policies?: Record<string, RefundPolicy>; // proxyAddress -> RefundPolicy
 }
 
 /**
@@ -49,12 +95,144 @@ export interface RefundExtension {
         };
         description: "Map of proxy address to merchant payout address";
       };
+      networks: {
+        type: "object";
+        additionalProperties: {
+          type: "object";
+          properties: {
+            factoryAddress: {
+              type: "string";
+              pattern: "^0x[a-fA-F0-9]{40}$";
+            };
+            merchantPayouts: {
+              type: "object";
+              additionalProperties: {
+                type: "string";
+                pattern: "^0x[a-fA-F0-9]{40}$";
+              };
+            };
+          };
+          required: ["factoryAddress", "merchantPayouts"];
+        };
+        description: "Map of network to its factory address and proxy to merchant payout map";
+      };
+      policies: {
+        type: "object";
+        additionalProperties: {
+          type: "object";
+          properties: {
+            refundWindowSeconds: {
+              type: "integer";
+              minimum: 0;
+              description: "How long after payment the buyer can request a refund, in seconds";
+            };
+            allowPartialRefunds: {
+              type: "boolean";
+              description: "Whether the arbiter may refund part of the payment";
+            };
+            arbiter: {
+              type: "string";
+              pattern: "^0x[a-fA-F0-9]{40}$";
+              description: "Address of the arbiter that resolves disputes";
+            };
+            termsUrl: {
+              type: "string";
+              format: "uri";
+              description: "URL of the full refund and dispute terms";
+            };
+            disputeRules: {
+              type: "string";
+              description: "Short human-readable summary of the dispute rules";
+            };
+          };
+          additionalProperties: false;
+        };
+        description: "Map of proxy address to refund policy terms";
+      };
     };
     required: ["factoryAddress", "merchantPayouts"];
     additionalProperties: false;
   };
 }
 
+/**
+ * Refund receipt for an escrowed payment, returned in `SettleResponse.extensions.refund.receipt`
+ *
+ * Holds what a buyer needs to ask for a refund: the escrow and the deposit nonce
+ * (escrow.refund(user, depositNonce)), plus the recorded deposit.
+ */
+export interface RefundReceipt {
+  network: string; // CAIP-2 network id
+  escrow: string; // Escrow holding the deposit
+  depositNonce: string; // Escrow deposit nonce (uint256, decimal)
+  payer: string; // User the deposit is recorded for
+  merchantPayout: string; // Merchant the deposit is released to
+  amount: string; // Deposited principal in token base units (decimal)
+  timestamp: number; // Unix time (seconds) the deposit was noted
+  transaction: string; // executeDeposit (or batch) transaction hash
+}
+
+/**
+ * A facilitator signer, plus the optional capabilities refund settlement uses when present
+ * (a viem wallet client extended with `publicActions` has them all)
+ */
+export type RefundFacilitatorSigner = FacilitatorEvmSigner & {
+  /**
+   * Runs a state-changing contract call as an eth_call from `account`, throwing on revert
+   * (e.g. viem's `simulateContract`). Without it, deposits and deployments are not simulated.
+   */
+  simulateContract?(args: {
+    address: `0x${string}`;
+    abi: readonly unknown[];
+    functionName: string;
+    args: readonly unknown[];
+    account: `0x${string}`;
+  }): Promise<unknown>;
+  /**
+   * Gets how many blocks have confirmed a transaction, 0 while it is not mined (e.g. viem's
+   * `getTransactionConfirmations`). Required for a confirmation depth above 1.
+   */
+  getTransactionConfirmations?(args: { hash: `0x${string}` }): Promise<bigint>;
+};
+
+/**
+ * Options for `verifyWithRefundHelper()`
+ */
+export interface VerifyWithRefundOptions {
+  /**
+   * Network registry with known escrows and supported tokens per network
+   * (defaults to `defaultRefundNetworkRegistry`)
+   */
+  registry?: RefundNetworkRegistry;
+  /**
+   * Factories and escrows the facilitator trusts, per network.
+   * When set, settlements using any other factory or escrow are rejected
+   * before a write transaction is sent. When unset, every factory is trusted.
+   */
+  trustPolicy?: RefundTrustPolicy;
+  /**
+   * Backoff for retried contract reads and executeDeposit submissions
+   * (unset fields default to `DEFAULT_REFUND_RETRY_POLICY`)
+   */
+  retryPolicy?: Partial<RefundRetryPolicy>;
+  /**
+   * Cache for factory and relay deployment status, relay immutables, relay addresses
+   * and merchant registration (defaults to `defaultRelayInfoCache`, an in-memory LRU)
+   */
+  relayInfoCache?: RelayInfoCache;
+  /**
+   * How long a merchant's escrow registration stays cached, in milliseconds (0 disables it)
+   *
+   * @default 60000
+   */
+  merchantRegistrationTtlMs?: number;
+  /**
+   * Multicall3 contract used to batch the preflight reads, or false to read one call at a time
+   * (defaults to the canonical deployment; chains without it fall back to individual reads)
+   */
+  multicallAddress?: string | false;
+}
+
 /**
  * Type guard to check if a payment option is refundable
  * A refundable option has a marker stored in extra
@@ -72,3 +250,21 @@ export function isRefundableOption(option: PaymentOption): boolean {
     option.extra[REFUND_MARKER_KEY] === true
   );
 }
+
+/**
+ * Looks up a relay's merchant payout in a refund extension's `merchantPayouts` map.
+ * Keys are matched case-insensitively, so lowercase and checksummed keys both work.
+ *
+ * @param merchantPayouts - The map of relay address to merchant payout
+ * @param proxyAddress - The relay address (an option's `payTo`)
+ * @returns The merchant payout, or undefined if the relay is not listed
+ */
+export function getMerchantPayout(
+  merchantPayouts: Record<string, string> | undefined,
+  proxyAddress: string,
+): string | undefined {
+  const key = proxyAddress.toLowerCase();
+  return Object.entries(merchantPayouts ?? {}).find(
+    ([relay, merchantPayout]) => relay.toLowerCase() === key && merchantPayout,
+  )?.[1];
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { encodeAbiParameters, encodeErrorResult, encodeEventTopics, getAddress } from "viem";
+import { ERC3009_ABI, ESCROW_ABI, FACTORY_ABI, RELAY_PROXY_ABI } from "../../src/abis";
+import { decodeRefundRevert } from "../../src/facilitator/decodeRevert";
+import { readRefundReceipt } from "../../src/facilitator/refundReceipt";
+
+// The ABIs are written by hand (see abis.ts). These values pin their signatures, so a
+// change to an event or error is a deliberate edit here too. The OpenZeppelin and CreateX
+// selectors match the ones those projects publish.
+const DEPOSIT_NOTED_TOPIC = "0xd26148240a4a6b2af9ee64b9ba2433ba8123722871e4f024275ee11f7de8af77";
+const ERROR_SELECTORS: Record<string, string> = {
+  ZeroAddress: "0xd92e233d",
+  FailedContractCreation: "0xc05cee7a",
+  FailedContractInitialisation: "0xa57ca239",
+  MerchantNotRegistered: "0x9447c6ce",
+  MerchantAlreadyRegistered: "0x951233de",
+  NotArbiter: "0x720c75c2",
+  NotMerchant: "0xc7eff517",
+  DepositNotFound: "0xa6233a29",
+  ZeroAmount: "0x1f2a2005",
+  ReentrancyGuardReentrantCall: "0x3ee5aeb5",
+  SafeERC20FailedOperation: "0x5274afe7",
+  TransferFailed: "0x90b8ec18",
+  AuthorizationAlreadyUsed: "0xd309466d",
+  AuthorizationNotYetValid: "0xdf8e4372",
+  AuthorizationExpired: "0x0f05f5bf",
+  InvalidSignature: "0x8baa579f",
+  ERC20InsufficientBalance: "0xe450d38c",
+  ERC20InvalidSender: "0x96c6fd1e",
+  ERC20InvalidReceiver: "0xec442f05",
+};
+
+const escrow = getAddress("0x5555555555555555555555555555555555555555");
+const payer = getAddress("0x6666666666666666666666666666666666666666");
+const merchantPayout = getAddress("0x7777777777777777777777777777777777777777");
+
+/**
+ * Example argument for an ABI parameter type.
+ *
+ * @param type - The Solidity type
+ * @returns A value of that type
+ */
+function sampleArg(type: string): unknown {
+  switch (type) {
+    case "address":
+      return payer;
+    case "bytes32":
+      return `0x${"ab".repeat(32)}`;
+    case "bytes":
+      return "0x1234";
+    default:
+      return 42n;
+  }
+}
+
+describe("DepositNoted", () => {
+  it("has the pinned event topic", () => {
+    const [topic] = encodeEventTopics({ abi: ESCROW_ABI, eventName: "DepositNoted" });
+    expect(topic).toBe(DEPOSIT_NOTED_TOPIC);
+  });
+
+  it("decodes the deposit nonce from an encoded receipt log", async () => {
+    const log = {
+      address: escrow.toLowerCase(),
+      topics: encodeEventTopics({
+        abi: ESCROW_ABI,
+        eventName: "DepositNoted",
+        args: { user: payer, merchantPayout, depositNonce: 7n },
+      }),
+      data: encodeAbiParameters([{ type: "uint256" }], [10_000n]),
+    };
+    const otherLog = { address: escrow, topics: [`0x${"00".repeat(32)}`], data: "0x" };
+    const reads: unknown[] = [];
+    const signer = {
+      readContract: async (args: unknown) => {
+        reads.push(args);
+        return [10_000n, 1_700_000_000n, 7n, merchantPayout];
+      },
+    } as unknown as FacilitatorEvmSigner;
+
+    const receipt = await readRefundReceipt(signer, {
+      network: "eip155:84532",
+      escrowAddress: escrow,
+      payer,
+      merchantPayout,
+      amount: "10000",
+      transaction: "0xabc",
+      receipt: { logs: [otherLog, log] },
+    });
+
+    expect(receipt).toEqual({
+      network: "eip155:84532",
+      escrow,
+      depositNonce: "7",
+      payer,
+      merchantPayout,
+      amount: "10000",
+      timestamp: 1_700_000_000,
+      transaction: "0xabc",
+    });
+    expect(reads).toMatchObject([{ functionName: "deposits", args: [payer, 7n] }]);
+  });
+});
+
+describe("custom errors", () => {
+  const errors = [...FACTORY_ABI, ...ESCROW_ABI, ...RELAY_PROXY_ABI, ...ERC3009_ABI].filter(
+    item => item.type === "error",
+  );
+
+  it.each(errors.map(item => [item.name, item] as const))(
+    "round-trips %s through decodeRefundRevert",
+    (name, item) => {
+      const args = item.inputs.map(input => sampleArg(input.type));
+      const data = encodeErrorResult({ abi: [item], errorName: name, args } as never);
+      const revert = decodeRefundRevert({ cause: { data } });
+
+      expect(revert?.selector).toBe(ERROR_SELECTORS[name]);
+      expect(revert?.errorName).toBe(name);
+      expect(revert?.args).toEqual(args);
+    },
+  );
+
+  it("reports an unknown selector instead of throwing", () => {
+    const revert = decodeRefundRevert({ cause: { data: "0xdeadbeef" } });
+    expect(revert).toMatchObject({ errorName: "UnknownError", selector: "0xdeadbeef" });
+  });
+});
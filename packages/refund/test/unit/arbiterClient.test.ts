@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PublicClient, WalletClient } from "viem";
+import { ArbiterClient } from "../../src/arbiter/arbiterClient";
+import { InMemoryArbiterDisputeStore, type ArbiterDispute } from "../../src/arbiter/disputeStore";
+import { ArbiterDisputeError } from "../../src/errors";
+
+const escrow = "0x2222222222222222222222222222222222222222";
+const user = "0x3333333333333333333333333333333333333333";
+const merchantPayout = "0x4444444444444444444444444444444444444444";
+const transaction = `0x${"aa".repeat(32)}` as const;
+
+/**
+ * Builds a decided refund dispute.
+ *
+ * @returns The dispute
+ */
+function decidedDispute(): ArbiterDispute {
+  return {
+    id: "dispute",
+    request: {
+      request: {
+        network: "eip155:84532",
+        escrow,
+        user,
+        depositNonce: "1",
+        merchantPayout,
+        amount: "1000",
+        reason: "Not delivered",
+        evidenceHash: `0x${"00".repeat(32)}`,
+        requestedAt: 1_700_000_000,
+      },
+      signature: "0x",
+    },
+    evidenceHashes: [],
+    status: "decided",
+    decision: { outcome: "refund", decidedAt: 1 },
+    submittedAt: 1,
+    updatedAt: 1,
+  };
+}
+
+/**
+ * Builds an arbiter client over a deposit of the given principal.
+ *
+ * @param principal - The deposit's principal (zero once closed)
+ * @param waitForTransactionReceipt - The public client's receipt wait
+ * @returns The client, its store and the wallet's writeContract mock
+ */
+async function setup(principal: bigint, waitForTransactionReceipt: () => Promise<unknown>) {
+  const publicClient = {
+    readContract: vi.fn(async () => [principal, 1_700_000_000n, 1n, merchantPayout]),
+    simulateContract: vi.fn(async args => ({ request: args })),
+    waitForTransactionReceipt: vi.fn(waitForTransactionReceipt),
+  } as unknown as PublicClient;
+  const writeContract = vi.fn(async () => transaction);
+  const walletClient = {
+    account: { address: "0x5555555555555555555555555555555555555555" },
+    writeContract,
+  } as unknown as WalletClient;
+
+  const store = new InMemoryArbiterDisputeStore();
+  await store.put(decidedDispute());
+  const client = new ArbiterClient({
+    publicClient,
+    walletClient,
+    network: "eip155:84532",
+    escrowAddress: escrow,
+    merchantPayouts: [merchantPayout],
+    store,
+  });
+  return { client, store, writeContract };
+}
+
+describe("ArbiterClient.execute", () => {
+  it("records the transaction before its receipt and does not send it again", async () => {
+    const receipt = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Timed out while waiting for transaction"))
+      .mockResolvedValue({ status: "success" });
+    const { client, store, writeContract } = await setup(1000n, receipt);
+
+    await expect(client.execute("dispute")).rejects.toThrow(/Timed out/);
+    expect((await store.get("dispute"))?.decision?.transaction).toBe(transaction);
+    await expect(client.decide("dispute", "release")).rejects.toBeInstanceOf(ArbiterDisputeError);
+
+    const executed = await client.execute("dispute");
+    expect(executed.status).toBe("executed");
+    expect(executed.decision?.transaction).toBe(transaction);
+    expect(writeContract).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not send again once the deposit was closed by another transaction", async () => {
+    const { client, store, writeContract } = await setup(0n, async () => ({ status: "reverted" }));
+    await store.put({
+      ...decidedDispute(),
+      decision: { outcome: "refund", decidedAt: 1, transaction },
+    });
+
+    await expect(client.execute("dispute")).rejects.toMatchObject({ code: "DEPOSIT_CLOSED" });
+    expect(writeContract).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+import { Readable } from "node:stream";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, expect, it, vi } from "vitest";
+import type { ArbiterClient } from "../../src/arbiter/arbiterClient";
+import { createArbiterRequestHandler } from "../../src/arbiter/arbiterService";
+
+const API_KEY = "secret";
+const DISPUTE = encodeURIComponent("eip155:84532:0xescrow:0xuser:1");
+const EVIDENCE_HASH = `0x${"ab".repeat(32)}`;
+
+/**
+ * Builds an arbiter client whose calls resolve to their own names.
+ *
+ * @returns The client
+ */
+function mockClient() {
+  return {
+    listOpenDeposits: vi.fn(async () => "deposits"),
+    listDisputes: vi.fn(async () => "disputes"),
+    getDispute: vi.fn(async () => "dispute"),
+    addEvidence: vi.fn(async () => "evidence"),
+    addSignedEvidence: vi.fn(async () => "signed evidence"),
+    submitDispute: vi.fn(async () => "submitted"),
+  } as unknown as ArbiterClient;
+}
+
+/**
+ * Sends a request through the handler.
+ *
+ * @param client - The arbiter client
+ * @param method - The HTTP method
+ * @param path - The request path
+ * @param options - Request body and bearer token
+ * @param options.body - The JSON body
+ * @param options.token - The bearer token
+ * @returns The status and parsed JSON body
+ */
+async function send(
+  client: ArbiterClient,
+  method: string,
+  path: string,
+  options: { body?: object; token?: string } = {},
+): Promise<{ status: number; body: unknown }> {
+  const req = Object.assign(
+    Readable.from(options.body ? [Buffer.from(JSON.stringify(options.body))] : []),
+    {
+      method,
+      url: path,
+      headers: options.token ? { authorization: `Bearer ${options.token}` } : {},
+    },
+  ) as unknown as IncomingMessage;
+  let status = 0;
+  let payload = "";
+  const res = {
+    writeHead: (code: number) => (status = code),
+    end: (data: string) => (payload = data),
+  } as unknown as ServerResponse;
+
+  await createArbiterRequestHandler(client, { apiKey: API_KEY })(req, res);
+  return { status, body: JSON.parse(payload) };
+}
+
+describe("createArbiterRequestHandler", () => {
+  it.each(["/deposits", "/disputes", `/disputes/${DISPUTE}`])(
+    "requires the API key for GET %s",
+    async path => {
+      const client = mockClient();
+
+      expect((await send(client, "GET", path)).status).toBe(401);
+      expect((await send(client, "GET", path, { token: "wrong" })).status).toBe(401);
+      expect((await send(client, "GET", path, { token: API_KEY })).status).toBe(200);
+    },
+  );
+
+  it("answers 403 for key-only routes when no API key is configured", async () => {
+    const req = Object.assign(Readable.from([]), {
+      method: "GET",
+      url: "/disputes",
+      headers: {},
+    }) as unknown as IncomingMessage;
+    const writeHead = vi.fn();
+    const res = { writeHead, end: vi.fn() } as unknown as ServerResponse;
+
+    await createArbiterRequestHandler(mockClient())(req, res);
+
+    expect(writeHead).toHaveBeenCalledWith(403, expect.anything());
+  });
+
+  it("adds evidence with the API key or the user's signature only", async () => {
+    const client = mockClient();
+    const path = `/disputes/${DISPUTE}/evidence`;
+
+    expect(
+      (await send(client, "POST", path, { body: { evidenceHash: EVIDENCE_HASH } })).status,
+    ).toBe(401);
+    expect(client.addEvidence).not.toHaveBeenCalled();
+
+    const withKey = await send(client, "POST", path, {
+      body: { evidenceHash: EVIDENCE_HASH },
+      token: API_KEY,
+    });
+    expect(withKey).toEqual({ status: 200, body: "evidence" });
+
+    const signature = `0x${"cd".repeat(65)}`;
+    const signed = await send(client, "POST", path, {
+      body: { evidenceHash: EVIDENCE_HASH, signature },
+    });
+    expect(signed).toEqual({ status: 200, body: "signed evidence" });
+    expect(client.addSignedEvidence).toHaveBeenCalledWith(
+      decodeURIComponent(DISPUTE),
+      EVIDENCE_HASH,
+      signature,
+    );
+  });
+
+  it("accepts extra evidence hashes on a dispute submission with the API key only", async () => {
+    const client = mockClient();
+    const request = {
+      network: "eip155:84532",
+      escrow: "0x2222222222222222222222222222222222222222",
+      user: "0x3333333333333333333333333333333333333333",
+      depositNonce: "1",
+      merchantPayout: "0x4444444444444444444444444444444444444444",
+      amount: "1000",
+      reason: "Not delivered",
+      evidenceHash: EVIDENCE_HASH,
+      requestedAt: 1_700_000_000,
+    };
+    const signature = `0x${"cd".repeat(65)}`;
+    const extra = `0x${"ef".repeat(32)}`;
+
+    const signedOnly = await send(client, "POST", "/disputes", { body: { request, signature } });
+    expect(signedOnly).toEqual({ status: 201, body: "submitted" });
+
+    const body = { request, signature, evidenceHashes: [extra] };
+    expect((await send(client, "POST", "/disputes", { body })).status).toBe(401);
+    expect(client.submitDispute).toHaveBeenCalledTimes(1);
+
+    expect((await send(client, "POST", "/disputes", { body, token: API_KEY })).status).toBe(201);
+    expect(client.submitDispute).toHaveBeenLastCalledWith({ request, signature }, [extra]);
+  });
+
+  it("answers 400 for a malformed path encoding", async () => {
+    const client = mockClient();
+
+    expect(await send(client, "GET", "/disputes/%E0%A4%A", { token: API_KEY })).toEqual({
+      status: 400,
+      body: { error: "Malformed path segment %E0%A4%A" },
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, expect, it, vi } from "vitest";
+import { decodeFunctionData, encodeErrorResult, encodeFunctionResult, type Hex } from "viem";
+import { ERC3009_ABI, RELAY_PROXY_ABI } from "../../src/abis";
+import { DepositFailedError, DepositReorgedError, DepositUnconfirmedError } from "../../src/errors";
+import {
+  RefundDepositBatcher,
+  type RefundBatchedDeposit,
+} from "../../src/facilitator/depositBatcher";
+import { RefundNetworkRegistry } from "../../src/networks";
+import type { RefundFacilitatorSigner } from "../../src/types";
+
+const NETWORK = "eip155:84532";
+const FROM = "0x3333333333333333333333333333333333333333";
+const CALL_ABI = [...RELAY_PROXY_ABI, ...ERC3009_ABI];
+
+/**
+ * A chain the mock signer runs batches against.
+ */
+interface MockChain {
+  /** Nonces whose deposit landed */
+  landed: Set<Hex>;
+  /** Revert data of deposits that fail in simulation */
+  simulatedReverts: Map<Hex, Hex>;
+  /** Nonces whose deposit passes simulation but does not land */
+  dropped: Set<Hex>;
+  /** Deposits per sent batch transaction */
+  batches: Hex[][];
+  /** Nonces whose deposit is reorged out before the batch is confirmed */
+  reorged: Set<Hex>;
+}
+
+/**
+ * Builds a deposit with a distinct nonce.
+ *
+ * @param id - Byte repeated to form the nonce
+ * @returns The deposit
+ */
+function deposit(id: string): RefundBatchedDeposit {
+  const nonce = `0x${id.repeat(32)}` as Hex;
+  return {
+    network: NETWORK,
+    proxyAddress: "0x1111111111111111111111111111111111111111",
+    args: [
+      FROM,
+      1000n,
+      0n,
+      9_999_999_999n,
+      nonce,
+      27,
+      `0x${"01".repeat(32)}`,
+      `0x${"02".repeat(32)}`,
+    ],
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    escrowAddress: "0x2222222222222222222222222222222222222222",
+    merchantPayout: "0x4444444444444444444444444444444444444444",
+    from: FROM,
+    nonce,
+  };
+}
+
+/**
+ * Decodes the nonce of an aggregate3 call (executeDeposit or authorizationState).
+ *
+ * @param callData - The encoded call
+ * @returns The function name and nonce
+ */
+function decodeCall(callData: Hex): { functionName: string; nonce: Hex } {
+  const { functionName, args } = decodeFunctionData({ abi: CALL_ABI, data: callData });
+  const nonce = (functionName === "executeDeposit" ? args[4] : args[1]) as Hex;
+  return { functionName, nonce };
+}
+
+/**
+ * Builds a signer whose batch transactions land every deposit not marked as dropped.
+ *
+ * @param chain - The chain state
+ * @param waitForReceipt - Called before each receipt is returned (e.g. to hold it back)
+ * @returns The signer
+ */
+function mockSigner(
+  chain: MockChain,
+  waitForReceipt: () => Promise<unknown> = async () => undefined,
+): RefundFacilitatorSigner {
+  const isUsed = (nonce: Hex) =>
+    encodeFunctionResult({
+      abi: ERC3009_ABI,
+      functionName: "authorizationState",
+      result: chain.landed.has(nonce),
+    });
+
+  return {
+    getAddresses: () => ["0x9999999999999999999999999999999999999999"],
+    readContract: vi.fn(async ({ functionName, args }) => {
+      if (functionName === "authorizationState") {
+        return chain.landed.has(args[1]);
+      }
+      const calls = args[0] as { callData: Hex }[];
+      return calls.map(({ callData }) => {
+        const call = decodeCall(callData);
+        if (call.functionName === "authorizationState") {
+          return { success: true, returnData: isUsed(call.nonce) };
+        }
+        const revert = chain.simulatedReverts.get(call.nonce);
+        return { success: !revert, returnData: revert ?? "0x" };
+      });
+    }),
+    writeContract: vi.fn(async ({ args }) => {
+      const nonces = (args[0] as { callData: Hex }[]).map(
+        ({ callData }) => decodeCall(callData).nonce,
+      );
+      chain.batches.push(nonces);
+      for (const nonce of nonces) {
+        if (!chain.dropped.has(nonce)) {
+          chain.landed.add(nonce);
+        }
+      }
+      return `0x${String(chain.batches.length).padStart(64, "0")}`;
+    }),
+    waitForTransactionReceipt: vi.fn(async () => {
+      await waitForReceipt();
+      return { status: "success" };
+    }),
+    getTransactionConfirmations: vi.fn(async () => {
+      for (const nonce of chain.reorged) {
+        chain.landed.delete(nonce);
+      }
+      return 10n;
+    }),
+  } as unknown as RefundFacilitatorSigner;
+}
+
+/**
+ * Builds an empty chain.
+ *
+ * @returns The chain state
+ */
+function emptyChain(): MockChain {
+  return {
+    landed: new Set(),
+    simulatedReverts: new Map(),
+    dropped: new Set(),
+    batches: [],
+    reorged: new Set(),
+  };
+}
+
+describe("RefundDepositBatcher", () => {
+  it("sends a full batch as one transaction", async () => {
+    const chain = emptyChain();
+    const batcher = new RefundDepositBatcher(mockSigner(chain), { maxBatchSize: 2 });
+
+    const results = await Promise.all([
+      batcher.enqueue(deposit("aa")),
+      batcher.enqueue(deposit("bb")),
+    ]);
+
+    expect(chain.batches).toHaveLength(1);
+    expect(chain.batches[0]).toHaveLength(2);
+    expect(results.map(result => result.transaction)).toEqual([
+      `0x${"1".padStart(64, "0")}`,
+      `0x${"1".padStart(64, "0")}`,
+    ]);
+  });
+
+  it("sends a partial batch once maxWaitMs has passed", async () => {
+    vi.useFakeTimers();
+    try {
+      const chain = emptyChain();
+      const batcher = new RefundDepositBatcher(mockSigner(chain), { maxWaitMs: 1000 });
+
+      const result = batcher.enqueue(deposit("aa"));
+      await vi.advanceTimersByTimeAsync(999);
+      expect(chain.batches).toHaveLength(0);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(result).resolves.toMatchObject({ transaction: expect.stringMatching(/^0x/) });
+      expect(chain.batches).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("never has two batch transactions in flight", async () => {
+    const chain = emptyChain();
+    let releaseReceipt = () => {};
+    const signer = mockSigner(
+      chain,
+      () => new Promise<void>(resolve => (releaseReceipt = resolve)),
+    );
+    const batcher = new RefundDepositBatcher(signer, { maxBatchSize: 1 });
+
+    const first = batcher.enqueue(deposit("aa"));
+    const second = batcher.enqueue(deposit("bb"));
+    await vi.waitFor(() => expect(chain.batches).toHaveLength(1));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(chain.batches).toHaveLength(1);
+
+    releaseReceipt();
+    await first;
+    await vi.waitFor(() => expect(chain.batches).toHaveLength(2));
+    releaseReceipt();
+    await second;
+  });
+
+  it("fails deposits that would revert on their own and sends the rest", async () => {
+    const chain = emptyChain();
+    const failing = deposit("bb");
+    chain.simulatedReverts.set(
+      failing.nonce as Hex,
+      encodeErrorResult({ abi: RELAY_PROXY_ABI, errorName: "ZeroAmount" }),
+    );
+    const batcher = new RefundDepositBatcher(mockSigner(chain), { maxBatchSize: 2 });
+
+    const [ok, failed] = await Promise.allSettled([
+      batcher.enqueue(deposit("aa")),
+      batcher.enqueue(failing),
+    ]);
+
+    expect(ok.status).toBe("fulfilled");
+    expect(failed.status).toBe("rejected");
+    const error = (failed as PromiseRejectedResult).reason;
+    expect(error).toBeInstanceOf(DepositFailedError);
+    expect(error.revert?.errorName).toBe("ZeroAmount");
+    expect(chain.batches).toEqual([[deposit("aa").nonce]]);
+  });
+
+  it("fails deposits that did not land in a mined batch", async () => {
+    const chain = emptyChain();
+    chain.dropped.add(deposit("bb").nonce as Hex);
+    const batcher = new RefundDepositBatcher(mockSigner(chain), { maxBatchSize: 2 });
+
+    const [ok, failed] = await Promise.allSettled([
+      batcher.enqueue(deposit("aa")),
+      batcher.enqueue(deposit("bb")),
+    ]);
+
+    expect(ok.status).toBe("fulfilled");
+    expect((failed as PromiseRejectedResult).reason).toBeInstanceOf(DepositFailedError);
+    expect((failed as PromiseRejectedResult).reason.message).toMatch(/did not land/);
+  });
+
+  it("fails every deposit as unconfirmed when the receipt never arrives", async () => {
+    const chain = emptyChain();
+    const signer = mockSigner(chain, async () => {
+      throw new Error("Timed out while waiting for transaction");
+    });
+    const batcher = new RefundDepositBatcher(signer, { maxBatchSize: 2 });
+
+    const results = await Promise.allSettled([
+      batcher.enqueue(deposit("aa")),
+      batcher.enqueue(deposit("bb")),
+    ]);
+
+    for (const result of results) {
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(DepositUnconfirmedError);
+    }
+  });
+
+  it("waits for the registry's confirmation depth and checks the deposits again", async () => {
+    const chain = emptyChain();
+    chain.reorged.add(deposit("bb").nonce as Hex);
+    const signer = mockSigner(chain);
+    const registry = new RefundNetworkRegistry({ [NETWORK]: { confirmations: 3 } });
+    const batcher = new RefundDepositBatcher(signer, { maxBatchSize: 2, registry });
+
+    const [ok, reorged] = await Promise.allSettled([
+      batcher.enqueue(deposit("aa")),
+      batcher.enqueue(deposit("bb")),
+    ]);
+
+    expect(signer.getTransactionConfirmations).toHaveBeenCalled();
+    expect(ok.status).toBe("fulfilled");
+    expect((reorged as PromiseRejectedResult).reason).toBeInstanceOf(DepositReorgedError);
+  });
+
+  it("refuses deposits it cannot confirm to the configured depth", async () => {
+    const chain = emptyChain();
+    const signer = { ...mockSigner(chain), getTransactionConfirmations: undefined };
+    const batcher = new RefundDepositBatcher(signer, { confirmations: 3 });
+
+    await expect(batcher.enqueue(deposit("aa"))).rejects.toThrow(/getTransactionConfirmations/);
+    expect(chain.batches).toHaveLength(0);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+import { encodeAbiParameters, encodeEventTopics } from "viem";
+import { ESCROW_ABI } from "../../src/abis";
+import {
+  checkDepositsOnChain,
+  getConfirmationDepth,
+  type RefundDepositRef,
+} from "../../src/facilitator/depositConfirmation";
+import { RefundNetworkRegistry } from "../../src/networks";
+import type { RefundFacilitatorSigner } from "../../src/types";
+
+const escrow = "0x2222222222222222222222222222222222222222";
+const payer = "0x3333333333333333333333333333333333333333";
+const merchantPayout = "0x4444444444444444444444444444444444444444";
+const options = { multicallAddress: false as const, retryPolicy: { maxRetries: 0 } };
+
+const deposit: RefundDepositRef = {
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  from: payer,
+  nonce: `0x${"aa".repeat(32)}`,
+  escrowAddress: escrow,
+  merchantPayout,
+  amount: "10000",
+};
+
+/**
+ * Builds the receipt log of the deposit's DepositNoted event.
+ *
+ * @param depositNonce - The escrow's deposit nonce
+ * @returns The log
+ */
+function depositNotedLog(depositNonce: bigint) {
+  return {
+    address: escrow,
+    topics: encodeEventTopics({
+      abi: ESCROW_ABI,
+      eventName: "DepositNoted",
+      args: { user: payer, merchantPayout, depositNonce },
+    }),
+    data: encodeAbiParameters([{ type: "uint256" }], [10_000n]),
+  };
+}
+
+/**
+ * Builds a signer reading the nonce state and the escrow record.
+ *
+ * @param nonceUsed - What authorizationState returns
+ * @param recordMerchant - The merchant of the escrow record, or an error to throw
+ * @returns The signer
+ */
+function mockSigner(nonceUsed: boolean, recordMerchant: string | Error = merchantPayout) {
+  return {
+    readContract: vi.fn(async ({ functionName }) => {
+      if (functionName === "authorizationState") {
+        return nonceUsed;
+      }
+      if (recordMerchant instanceof Error) {
+        throw recordMerchant;
+      }
+      return [10_000n, 1_700_000_000n, 7n, recordMerchant];
+    }),
+  } as unknown as RefundFacilitatorSigner;
+}
+
+describe("checkDepositsOnChain", () => {
+  it("finds a deposit whose nonce is used and whose escrow record matches", async () => {
+    const signer = mockSigner(true);
+    const receipt = { status: "success", logs: [depositNotedLog(7n)] };
+
+    await expect(checkDepositsOnChain(signer, receipt, [deposit], options)).resolves.toEqual([
+      { state: "on_chain", depositNonce: 7n },
+    ]);
+    expect(signer.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: "deposits", args: [payer, 7n] }),
+    );
+  });
+
+  it("matches identical deposits of a batch to their own events", async () => {
+    const signer = mockSigner(true);
+    const receipt = { status: "success", logs: [depositNotedLog(7n), depositNotedLog(8n)] };
+    const second = { ...deposit, nonce: `0x${"bb".repeat(32)}` };
+
+    await expect(
+      checkDepositsOnChain(signer, receipt, [deposit, second], options),
+    ).resolves.toEqual([
+      { state: "on_chain", depositNonce: 7n },
+      { state: "on_chain", depositNonce: 8n },
+    ]);
+  });
+
+  it("treats a reverted receipt as gone without reading", async () => {
+    const signer = mockSigner(true);
+
+    await expect(
+      checkDepositsOnChain(signer, { status: "reverted" }, [deposit], options),
+    ).resolves.toEqual([{ state: "gone" }]);
+    expect(signer.readContract).not.toHaveBeenCalled();
+  });
+
+  it("treats an unused nonce as gone", async () => {
+    const receipt = { status: "success", logs: [depositNotedLog(7n)] };
+
+    await expect(
+      checkDepositsOnChain(mockSigner(false), receipt, [deposit], options),
+    ).resolves.toEqual([{ state: "gone" }]);
+  });
+
+  it("checks a deposit without a matching DepositNoted event by nonce only", async () => {
+    const signer = mockSigner(true);
+    const otherEvent = { address: escrow, topics: [`0x${"00".repeat(32)}`], data: "0x" };
+    const receipt = { status: "success", logs: [otherEvent] };
+
+    await expect(checkDepositsOnChain(signer, receipt, [deposit], options)).resolves.toEqual([
+      { state: "on_chain" },
+    ]);
+    await expect(
+      checkDepositsOnChain(mockSigner(false), receipt, [deposit], options),
+    ).resolves.toEqual([{ state: "gone" }]);
+    expect(signer.readContract).toHaveBeenCalledTimes(1);
+  });
+
+  it("treats an escrow record for another merchant as gone", async () => {
+    const signer = mockSigner(true, "0x5555555555555555555555555555555555555555");
+    const receipt = { status: "success", logs: [depositNotedLog(7n)] };
+
+    await expect(checkDepositsOnChain(signer, receipt, [deposit], options)).resolves.toEqual([
+      { state: "gone" },
+    ]);
+  });
+
+  it("reports a failed escrow read as unknown", async () => {
+    const error = new Error("execution reverted");
+    const receipt = { status: "success", logs: [depositNotedLog(7n)] };
+
+    await expect(
+      checkDepositsOnChain(mockSigner(true, error), receipt, [deposit], options),
+    ).resolves.toEqual([{ state: "unknown", error }]);
+  });
+
+  it("checks receipts without logs by nonce only", async () => {
+    const signer = mockSigner(true);
+
+    await expect(
+      checkDepositsOnChain(signer, { status: "success" }, [deposit], options),
+    ).resolves.toEqual([{ state: "on_chain" }]);
+    expect(signer.readContract).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("getConfirmationDepth", () => {
+  const registry = new RefundNetworkRegistry({ "eip155:1": { confirmations: 3 } });
+
+  it("reads the registry unless overridden", () => {
+    const signer = { getTransactionConfirmations: vi.fn() } as unknown as RefundFacilitatorSigner;
+
+    expect(getConfirmationDepth(signer, "eip155:1", { registry })).toBe(3);
+    expect(getConfirmationDepth(signer, "eip155:1", { registry, confirmations: 5 })).toBe(5);
+  });
+
+  it("throws for a depth above 1 without getTransactionConfirmations", () => {
+    const signer = {} as RefundFacilitatorSigner;
+
+    expect(() => getConfirmationDepth(signer, "eip155:1", { registry })).toThrow(
+      /getTransactionConfirmations/,
+    );
+    expect(getConfirmationDepth(signer, "eip155:1", { registry, confirmations: 1 })).toBe(1);
+  });
+});
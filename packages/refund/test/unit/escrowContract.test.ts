@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PublicClient, WalletClient } from "viem";
+import {
+  getEscrowDepositEvents,
+  resolveFromBlock,
+  writeEscrowContract,
+} from "../../src/escrow/escrowContract";
+import { EscrowCallError } from "../../src/errors";
+
+const escrow = "0x2222222222222222222222222222222222222222";
+
+/**
+ * Builds a public client with one DepositNoted event at each given block.
+ *
+ * @param eventBlocks - Blocks that hold an event
+ * @param latestBlock - The latest block number
+ * @returns The client
+ */
+function mockClient(eventBlocks: bigint[], latestBlock = 100n) {
+  return {
+    getBlockNumber: vi.fn(async () => latestBlock),
+    getContractEvents: vi.fn(async ({ fromBlock, toBlock }) =>
+      eventBlocks
+        .filter(block => block >= fromBlock && block <= toBlock)
+        .map(block => ({
+          args: {
+            user: "0x3333333333333333333333333333333333333333",
+            merchantPayout: "0x4444444444444444444444444444444444444444",
+            depositNonce: block,
+            amount: 1000n,
+          },
+          transactionHash: `0x${block.toString(16).padStart(64, "0")}`,
+          blockNumber: block,
+        })),
+    ),
+  } as unknown as PublicClient;
+}
+
+describe("getEscrowDepositEvents", () => {
+  it("searches up to the latest block in bounded windows", async () => {
+    const client = mockClient([5n, 45n, 100n]);
+
+    const events = await getEscrowDepositEvents(client, escrow, {
+      fromBlock: 0n,
+      blockRange: 40n,
+    });
+
+    expect(events.map(event => event.blockNumber)).toEqual([5n, 45n, 100n]);
+    expect(
+      vi
+        .mocked(client.getContractEvents)
+        .mock.calls.map(([args]) => [args!.fromBlock, args!.toBlock]),
+    ).toEqual([
+      [0n, 39n],
+      [40n, 79n],
+      [80n, 100n],
+    ]);
+  });
+
+  it("stops at toBlock without reading the latest block", async () => {
+    const client = mockClient([5n, 45n]);
+
+    const events = await getEscrowDepositEvents(client, escrow, { fromBlock: 0n, toBlock: 10n });
+
+    expect(events.map(event => event.depositNonce)).toEqual([5n]);
+    expect(client.getBlockNumber).not.toHaveBeenCalled();
+    expect(client.getContractEvents).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a block range that is not positive", async () => {
+    await expect(
+      getEscrowDepositEvents(mockClient([]), escrow, { fromBlock: 0n, blockRange: 0n }),
+    ).rejects.toThrow(/blockRange/);
+  });
+});
+
+describe("resolveFromBlock", () => {
+  it("prefers the listing's block over the configured one", () => {
+    expect(resolveFromBlock(7n, 3n)).toBe(7n);
+    expect(resolveFromBlock(undefined, 3n)).toBe(3n);
+    expect(resolveFromBlock(0n, undefined)).toBe(0n);
+  });
+
+  it("throws when neither is set", () => {
+    expect(() => resolveFromBlock(undefined, undefined)).toThrow(/fromBlock is required/);
+  });
+});
+
+describe("writeEscrowContract", () => {
+  const transaction = `0x${"aa".repeat(32)}` as const;
+
+  /**
+   * Builds clients that send a transaction whose receipt wait fails.
+   *
+   * @returns The public and wallet clients
+   */
+  function clientsWithoutReceipt() {
+    const publicClient = {
+      simulateContract: vi.fn(async args => ({ request: args })),
+      waitForTransactionReceipt: vi.fn(async () => {
+        throw new Error("Timed out while waiting for transaction");
+      }),
+    } as unknown as PublicClient;
+    const walletClient = {
+      account: { address: "0x5555555555555555555555555555555555555555" },
+      writeContract: vi.fn(async () => transaction),
+    } as unknown as WalletClient;
+    return { publicClient, walletClient };
+  }
+
+  it("throws an EscrowCallError with the sent transaction when its receipt cannot be fetched", async () => {
+    const { publicClient, walletClient } = clientsWithoutReceipt();
+    const onBroadcast = vi.fn(async () => undefined);
+
+    const error = await writeEscrowContract(
+      publicClient,
+      walletClient,
+      escrow,
+      "release",
+      ["0x3333333333333333333333333333333333333333", 1n],
+      onBroadcast,
+    ).catch(error => error);
+
+    expect(error).toBeInstanceOf(EscrowCallError);
+    expect(error).toMatchObject({ functionName: "release", transaction });
+    expect(error.message).toMatch(/Timed out/);
+    expect(onBroadcast).toHaveBeenCalledWith(transaction);
+  });
+});
@@ -0,0 +1,415 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+  PaymentPayload,
+  PaymentRequirements,
+  SchemeNetworkFacilitator,
+  SettleResponse,
+} from "@x402/core/types";
+import { verifyTypedData, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  settleWithRefundHelper,
+  verifyWithRefundHelper,
+  type SettleWithRefundOptions,
+} from "../../src/facilitator";
+import { RefundSchemeFacilitator } from "../../src/facilitator/registerRefundExtension";
+import { LruRelayInfoCache } from "../../src/facilitator/relayInfoCache";
+import { RefundSettlementStatusTracker } from "../../src/facilitator/settlementStatus";
+import {
+  InMemoryRefundSettlementStore,
+  getRefundSettlementKey,
+  type RefundSettlementRecord,
+} from "../../src/facilitator/settlementStore";
+import { RefundNetworkRegistry } from "../../src/networks";
+import type { RefundFacilitatorSigner } from "../../src/types";
+
+const account = privateKeyToAccount(
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+);
+const NETWORK = "eip155:84532";
+const ASSET = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const FACTORY = "0x1111111111111111111111111111111111111111";
+const PROXY = "0x2222222222222222222222222222222222222222";
+const MERCHANT = "0x4444444444444444444444444444444444444444";
+const ESCROW = "0x6666666666666666666666666666666666666666";
+
+const requirements: PaymentRequirements = {
+  scheme: "exact",
+  network: NETWORK,
+  asset: ASSET,
+  amount: "10000",
+  payTo: PROXY,
+  maxTimeoutSeconds: 60,
+  extra: { name: "USDC", version: "2" },
+};
+
+/**
+ * A chain the mock signer reads from and writes to.
+ */
+interface MockChain {
+  /** Whether the relay has code */
+  relayDeployed: boolean;
+  /** Whether the merchant is registered with the escrow */
+  registered: boolean;
+  /** Authorization nonces used by executeDeposit */
+  usedNonces: Set<Hex>;
+  /** Function names of the sent transactions, in order */
+  writes: string[];
+}
+
+/**
+ * Builds a chain with an undeployed relay for a registered merchant.
+ *
+ * @param fields - Fields to change
+ * @returns The chain state
+ */
+function mockChain(fields: Partial<MockChain> = {}): MockChain {
+  return { relayDeployed: false, registered: true, usedNonces: new Set(), writes: [], ...fields };
+}
+
+/**
+ * Builds a signer over a mock chain. Transaction hashes count the sent transactions, and
+ * receipts arrive on the next macrotask so concurrent settlements overlap.
+ *
+ * @param chain - The chain state
+ * @returns The signer
+ */
+function mockSigner(chain: MockChain): RefundFacilitatorSigner {
+  return {
+    getAddresses: () => ["0x9999999999999999999999999999999999999999"],
+    verifyTypedData,
+    getCode: vi.fn(async ({ address }: { address: string }) =>
+      address === FACTORY || (address === PROXY && chain.relayDeployed) ? "0x6080" : "0x",
+    ),
+    readContract: vi.fn(async ({ functionName, args }) => {
+      switch (functionName) {
+        case "getRelayAddress":
+          return PROXY;
+        case "MERCHANT_PAYOUT":
+          return MERCHANT;
+        case "ESCROW":
+          return ESCROW;
+        case "TOKEN":
+          return ASSET;
+        case "registeredMerchants":
+          return chain.registered;
+        case "authorizationState":
+          return chain.usedNonces.has(args[1]);
+        case "deposits":
+          return [10_000n, 1_700_000_000n, 0n, MERCHANT];
+      }
+      throw new Error(`Unexpected read ${functionName}`);
+    }),
+    simulateContract: vi.fn(async () => ({})),
+    writeContract: vi.fn(async ({ functionName, args }) => {
+      chain.writes.push(functionName);
+      if (functionName === "deployRelay") {
+        chain.relayDeployed = true;
+      } else {
+        chain.usedNonces.add(args[4]);
+      }
+      return `0x${String(chain.writes.length).padStart(64, "0")}`;
+    }),
+    waitForTransactionReceipt: vi.fn(async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      return { status: "success", logs: [] };
+    }),
+  } as unknown as RefundFacilitatorSigner;
+}
+
+/**
+ * Signs an ERC-3009 authorization to the relay and wraps it in a refundable payment payload.
+ *
+ * @param nonceByte - Byte repeated to form the authorization nonce
+ * @returns The payment payload
+ */
+async function signPayload(nonceByte = "ab"): Promise<PaymentPayload> {
+  const authorization = {
+    from: account.address,
+    to: PROXY,
+    value: "10000",
+    validAfter: "0",
+    validBefore: "99999999999",
+    nonce: `0x${nonceByte.repeat(32)}` as Hex,
+  };
+  const signature = await account.signTypedData({
+    domain: { name: "USDC", version: "2", chainId: 84532, verifyingContract: ASSET },
+    types: {
+      TransferWithAuthorization: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "validAfter", type: "uint256" },
+        { name: "validBefore", type: "uint256" },
+        { name: "nonce", type: "bytes32" },
+      ],
+    },
+    primaryType: "TransferWithAuthorization",
+    message: {
+      ...authorization,
+      to: PROXY,
+      value: 10_000n,
+      validAfter: 0n,
+      validBefore: 99_999_999_999n,
+    },
+  });
+  return {
+    x402Version: 2,
+    resource: { url: "https://example.com/api", description: "", mimeType: "" },
+    accepted: requirements,
+    payload: { authorization, signature },
+    extensions: {
+      refund: { info: { factoryAddress: FACTORY, merchantPayouts: { [PROXY]: MERCHANT } } },
+    },
+  };
+}
+
+/**
+ * Builds settlement options isolated from other tests (own cache and registry, no Multicall3).
+ *
+ * @param options - Options to add
+ * @returns The options
+ */
+function isolated(options: SettleWithRefundOptions = {}): SettleWithRefundOptions {
+  return {
+    multicallAddress: false,
+    relayInfoCache: new LruRelayInfoCache(),
+    registry: new RefundNetworkRegistry(),
+    ...options,
+  };
+}
+
+describe("verifyWithRefundHelper", () => {
+  it("returns null for a payment without the refund extension", async () => {
+    const payload = { ...(await signPayload()), extensions: {} };
+
+    await expect(
+      verifyWithRefundHelper(payload, requirements, mockSigner(mockChain()), isolated()),
+    ).resolves.toBeNull();
+  });
+
+  it("accepts a refund payment to a deployed relay", async () => {
+    const signer = mockSigner(mockChain({ relayDeployed: true }));
+
+    await expect(
+      verifyWithRefundHelper(await signPayload(), requirements, signer, isolated()),
+    ).resolves.toEqual({ isValid: true, payer: account.address });
+  });
+
+  it("rejects an underpaying authorization before reading the relay", async () => {
+    const signer = mockSigner(mockChain({ relayDeployed: true }));
+
+    await expect(
+      verifyWithRefundHelper(
+        await signPayload(),
+        { ...requirements, amount: "20000" },
+        signer,
+        isolated(),
+      ),
+    ).resolves.toEqual({
+      isValid: false,
+      invalidReason: "refund_invalid_authorization_value",
+      payer: account.address,
+    });
+    expect(signer.readContract).not.toHaveBeenCalled();
+  });
+
+  it("maps a failed check to its error reason", async () => {
+    const signer = mockSigner(mockChain({ relayDeployed: true, registered: false }));
+
+    await expect(
+      verifyWithRefundHelper(await signPayload(), requirements, signer, isolated()),
+    ).resolves.toEqual({
+      isValid: false,
+      invalidReason: "refund_merchant_not_registered",
+      payer: account.address,
+    });
+  });
+});
+
+describe("settleWithRefundHelper relay deployment", () => {
+  it("shares one deployRelay between concurrent settlements and journals it for each", async () => {
+    const chain = mockChain();
+    const signer = mockSigner(chain);
+    const store = new InMemoryRefundSettlementStore();
+    const put = vi.spyOn(store, "put");
+    const options = isolated({ store });
+
+    const payloads = await Promise.all([signPayload("aa"), signPayload("bb")]);
+
+    const responses = await Promise.all(
+      payloads.map(payload => settleWithRefundHelper(payload, requirements, signer, options)),
+    );
+
+    expect(responses.map(response => response?.success)).toEqual([true, true]);
+    expect(chain.writes).toEqual(["deployRelay", "executeDeposit", "executeDeposit"]);
+    const deployment = `0x${"1".padStart(64, "0")}`;
+    for (const nonceByte of ["aa", "bb"]) {
+      const key = getRefundSettlementKey(NETWORK, account.address, `0x${nonceByte.repeat(32)}`);
+      const journaled = put.mock.calls
+        .map(([record]: [RefundSettlementRecord]) => record)
+        .filter(record => record.key === key)
+        .flatMap(record => record.transactions ?? []);
+      expect(journaled).toContainEqual(
+        expect.objectContaining({ kind: "deployRelay", hash: deployment }),
+      );
+    }
+  });
+});
+
+describe("settleWithRefundHelper with returnOnBroadcast", () => {
+  const deposit = `0x${"1".padStart(64, "0")}`;
+
+  it("returns a pending response, then records the final status and calls back", async () => {
+    const tracker = new RefundSettlementStatusTracker();
+    const onSettlementComplete = vi.fn();
+    const signer = mockSigner(mockChain({ relayDeployed: true }));
+
+    const response = await settleWithRefundHelper(
+      await signPayload("cc"),
+      requirements,
+      signer,
+      isolated({ returnOnBroadcast: true, settlementStatusTracker: tracker, onSettlementComplete }),
+    );
+
+    expect(response).toMatchObject({
+      success: true,
+      transaction: deposit,
+      extensions: { refund: { status: "pending" } },
+    });
+    expect(tracker.get(deposit)?.state).toBe("pending");
+
+    await vi.waitFor(() => expect(onSettlementComplete).toHaveBeenCalledTimes(1));
+    expect(onSettlementComplete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        state: "confirmed",
+        transaction: deposit,
+        response: expect.objectContaining({ success: true }),
+      }),
+    );
+    expect(tracker.get(`0x${"cc".repeat(32)}`)?.state).toBe("confirmed");
+  });
+
+  it("still calls back when the tracker cannot record the final status", async () => {
+    const tracker = new RefundSettlementStatusTracker();
+    const set = tracker.set.bind(tracker);
+    vi.spyOn(tracker, "set").mockImplementation(status => {
+      if (status.state !== "pending") {
+        throw new Error("Tracker unavailable");
+      }
+      set(status);
+    });
+    const onSettlementComplete = vi.fn();
+
+    await settleWithRefundHelper(
+      await signPayload("dd"),
+      requirements,
+      mockSigner(mockChain({ relayDeployed: true })),
+      isolated({ returnOnBroadcast: true, settlementStatusTracker: tracker, onSettlementComplete }),
+    );
+
+    await vi.waitFor(() =>
+      expect(onSettlementComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ state: "confirmed" }),
+      ),
+    );
+    expect(tracker.get(deposit)?.state).toBe("pending");
+  });
+});
+
+describe("RefundSchemeFacilitator", () => {
+  /**
+   * Builds a wrapped scheme that accepts and settles every payment.
+   *
+   * @returns The scheme
+   */
+  function innerScheme() {
+    return {
+      scheme: "exact",
+      caipFamily: "eip155:*",
+      getExtra: () => undefined,
+      getSigners: () => [],
+      verify: vi.fn(async () => ({ isValid: true, payer: account.address })),
+      settle: vi.fn(async (): Promise<SettleResponse> => ({
+        success: true,
+        transaction: "0xinner",
+        network: NETWORK,
+        payer: account.address,
+      })),
+    } satisfies SchemeNetworkFacilitator;
+  }
+
+  it("returns a failed refund verification without asking the wrapped scheme", async () => {
+    const inner = innerScheme();
+    const scheme = new RefundSchemeFacilitator(
+      inner,
+      mockSigner(mockChain({ relayDeployed: true, registered: false })),
+      isolated(),
+    );
+
+    await expect(scheme.verify(await signPayload(), requirements)).resolves.toMatchObject({
+      isValid: false,
+      invalidReason: "refund_merchant_not_registered",
+    });
+    expect(inner.verify).not.toHaveBeenCalled();
+  });
+
+  it("verifies a valid refund payment with the wrapped scheme too", async () => {
+    const inner = innerScheme();
+    const scheme = new RefundSchemeFacilitator(
+      inner,
+      mockSigner(mockChain({ relayDeployed: true })),
+      isolated(),
+    );
+    const payload = await signPayload();
+
+    await expect(scheme.verify(payload, requirements)).resolves.toEqual({
+      isValid: true,
+      payer: account.address,
+    });
+    expect(inner.verify).toHaveBeenCalledWith(payload, requirements);
+  });
+
+  it("settles a refund payment through the relay", async () => {
+    const inner = innerScheme();
+    const chain = mockChain({ relayDeployed: true });
+    const scheme = new RefundSchemeFacilitator(inner, mockSigner(chain), isolated());
+
+    await expect(scheme.settle(await signPayload(), requirements)).resolves.toMatchObject({
+      success: true,
+      transaction: `0x${"1".padStart(64, "0")}`,
+      payer: account.address,
+    });
+    expect(chain.writes).toEqual(["executeDeposit"]);
+    expect(inner.settle).not.toHaveBeenCalled();
+  });
+
+  it("maps a refund settlement error to a failed response", async () => {
+    const inner = innerScheme();
+    const scheme = new RefundSchemeFacilitator(
+      inner,
+      mockSigner(mockChain({ relayDeployed: true, registered: false })),
+      isolated(),
+    );
+
+    await expect(scheme.settle(await signPayload(), requirements)).resolves.toEqual({
+      success: false,
+      errorReason: "refund_merchant_not_registered",
+      transaction: "",
+      network: NETWORK,
+      payer: account.address,
+    });
+    expect(inner.settle).not.toHaveBeenCalled();
+  });
+
+  it("delegates payments without the refund extension to the wrapped scheme", async () => {
+    const inner = innerScheme();
+    const scheme = new RefundSchemeFacilitator(inner, mockSigner(mockChain()), isolated());
+    const payload = { ...(await signPayload()), extensions: {} };
+
+    await expect(scheme.settle(payload, requirements)).resolves.toMatchObject({
+      transaction: "0xinner",
+    });
+    expect(inner.settle).toHaveBeenCalledWith(payload, requirements);
+  });
+});
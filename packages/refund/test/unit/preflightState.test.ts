@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { RefundRpcError } from "../../src/errors";
+import { getDeployedRelay, hasCode } from "../../src/facilitator/preflightState";
+import { LruRelayInfoCache } from "../../src/facilitator/relayInfoCache";
+
+const relay = "0x1111111111111111111111111111111111111111" as const;
+const retryPolicy = { maxRetries: 2, initialDelayMs: 1 };
+
+/**
+ * Builds an error carrying an HTTP status, as viem's HttpRequestError does.
+ *
+ * @param status - The HTTP status
+ * @returns The error
+ */
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP request failed. Status: ${status}`), { status });
+}
+
+describe("hasCode", () => {
+  it("retries transient getCode errors", async () => {
+    const getCode = vi.fn().mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce("0x6080");
+    const signer = { getCode } as unknown as FacilitatorEvmSigner;
+
+    await expect(hasCode(signer, relay, "relay code", retryPolicy)).resolves.toBe(true);
+    expect(getCode).toHaveBeenCalledTimes(2);
+  });
+
+  it("treats empty code as not deployed", async () => {
+    const signer = { getCode: vi.fn(async () => "0x") } as unknown as FacilitatorEvmSigner;
+
+    await expect(hasCode(signer, relay, "relay code", retryPolicy)).resolves.toBe(false);
+  });
+
+  it("throws RefundRpcError once the read keeps failing", async () => {
+    const getCode = vi.fn().mockRejectedValue(httpError(503));
+    const signer = { getCode } as unknown as FacilitatorEvmSigner;
+
+    const error = await hasCode(signer, relay, "factory code", retryPolicy).catch(e => e);
+    expect(error).toBeInstanceOf(RefundRpcError);
+    expect(error).toMatchObject({ code: "RPC_ERROR", operation: "factory code" });
+    expect(getCode).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("getDeployedRelay", () => {
+  it("throws RefundRpcError when the relay's immutables cannot be read", async () => {
+    const signer = {
+      getCode: vi.fn(async () => "0x6080"),
+      readContract: vi.fn(async () => {
+        throw new Error("execution reverted");
+      }),
+    } as unknown as FacilitatorEvmSigner;
+
+    const error = await getDeployedRelay(signer, "eip155:84532", relay, {
+      relayInfoCache: new LruRelayInfoCache(),
+      multicallAddress: false,
+      retryPolicy,
+    }).catch(e => e);
+    expect(error).toBeInstanceOf(RefundRpcError);
+    expect(error).toMatchObject({ operation: "proxy immutables" });
+  });
+
+  it("returns undefined for an address without code", async () => {
+    const signer = { getCode: vi.fn(async () => undefined) } as unknown as FacilitatorEvmSigner;
+
+    await expect(
+      getDeployedRelay(signer, "eip155:84532", relay, {
+        relayInfoCache: new LruRelayInfoCache(),
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { reconcilePendingSettlements } from "../../src/facilitator/reconcile";
+import {
+  InMemoryRefundSettlementStore,
+  type RefundJournaledTransaction,
+  type RefundSettlementRecord,
+} from "../../src/facilitator/settlementStore";
+
+const NOW = 1_700_000_000; // seconds
+const STALE_MS = 5 * 60_000;
+
+const authorization = {
+  network: "eip155:84532",
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  from: "0x3333333333333333333333333333333333333333",
+  nonce: `0x${"ab".repeat(32)}`,
+  validBefore: String(NOW + 600),
+};
+
+/**
+ * Builds a pending record.
+ *
+ * @param key - The settlement key
+ * @param fields - Fields to set on the record
+ * @returns The record
+ */
+function pending(
+  key: string,
+  fields: Partial<RefundSettlementRecord> & { transactions?: RefundJournaledTransaction[] } = {},
+): RefundSettlementRecord {
+  return { key, status: "pending", updatedAt: NOW * 1000, authorization, ...fields };
+}
+
+/**
+ * Builds a signer whose receipts and authorization state are given per test.
+ *
+ * @param nonceUsed - authorizationState result, or an error to throw
+ * @param receipts - Receipt status by transaction hash (missing hashes never get a receipt)
+ * @returns The signer
+ */
+function mockSigner(
+  nonceUsed: boolean | Error,
+  receipts: Record<string, "success" | "reverted"> = {},
+): FacilitatorEvmSigner {
+  return {
+    readContract: vi.fn(async () => {
+      if (nonceUsed instanceof Error) {
+        throw nonceUsed;
+      }
+      return nonceUsed;
+    }),
+    waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => {
+      if (!receipts[hash]) {
+        throw new Error("Transaction receipt not found");
+      }
+      return { status: receipts[hash] };
+    }),
+  } as unknown as FacilitatorEvmSigner;
+}
+
+/**
+ * Reconciles one record and returns its result and what is left in the store.
+ *
+ * @param record - The record to reconcile
+ * @param signer - The signer
+ * @param now - Current unix time in seconds
+ * @returns The result and the stored record afterwards
+ */
+async function reconcileOne(
+  record: RefundSettlementRecord,
+  signer: FacilitatorEvmSigner,
+  now = NOW,
+) {
+  const store = new InMemoryRefundSettlementStore();
+  await store.put(record);
+  const [result] = await reconcilePendingSettlements(signer, store, { now });
+  return { result, stored: await store.get(record.key) };
+}
+
+const deposit = (hash?: string): RefundJournaledTransaction => ({
+  kind: "executeDeposit",
+  hash,
+  submittedAt: NOW * 1000,
+});
+
+describe("reconcilePendingSettlements", () => {
+  it("leaves a fresh claim without an authorization to its settlement", async () => {
+    const { result, stored } = await reconcileOne(
+      pending("a", { authorization: undefined }),
+      mockSigner(false),
+    );
+    expect(result).toEqual({ key: "a", outcome: "pending" });
+    expect(stored).toBeDefined();
+  });
+
+  it("releases a stale claim without an authorization", async () => {
+    const { result, stored } = await reconcileOne(
+      pending("a", { authorization: undefined }),
+      mockSigner(false),
+      NOW + STALE_MS / 1000,
+    );
+    expect(result).toEqual({ key: "a", outcome: "retryable" });
+    expect(stored).toBeUndefined();
+  });
+
+  it("leaves a fresh record without a submitted deposit pending", async () => {
+    const { result, stored } = await reconcileOne(pending("a"), mockSigner(false));
+    expect(result.outcome).toBe("pending");
+    expect(stored).toBeDefined();
+  });
+
+  it("releases a stale record without a submitted deposit", async () => {
+    const { result, stored } = await reconcileOne(
+      pending("a"),
+      mockSigner(false),
+      NOW + STALE_MS / 1000,
+    );
+    expect(result.outcome).toBe("retryable");
+    expect(stored).toBeUndefined();
+  });
+
+  it("confirms a deposit whose nonce is used", async () => {
+    const { result, stored } = await reconcileOne(
+      pending("a", { transactions: [deposit("0xd1")] }),
+      mockSigner(true, { "0xd1": "success" }),
+    );
+    expect(result).toEqual({ key: "a", outcome: "confirmed", transaction: "0xd1" });
+    expect(stored).toMatchObject({
+      status: "settled",
+      response: { success: true, transaction: "0xd1", payer: authorization.from },
+    });
+  });
+
+  it("does not confirm a successful receipt that left the nonce unused", async () => {
+    const { result, stored } = await reconcileOne(
+      pending("a", { transactions: [deposit("0xd1")] }),
+      mockSigner(false, { "0xd1": "success" }),
+    );
+    expect(result.outcome).toBe("reverted");
+    expect(stored).toBeUndefined();
+  });
+
+  it("releases a reverted deposit", async () => {
+    const { result, stored } = await reconcileOne(
+      pending("a", { transactions: [deposit("0xd1")] }),
+      mockSigner(false, { "0xd1": "reverted" }),
+    );
+    expect(result.outcome).toBe("reverted");
+    expect(stored).toBeUndefined();
+  });
+
+  it("keeps an unresolved deposit pending while the authorization is valid", async () => {
+    const { result, stored } = await reconcileOne(
+      pending("a", { transactions: [deposit("0xd1")] }),
+      mockSigner(false),
+      NOW + STALE_MS / 1000,
+    );
+    expect(result.outcome).toBe("pending");
+    expect(stored).toBeDefined();
+  });
+
+  it("releases an unresolved deposit once the authorization expired", async () => {
+    const { result, stored } = await reconcileOne(
+      pending("a", { transactions: [deposit("0xd1")] }),
+      mockSigner(false),
+      NOW + 601,
+    );
+    expect(result.outcome).toBe("retryable");
+    expect(stored).toBeUndefined();
+  });
+
+  it("leaves a record pending when it cannot be checked and reconciles the others", async () => {
+    const store = new InMemoryRefundSettlementStore();
+    await store.put(pending("bad", { authorization: { ...authorization, asset: "0xnope" } }));
+    await store.put(pending("good", { transactions: [deposit("0xd1")] }));
+    await store.put({ key: "done", status: "settled", updatedAt: 0 });
+
+    const results = await reconcilePendingSettlements(mockSigner(true), store, { now: NOW });
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({ key: "bad", outcome: "pending" });
+    expect(results[0].error).toBeInstanceOf(Error);
+    expect(results[1]).toMatchObject({ key: "good", outcome: "confirmed" });
+    expect(await store.get("bad")).toMatchObject({ status: "pending" });
+  });
+
+  it("leaves a record pending when the authorization state read fails", async () => {
+    const { result, stored } = await reconcileOne(
+      pending("a", { transactions: [deposit("0xd1")] }),
+      mockSigner(new Error("execution reverted")),
+    );
+    expect(result).toMatchObject({ key: "a", outcome: "pending" });
+    expect(result.error).toBeInstanceOf(Error);
+    expect(stored).toBeDefined();
+  });
+});
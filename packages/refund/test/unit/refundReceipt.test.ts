@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { encodeAbiParameters, encodeEventTopics } from "viem";
+import { ESCROW_ABI } from "../../src/abis";
+import {
+  findDepositNonces,
+  readRefundReceipt,
+  type RefundReceiptParams,
+} from "../../src/facilitator/refundReceipt";
+
+const escrow = "0x2222222222222222222222222222222222222222";
+const payer = "0x3333333333333333333333333333333333333333";
+const merchantPayout = "0x4444444444444444444444444444444444444444";
+
+const params: RefundReceiptParams = {
+  network: "eip155:84532",
+  escrowAddress: escrow,
+  payer,
+  merchantPayout,
+  amount: "10000",
+  transaction: "0xabc",
+};
+
+/**
+ * Builds the receipt log of a DepositNoted event.
+ *
+ * @param depositNonce - The escrow's deposit nonce
+ * @param amount - The deposited amount
+ * @returns The log
+ */
+function depositNotedLog(depositNonce: bigint, amount = 10_000n) {
+  return {
+    address: escrow,
+    topics: encodeEventTopics({
+      abi: ESCROW_ABI,
+      eventName: "DepositNoted",
+      args: { user: payer, merchantPayout, depositNonce },
+    }),
+    data: encodeAbiParameters([{ type: "uint256" }], [amount]),
+  };
+}
+
+/**
+ * Builds a signer whose escrow records hold 10000 for the merchant.
+ *
+ * @param receipt - What waitForTransactionReceipt returns
+ * @returns The signer
+ */
+function mockSigner(receipt: unknown = { logs: [] }) {
+  return {
+    readContract: vi.fn(async () => [10_000n, 1_700_000_000n, 9n, merchantPayout]),
+    waitForTransactionReceipt: vi.fn(async () => receipt),
+  } as unknown as FacilitatorEvmSigner;
+}
+
+describe("findDepositNonces", () => {
+  it("gives identical deposits of one receipt their own event, in log order", () => {
+    const receipt = { logs: [depositNotedLog(7n), depositNotedLog(8n, 500n), depositNotedLog(9n)] };
+
+    expect(findDepositNonces(receipt, [params, params, { ...params, amount: "500" }])).toEqual([
+      7n,
+      9n,
+      8n,
+    ]);
+  });
+
+  it("leaves deposits without an event left to match undefined", () => {
+    const receipt = { logs: [depositNotedLog(7n)] };
+
+    expect(findDepositNonces(receipt, [params, params])).toEqual([7n, undefined]);
+    expect(findDepositNonces({}, [params])).toEqual([undefined]);
+  });
+});
+
+describe("readRefundReceipt", () => {
+  it("reads the deposit of a receipt fetched from the signer", async () => {
+    const signer = mockSigner({ logs: [depositNotedLog(7n)] });
+
+    await expect(readRefundReceipt(signer, params)).resolves.toEqual({
+      network: "eip155:84532",
+      escrow,
+      depositNonce: "7",
+      payer,
+      merchantPayout,
+      amount: "10000",
+      timestamp: 1_700_000_000,
+      transaction: "0xabc",
+    });
+    expect(signer.waitForTransactionReceipt).toHaveBeenCalledWith({ hash: "0xabc" });
+  });
+
+  it("uses a deposit nonce matched by the batch without reading the receipt", async () => {
+    const signer = mockSigner();
+
+    const receipt = await readRefundReceipt(signer, { ...params, depositNonce: 9n });
+
+    expect(receipt?.depositNonce).toBe("9");
+    expect(signer.waitForTransactionReceipt).not.toHaveBeenCalled();
+    expect(signer.readContract).toHaveBeenCalledWith(
+      expect.objectContaining({ functionName: "deposits", args: [payer, 9n] }),
+    );
+  });
+
+  it("returns undefined instead of throwing when the receipt has no matching event", async () => {
+    const signer = mockSigner();
+
+    await expect(readRefundReceipt(signer, { ...params, receipt: { logs: [] } })).resolves.toBe(
+      undefined,
+    );
+    expect(signer.readContract).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { ClientEvmSigner } from "@x402/evm";
+import { keccak256, toBytes } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  signRefundEvidence,
+  signRefundRequest,
+  verifyRefundEvidence,
+  verifyRefundRequest,
+  type RefundRequest,
+} from "../../src/escrow/refundRequest";
+
+const buyer = privateKeyToAccount(
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+) as unknown as ClientEvmSigner;
+const other = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+) as unknown as ClientEvmSigner;
+
+const request: RefundRequest = {
+  network: "eip155:84532",
+  escrow: "0x2222222222222222222222222222222222222222",
+  user: buyer.address,
+  depositNonce: "7",
+  merchantPayout: "0x4444444444444444444444444444444444444444",
+  amount: "10000",
+  reason: "Not delivered",
+  evidenceHash: `0x${"00".repeat(32)}`,
+  requestedAt: 1_700_000_000,
+};
+
+describe("refund requests", () => {
+  it("verifies a request signed by its user", async () => {
+    const signed = await signRefundRequest(buyer, request);
+
+    await expect(verifyRefundRequest(signed)).resolves.toBe(true);
+  });
+
+  it("rejects a request changed after signing", async () => {
+    const signed = await signRefundRequest(buyer, request);
+
+    await expect(
+      verifyRefundRequest({ ...signed, request: { ...request, amount: "20000" } }),
+    ).resolves.toBe(false);
+    await expect(
+      verifyRefundRequest({ ...signed, request: { ...request, network: "eip155:8453" } }),
+    ).resolves.toBe(false);
+  });
+
+  it("refuses to sign for another user", async () => {
+    await expect(signRefundRequest(other, request)).rejects.toThrow(/must be signed by/);
+  });
+});
+
+describe("refund evidence", () => {
+  const evidenceHash = keccak256(toBytes("tracking: not delivered"));
+
+  it("verifies evidence signed by the request's user", async () => {
+    const signature = await signRefundEvidence(buyer, request, evidenceHash);
+
+    await expect(verifyRefundEvidence(request, evidenceHash, signature)).resolves.toBe(true);
+    await expect(
+      verifyRefundEvidence(request, keccak256(toBytes("other")), signature),
+    ).resolves.toBe(false);
+  });
+
+  it("does not verify evidence for another request over the same deposit", async () => {
+    const signature = await signRefundEvidence(buyer, request, evidenceHash);
+    const later = { ...request, requestedAt: request.requestedAt + 3600 };
+
+    await expect(verifyRefundEvidence(later, evidenceHash, signature)).resolves.toBe(false);
+  });
+
+  it("does not verify evidence signed by someone else", async () => {
+    const signature = await signRefundEvidence(
+      other,
+      { ...request, user: other.address },
+      evidenceHash,
+    );
+
+    await expect(verifyRefundEvidence(request, evidenceHash, signature)).resolves.toBe(false);
+  });
+});
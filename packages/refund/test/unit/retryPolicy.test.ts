@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { encodeErrorResult } from "viem";
+import { RELAY_PROXY_ABI } from "../../src/abis";
+import {
+  classifyDepositError,
+  getRetryDelay,
+  isTransientRpcError,
+  readContractWithRetry,
+  resolveRetryPolicy,
+} from "../../src/facilitator/retryPolicy";
+
+const read = {
+  address: "0x1111111111111111111111111111111111111111" as const,
+  abi: [],
+  functionName: "authorizationState",
+};
+
+/**
+ * Builds an error carrying an HTTP status, as viem's HttpRequestError does.
+ *
+ * @param status - The HTTP status
+ * @returns The error
+ */
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP request failed. Status: ${status}`), { status });
+}
+
+describe("isTransientRpcError", () => {
+  it("treats rate limits and server errors as transient", () => {
+    expect(isTransientRpcError(httpError(429))).toBe(true);
+    expect(isTransientRpcError(httpError(503))).toBe(true);
+    expect(isTransientRpcError(new Error("Too Many Requests"))).toBe(true);
+  });
+
+  it("treats connection failures as transient", () => {
+    expect(isTransientRpcError(new TypeError("fetch failed"))).toBe(true);
+    expect(isTransientRpcError(new Error("read ECONNRESET"))).toBe(true);
+    expect(isTransientRpcError({ details: "socket hang up" })).toBe(true);
+  });
+
+  it("checks nested causes", () => {
+    const inner = Object.assign(new Error("RPC Request failed"), { cause: httpError(502) });
+    const error = Object.assign(new Error("Request failed"), { cause: inner });
+    expect(isTransientRpcError(error)).toBe(true);
+  });
+
+  it("does not retry client errors and reverts", () => {
+    expect(isTransientRpcError(httpError(400))).toBe(false);
+    expect(isTransientRpcError(new Error("execution reverted"))).toBe(false);
+    expect(isTransientRpcError("fetch failed")).toBe(false);
+    expect(isTransientRpcError(undefined)).toBe(false);
+  });
+});
+
+describe("classifyDepositError", () => {
+  it("classifies reverts as deterministic", () => {
+    expect(classifyDepositError(new Error("execution reverted: ERC20: transfer failed"))).toBe(
+      "deterministic",
+    );
+    const data = encodeErrorResult({ abi: RELAY_PROXY_ABI, errorName: "ZeroAmount" });
+    expect(classifyDepositError(Object.assign(new Error("reverted"), { data }))).toBe(
+      "deterministic",
+    );
+  });
+
+  it("classifies a revert behind a 5xx status as deterministic", () => {
+    const error = Object.assign(new Error("execution reverted"), { status: 500 });
+    expect(classifyDepositError(error)).toBe("deterministic");
+  });
+
+  it("classifies timeouts and duplicate broadcasts as broadcast_unknown", () => {
+    const timeout = Object.assign(new Error("The request took too long"), {
+      name: "TimeoutError",
+    });
+    expect(classifyDepositError(timeout)).toBe("broadcast_unknown");
+    expect(classifyDepositError(new Error("Request timed out"))).toBe("broadcast_unknown");
+    expect(classifyDepositError(new Error("already known"))).toBe("broadcast_unknown");
+    expect(classifyDepositError(new Error("nonce too low: next nonce 8"))).toBe(
+      "broadcast_unknown",
+    );
+  });
+
+  it("classifies rate limits and connection failures as transient", () => {
+    expect(classifyDepositError(httpError(429))).toBe("transient");
+    expect(classifyDepositError(new TypeError("fetch failed"))).toBe("transient");
+  });
+
+  it("classifies anything else as deterministic", () => {
+    expect(classifyDepositError(new Error("insufficient funds for gas"))).toBe("deterministic");
+    expect(classifyDepositError("boom")).toBe("deterministic");
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("backs off exponentially up to the maximum delay", () => {
+    const policy = resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 500 });
+    expect([0, 1, 2, 3, 4].map(retry => getRetryDelay(policy, retry))).toEqual([
+      100, 200, 400, 500, 500,
+    ]);
+  });
+});
+
+describe("readContractWithRetry", () => {
+  const retryPolicy = { maxRetries: 2, initialDelayMs: 1 };
+
+  it("retries transient errors", async () => {
+    const readContract = vi.fn().mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce(true);
+    const signer = { readContract } as unknown as FacilitatorEvmSigner;
+
+    await expect(readContractWithRetry(signer, read, retryPolicy)).resolves.toBe(true);
+    expect(readContract).toHaveBeenCalledTimes(2);
+  });
+
+  it("throws other errors without retrying", async () => {
+    const readContract = vi.fn().mockRejectedValue(new Error("execution reverted"));
+    const signer = { readContract } as unknown as FacilitatorEvmSigner;
+
+    await expect(readContractWithRetry(signer, read, retryPolicy)).rejects.toThrow("reverted");
+    expect(readContract).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws the last error once retries are exhausted", async () => {
+    const readContract = vi.fn().mockRejectedValue(httpError(503));
+    const signer = { readContract } as unknown as FacilitatorEvmSigner;
+
+    await expect(readContractWithRetry(signer, read, retryPolicy)).rejects.toThrow("503");
+    expect(readContract).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import type { HTTPRequestContext, PaymentOption, RouteConfig } from "@x402/core/http";
+import { x402ResourceServer, type FacilitatorClient } from "@x402/core/server";
+import { refundable, withRefund } from "../../src/server";
+import { REFUND_EXTENSION_KEY, type RefundExtension } from "../../src/types";
+
+const NETWORK = "eip155:84532";
+const FACTORY = "0x1111111111111111111111111111111111111111";
+const CREATEX = "0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed";
+const SELLERS: Record<string, string> = {
+  alice: "0x4444444444444444444444444444444444444444",
+  bob: "0x5555555555555555555555555555555555555555",
+};
+
+// The relay of a merchant is its address with the first byte set to 0xaa
+vi.mock("../../src/server/computeRelayAddress", () => ({
+  computeRelayAddress: (_createx: string, _factory: string, merchantPayout: string) =>
+    `0xaa${merchantPayout.slice(4)}`,
+}));
+
+/**
+ * Builds a route whose refundable option pays the seller named in the request path.
+ *
+ * @returns The route
+ */
+function sellerRoute(): RouteConfig {
+  return {
+    accepts: refundable({
+      scheme: "exact",
+      network: NETWORK,
+      price: "$0.01",
+      payTo: (context: HTTPRequestContext) => SELLERS[context.path.slice(1)],
+    } as PaymentOption),
+  };
+}
+
+/**
+ * Resolves a route's payTo for a request and builds its enriched refund extension, as the
+ * resource server does for a 402 response.
+ *
+ * @param server - The resource server
+ * @param route - The processed route
+ * @param path - The request path
+ * @returns The relay address and the refund extension
+ */
+async function respond(server: x402ResourceServer, route: RouteConfig, path: string) {
+  const context = { path } as HTTPRequestContext;
+  const option = route.accepts as PaymentOption;
+  const payTo = typeof option.payTo === "function" ? await option.payTo(context) : option.payTo;
+  const extensions = server.enrichExtensions(route.extensions ?? {}, context);
+  return { payTo, extension: extensions[REFUND_EXTENSION_KEY] as RefundExtension };
+}
+
+describe("withRefund", () => {
+  it("publishes each request's relay for a dynamic payTo", async () => {
+    const server = new x402ResourceServer({} as FacilitatorClient);
+    const route = withRefund(sellerRoute(), FACTORY, CREATEX, undefined, server) as RouteConfig;
+
+    const alice = await respond(server, route, "/alice");
+    const bob = await respond(server, route, "/bob");
+
+    expect(alice.payTo).toBe(`0xaa${SELLERS.alice.slice(4)}`);
+    expect(alice.extension.info.merchantPayouts).toEqual({ [alice.payTo]: SELLERS.alice });
+    expect(alice.extension.info.networks?.[NETWORK].merchantPayouts).toEqual({
+      [alice.payTo]: SELLERS.alice,
+    });
+    expect(bob.extension.info.merchantPayouts).toEqual({ [bob.payTo]: SELLERS.bob });
+    // The route's own declaration is shared between requests and stays empty
+    expect(
+      (route.extensions?.[REFUND_EXTENSION_KEY] as RefundExtension).info.merchantPayouts,
+    ).toEqual({});
+  });
+
+  it("throws for a dynamic payTo without the resource server", () => {
+    expect(() => withRefund(sellerRoute(), FACTORY, CREATEX)).toThrow(/dynamic payTo/);
+  });
+
+  it("needs no server for a static payTo", () => {
+    const route = withRefund(
+      { accepts: refundable({ ...(sellerRoute().accepts as PaymentOption), payTo: SELLERS.bob }) },
+      FACTORY,
+      CREATEX,
+    ) as RouteConfig;
+
+    expect((route.accepts as PaymentOption).payTo).toBe(`0xaa${SELLERS.bob.slice(4)}`);
+  });
+});
@@ -0,0 +1,262 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PaymentPayload, PaymentRequirements, SettleResponse } from "@x402/core/types";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { SettlementInProgressError, UntrustedFactoryError } from "../../src/errors";
+import { settleWithRefundHelper } from "../../src/facilitator";
+import {
+  FileRefundSettlementStore,
+  InMemoryRefundSettlementStore,
+  SqliteRefundSettlementStore,
+  getRefundSettlementKey,
+  type RefundSettlementRecord,
+  type RefundSqliteDatabase,
+} from "../../src/facilitator/settlementStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const settled = (key: string, updatedAt: number): RefundSettlementRecord => ({
+  key,
+  status: "settled",
+  response: { success: true, transaction: "0xabc", network: "eip155:84532" },
+  updatedAt,
+});
+
+describe("InMemoryRefundSettlementStore", () => {
+  it("claims a key once", async () => {
+    const store = new InMemoryRefundSettlementStore();
+    expect(await store.claim("a")).toBe(true);
+    expect(await store.claim("a")).toBe(false);
+    expect(await store.get("a")).toMatchObject({ key: "a", status: "pending" });
+  });
+
+  it("prunes settled records older than the TTL but keeps pending ones", async () => {
+    const store = new InMemoryRefundSettlementStore({ settledTtlMs: DAY_MS });
+    const now = Date.now();
+    await store.put(settled("old", now - 2 * DAY_MS));
+    await store.put(settled("new", now));
+    await store.put({ key: "pending", status: "pending", updatedAt: now - 2 * DAY_MS });
+
+    expect(await store.prune(now)).toBe(1);
+    expect((await store.list()).map(record => record.key).sort()).toEqual(["new", "pending"]);
+  });
+});
+
+describe("FileRefundSettlementStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "refund-store-"));
+    filePath = join(dir, "settlements.jsonl");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends one line per write and reloads the records", async () => {
+    const store = new FileRefundSettlementStore(filePath);
+    expect(await store.claim("a")).toBe(true);
+    await store.put(settled("a", Date.now()));
+    await store.claim("b");
+    await store.delete("b");
+
+    const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(4);
+
+    const reopened = new FileRefundSettlementStore(filePath);
+    expect(await reopened.list()).toEqual([settled("a", (await store.get("a"))!.updatedAt)]);
+    expect(await reopened.claim("a")).toBe(false);
+  });
+
+  it("ignores a torn last line left by a crash", async () => {
+    const record = settled("a", Date.now());
+    await writeFile(filePath, `${JSON.stringify({ put: record })}\n{"put":{"key":"b"`);
+
+    const store = new FileRefundSettlementStore(filePath);
+    expect(await store.list()).toEqual([record]);
+  });
+
+  it("drops a torn last line so later appends reload", async () => {
+    const record = settled("a", Date.now());
+    await writeFile(filePath, `${JSON.stringify({ put: record })}\n{"put":{"key":"b"`);
+
+    const store = new FileRefundSettlementStore(filePath);
+    await store.put(settled("c", record.updatedAt));
+
+    const reopened = new FileRefundSettlementStore(filePath);
+    expect(await reopened.list()).toEqual([record, settled("c", record.updatedAt)]);
+  });
+
+  it("prunes expired settled records and compacts the file", async () => {
+    const store = new FileRefundSettlementStore(filePath, { settledTtlMs: DAY_MS });
+    const now = Date.now();
+    await store.put(settled("old", now - 2 * DAY_MS));
+    await store.put(settled("new", now));
+    await store.put(settled("new", now));
+
+    expect(await store.prune(now)).toBe(1);
+    const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines.map(line => JSON.parse(line).put.key)).toEqual(["new"]);
+  });
+
+  it("compacts once stale lines outnumber live records", async () => {
+    const store = new FileRefundSettlementStore(filePath);
+    for (let i = 0; i < 1001; i++) {
+      await store.put({ key: "a", status: "pending", updatedAt: i });
+    }
+
+    const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(await new FileRefundSettlementStore(filePath).get("a")).toMatchObject({
+      updatedAt: 1000,
+    });
+  });
+});
+
+describe("SqliteRefundSettlementStore", () => {
+  // node:sqlite ships with Node.js 22.13+; these tests are skipped on older runtimes
+  let DatabaseSync: (new (path: string) => RefundSqliteDatabase) | undefined;
+  beforeAll(async () => {
+    const sqlite = await import("node:sqlite" as string).catch(() => undefined);
+    DatabaseSync = sqlite?.DatabaseSync;
+  });
+
+  const open = (skip: () => void): RefundSqliteDatabase => {
+    if (!DatabaseSync) {
+      skip();
+    }
+    return new DatabaseSync!(":memory:");
+  };
+
+  it("claims a key once and round-trips records", async ({ skip }) => {
+    const store = new SqliteRefundSettlementStore(open(skip));
+    expect(await store.claim("a")).toBe(true);
+    expect(await store.claim("a")).toBe(false);
+
+    const record = settled("a", Date.now());
+    await store.put(record);
+    expect(await store.get("a")).toEqual(record);
+    expect(await store.list()).toEqual([record]);
+
+    await store.delete("a");
+    expect(await store.get("a")).toBeUndefined();
+  });
+
+  it("prunes settled records older than the TTL", async ({ skip }) => {
+    const store = new SqliteRefundSettlementStore(open(skip), { settledTtlMs: DAY_MS });
+    const now = Date.now();
+    await store.put(settled("old", now - 2 * DAY_MS));
+    await store.put({ key: "pending", status: "pending", updatedAt: now - 2 * DAY_MS });
+
+    expect(await store.prune(now)).toBe(1);
+    expect((await store.list()).map(record => record.key)).toEqual(["pending"]);
+  });
+});
+
+describe("settleWithRefundHelper with a store", () => {
+  const factory = "0x1111111111111111111111111111111111111111";
+  const proxy = "0x2222222222222222222222222222222222222222";
+  const from = "0x3333333333333333333333333333333333333333";
+  const nonce = `0x${"ab".repeat(32)}`;
+  const network = "eip155:84532";
+  const key = getRefundSettlementKey(network, from, nonce);
+
+  const requirements: PaymentRequirements = {
+    scheme: "exact",
+    network,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    amount: "10000",
+    payTo: proxy,
+    maxTimeoutSeconds: 60,
+    extra: { name: "USDC", version: "2" },
+  };
+  const payload: PaymentPayload = {
+    x402Version: 2,
+    resource: { url: "https://example.com/api", description: "", mimeType: "" },
+    accepted: requirements,
+    payload: {
+      authorization: {
+        from,
+        to: proxy,
+        value: "10000",
+        validAfter: "0",
+        validBefore: "99999999999",
+        nonce,
+      },
+      signature: `0x${"11".repeat(65)}`,
+    },
+    extensions: {
+      refund: {
+        info: { factoryAddress: factory, merchantPayouts: { [proxy]: from } },
+      },
+    },
+  };
+  const stored: SettleResponse = { success: true, transaction: "0xabc", network, payer: from };
+
+  // Fails every signature, so a claimed settlement stops at local validation
+  const signer = {
+    verifyTypedData: vi.fn(async () => false),
+    readContract: vi.fn(),
+    writeContract: vi.fn(),
+  } as unknown as FacilitatorEvmSigner;
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it("returns the stored response without settling again", async () => {
+    const store = new InMemoryRefundSettlementStore();
+    await store.put({ key, status: "settled", response: stored, updatedAt: Date.now() });
+
+    expect(await settleWithRefundHelper(payload, requirements, signer, { store })).toEqual(stored);
+    expect(signer.verifyTypedData).not.toHaveBeenCalled();
+  });
+
+  it("polls a pending claim until another facilitator settles it", async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryRefundSettlementStore();
+    await store.claim(key);
+
+    const settlement = settleWithRefundHelper(payload, requirements, signer, { store });
+    await vi.advanceTimersByTimeAsync(1000);
+    await store.put({ key, status: "settled", response: stored, updatedAt: Date.now() });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await settlement).toEqual(stored);
+    expect(signer.verifyTypedData).not.toHaveBeenCalled();
+  });
+
+  it("gives up on a claim that is never released", async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryRefundSettlementStore();
+    await store.claim(key);
+
+    const settlement = settleWithRefundHelper(payload, requirements, signer, { store });
+    const assertion = expect(settlement).rejects.toBeInstanceOf(SettlementInProgressError);
+    await vi.advanceTimersByTimeAsync(61_000);
+    await assertion;
+  });
+
+  it("deletes the claim when the settlement fails", async () => {
+    const store = new InMemoryRefundSettlementStore();
+
+    const response = await settleWithRefundHelper(payload, requirements, signer, { store });
+
+    expect(response).toMatchObject({ success: false, errorReason: "refund_invalid_signature" });
+    expect(await store.get(key)).toBeUndefined();
+  });
+
+  it("deletes the claim when the settlement throws", async () => {
+    const store = new InMemoryRefundSettlementStore();
+
+    await expect(
+      settleWithRefundHelper(payload, requirements, signer, { store, trustPolicy: {} }),
+    ).rejects.toBeInstanceOf(UntrustedFactoryError);
+    expect(await store.get(key)).toBeUndefined();
+  });
+});
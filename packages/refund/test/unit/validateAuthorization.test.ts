@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import type { PaymentPayload, PaymentRequirements } from "@x402/core/types";
+import type { FacilitatorEvmSigner } from "@x402/evm";
+import { verifyTypedData } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { validateRefundAuthorization } from "../../src/facilitator/validateAuthorization";
+
+const account = privateKeyToAccount(
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+);
+const asset = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const proxy = "0x1111111111111111111111111111111111111111";
+const now = 1_700_000_000;
+
+const signer = { verifyTypedData } as unknown as FacilitatorEvmSigner;
+
+const requirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "eip155:84532",
+  asset,
+  amount: "10000",
+  payTo: proxy,
+  maxTimeoutSeconds: 60,
+  extra: { name: "USDC", version: "2" },
+};
+
+/**
+ * Signs an ERC-3009 authorization to the proxy and wraps it in a payment payload.
+ *
+ * @param overrides - Authorization fields to change before signing
+ * @returns The payment payload
+ */
+async function signPayload(
+  overrides: Partial<Record<"to" | "value" | "validAfter" | "validBefore", string>> = {},
+): Promise<PaymentPayload> {
+  const authorization = {
+    from: account.address,
+    to: proxy,
+    value: "10000",
+    validAfter: String(now - 60),
+    validBefore: String(now + 600),
+    nonce: `0x${"ab".repeat(32)}` as `0x${string}`,
+    ...overrides,
+  };
+  const signature = await account.signTypedData({
+    domain: { name: "USDC", version: "2", chainId: 84532, verifyingContract: asset },
+    types: {
+      TransferWithAuthorization: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "validAfter", type: "uint256" },
+        { name: "validBefore", type: "uint256" },
+        { name: "nonce", type: "bytes32" },
+      ],
+    },
+    primaryType: "TransferWithAuthorization",
+    message: {
+      ...authorization,
+      to: authorization.to as `0x${string}`,
+      value: BigInt(authorization.value),
+      validAfter: BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+    },
+  });
+  return {
+    x402Version: 2,
+    resource: { url: "https://example.com/api", description: "", mimeType: "" },
+    accepted: requirements,
+    payload: { authorization, signature },
+  };
+}
+
+describe("validateRefundAuthorization", () => {
+  it("accepts a signed authorization to the proxy", async () => {
+    const result = await validateRefundAuthorization(await signPayload(), requirements, signer, {
+      now,
+    });
+    expect(result).toMatchObject({ isValid: true, payer: account.address });
+  });
+
+  it("rejects a payload without an authorization", async () => {
+    const payload = { ...(await signPayload()), payload: {} };
+    const result = await validateRefundAuthorization(payload, requirements, signer, { now });
+    expect(result).toMatchObject({ isValid: false, invalidReason: "refund_invalid_payload" });
+  });
+
+  it("rejects a payload signed for another network", async () => {
+    const payload = await signPayload();
+    payload.accepted = { ...requirements, network: "eip155:8453" };
+    const result = await validateRefundAuthorization(payload, requirements, signer, { now });
+    expect(result).toMatchObject({ isValid: false, invalidReason: "refund_network_mismatch" });
+  });
+
+  it("returns a reason instead of throwing for a malformed asset", async () => {
+    const malformed = { ...requirements, asset: "0xnot-an-address" };
+    const result = await validateRefundAuthorization(await signPayload(), malformed, signer, {
+      now,
+    });
+    expect(result).toMatchObject({ isValid: false, invalidReason: "refund_invalid_asset" });
+  });
+
+  it("rejects a proxy TOKEN that differs from the asset", async () => {
+    const result = await validateRefundAuthorization(await signPayload(), requirements, signer, {
+      now,
+      proxyToken: "0x2222222222222222222222222222222222222222",
+    });
+    expect(result).toMatchObject({ isValid: false, invalidReason: "refund_invalid_asset" });
+  });
+
+  it("rejects an authorization to another address", async () => {
+    const payload = await signPayload({ to: "0x3333333333333333333333333333333333333333" });
+    const result = await validateRefundAuthorization(payload, requirements, signer, { now });
+    expect(result).toMatchObject({ isValid: false, invalidReason: "refund_invalid_recipient" });
+  });
+
+  it("rejects an underpaying authorization", async () => {
+    const payload = await signPayload({ value: "9999" });
+    const result = await validateRefundAuthorization(payload, requirements, signer, { now });
+    expect(result).toMatchObject({
+      isValid: false,
+      invalidReason: "refund_invalid_authorization_value",
+    });
+  });
+
+  it("rejects an authorization that is not valid yet", async () => {
+    const payload = await signPayload({ validAfter: String(now + 10) });
+    const result = await validateRefundAuthorization(payload, requirements, signer, { now });
+    expect(result).toMatchObject({
+      isValid: false,
+      invalidReason: "refund_invalid_authorization_valid_after",
+    });
+  });
+
+  it("rejects an authorization that expires too soon to settle", async () => {
+    const payload = await signPayload({ validBefore: String(now + 3) });
+    const result = await validateRefundAuthorization(payload, requirements, signer, { now });
+    expect(result).toMatchObject({
+      isValid: false,
+      invalidReason: "refund_invalid_authorization_valid_before",
+    });
+  });
+
+  it("rejects requirements without the token's EIP-712 domain", async () => {
+    const noDomain = { ...requirements, extra: {} };
+    const payload = await signPayload();
+    payload.accepted = noDomain;
+    const result = await validateRefundAuthorization(payload, noDomain, signer, { now });
+    expect(result).toMatchObject({
+      isValid: false,
+      invalidReason: "refund_missing_eip712_domain",
+    });
+  });
+
+  it("rejects a signature from someone else", async () => {
+    const payload = await signPayload();
+    (payload.payload as { authorization: { from: string } }).authorization.from =
+      "0x4444444444444444444444444444444444444444";
+    const result = await validateRefundAuthorization(payload, requirements, signer, { now });
+    expect(result).toMatchObject({ isValid: false, invalidReason: "refund_invalid_signature" });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+import type { x402Client } from "@x402/core/client";
+import type { PaymentRequired, PaymentRequirements } from "@x402/core/types";
+import { getAddress } from "viem";
+import {
+  registerRefundIntegrityCheck,
+  verifyRefundableOptions,
+} from "../../src/client/verifyRefundOptions";
+import { REFUND_EXTENSION_KEY, type RefundExtensionInfo } from "../../src/types";
+
+const NETWORK = "eip155:84532";
+const FACTORY = "0x1111111111111111111111111111111111111111";
+const MERCHANT = "0x4444444444444444444444444444444444444444";
+const RELAY = getAddress("0xabcdef0123456789abcdef0123456789abcdef01");
+const WALLET = "0x5555555555555555555555555555555555555555";
+
+// The relay of MERCHANT; any other merchant gets the zero address
+vi.mock("../../src/server/computeRelayAddress", () => ({
+  computeRelayAddress: (_createx: string, _factory: string, merchantPayout: string) =>
+    merchantPayout.toLowerCase() === MERCHANT ? RELAY : `0x${"00".repeat(20)}`,
+}));
+
+/**
+ * Builds a payment option.
+ *
+ * @param payTo - The option's payTo
+ * @param network - The option's network
+ * @returns The option
+ */
+function option(payTo: string, network = NETWORK): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network,
+    asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    amount: "1000",
+    payTo,
+    maxTimeoutSeconds: 60,
+    extra: {},
+  } as PaymentRequirements;
+}
+
+/**
+ * Builds a 402 response with a refund extension.
+ *
+ * @param accepts - The payment options
+ * @param info - The refund extension info
+ * @returns The 402 response
+ */
+function paymentRequired(
+  accepts: PaymentRequirements[],
+  info: Partial<RefundExtensionInfo>,
+): PaymentRequired {
+  return {
+    x402Version: 2,
+    accepts,
+    extensions: { [REFUND_EXTENSION_KEY]: { info } },
+  } as unknown as PaymentRequired;
+}
+
+describe("verifyRefundableOptions", () => {
+  it("finds relays published under checksummed keys", () => {
+    const report = verifyRefundableOptions(
+      paymentRequired([option(RELAY)], {
+        factoryAddress: FACTORY,
+        merchantPayouts: { [RELAY]: MERCHANT },
+      }),
+    );
+
+    expect(report.options[0].status).toBe("verified");
+    expect(report.valid).toBe(true);
+  });
+
+  it("flags an option whose payTo is not a published relay on a covered network", () => {
+    const report = verifyRefundableOptions(
+      paymentRequired([option(RELAY), option(WALLET)], {
+        factoryAddress: FACTORY,
+        merchantPayouts: { [RELAY.toLowerCase()]: MERCHANT },
+      }),
+    );
+
+    expect(report.options.map(check => check.status)).toEqual(["verified", "unlisted"]);
+    expect(report.options[1]).toMatchObject({ issues: [{ code: "UNLISTED_PAY_TO" }] });
+    expect(report.valid).toBe(false);
+  });
+
+  it("leaves options on networks without refund info as plain payments", () => {
+    const report = verifyRefundableOptions(
+      paymentRequired([option(RELAY), option(WALLET, "eip155:8453")], {
+        factoryAddress: FACTORY,
+        merchantPayouts: { [RELAY.toLowerCase()]: MERCHANT },
+        networks: {
+          [NETWORK]: { factoryAddress: FACTORY, merchantPayouts: { [RELAY]: MERCHANT } },
+        },
+      }),
+    );
+
+    expect(report.options.map(check => check.status)).toEqual(["verified", "not_refundable"]);
+    expect(report.valid).toBe(true);
+  });
+});
+
+describe("registerRefundIntegrityCheck", () => {
+  /**
+   * Runs the registered hook for an option of a 402 response.
+   *
+   * @param required - The 402 response
+   * @param selected - The selected option
+   * @param options - Integrity check options
+   * @param options.allowUnlisted - Sign for unlisted options
+   * @returns The hook's result
+   */
+  async function runHook(
+    required: PaymentRequired,
+    selected: PaymentRequirements,
+    options: { allowUnlisted?: boolean } = {},
+  ): Promise<unknown> {
+    let hook: (context: unknown) => Promise<unknown> = async () => undefined;
+    const client = {
+      onBeforePaymentCreation: (registered: typeof hook) => {
+        hook = registered;
+        return client;
+      },
+    } as unknown as x402Client;
+
+    registerRefundIntegrityCheck(client, options);
+    return hook({ paymentRequired: required, selectedRequirements: selected });
+  }
+
+  it("aborts for an unlisted option unless allowed", async () => {
+    const wallet = option(WALLET);
+    const required = paymentRequired([wallet], {
+      factoryAddress: FACTORY,
+      merchantPayouts: { [RELAY]: MERCHANT },
+    });
+
+    await expect(runHook(required, wallet)).resolves.toMatchObject({
+      abort: true,
+      reason: expect.stringMatching(/^refund_unlisted_pay_to/),
+    });
+    await expect(runHook(required, wallet, { allowUnlisted: true })).resolves.toBeUndefined();
+  });
+});